@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+import { Command } from "commander";
+import { contextCommand } from "../../../src/cli/context.js";
+import { FeedbackLog } from "../../../src/core/feedback.js";
+import { loadPlaybook } from "../../../src/core/playbook.js";
+import { addPatternTool, contextTool, feedbackTool } from "../tools.js";
+
+const examplePlaybook = join(import.meta.dir, "..", "..", "..", "examples", "playbook.yaml");
+
+let playbookPath = "";
+let playbookDir = "";
+let originalPlaybook: string | null = null;
+let playbookExisted = false;
+let dirExisted = false;
+let dataDir = "";
+let originalDataDir: string | undefined;
+
+async function captureLogsAsync<T>(fn: () => Promise<T>): Promise<{ output: string; result: T }> {
+  const logs: string[] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map(String).join(" "));
+  };
+
+  try {
+    const result = await fn();
+    return { output: logs.join("\n"), result };
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+beforeEach(() => {
+  playbookDir = join(os.homedir(), ".sls-memory");
+  playbookPath = join(playbookDir, "playbook.yaml");
+  dirExisted = existsSync(playbookDir);
+  playbookExisted = existsSync(playbookPath);
+  originalPlaybook = playbookExisted ? readFileSync(playbookPath, "utf-8") : null;
+
+  mkdirSync(playbookDir, { recursive: true });
+  copyFileSync(examplePlaybook, playbookPath);
+
+  // Votes and history go to a temp dir, not the user's databases
+  dataDir = mkdtempSync(join(os.tmpdir(), "slsm-parity-"));
+  originalDataDir = process.env.SLSM_DATA_DIR;
+  process.env.SLSM_DATA_DIR = dataDir;
+});
+
+afterEach(() => {
+  if (playbookExisted && originalPlaybook !== null) {
+    writeFileSync(playbookPath, originalPlaybook, "utf-8");
+  } else {
+    rmSync(playbookPath, { force: true });
+  }
+  if (!dirExisted) {
+    rmSync(playbookDir, { recursive: true, force: true });
+  }
+  if (originalDataDir === undefined) delete process.env.SLSM_DATA_DIR;
+  else process.env.SLSM_DATA_DIR = originalDataDir;
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+async function cliContext(error: string, limit: number) {
+  // contextCommand is a shared instance; clear filters left by other test files
+  contextCommand.setOptionValue("service", undefined);
+  contextCommand.setOptionValue("workspace", undefined);
+  contextCommand.setOptionValue("host", undefined);
+
+  const program = new Command();
+  program.option("--json");
+  program.addCommand(contextCommand);
+
+  const { output } = await captureLogsAsync(() =>
+    program.parseAsync(["node", "slsm", "--json", "context", error, "--limit", String(limit)])
+  );
+  return JSON.parse(output);
+}
+
+test("MCP slsm_context reads the YAML playbook", async () => {
+  const result = await contextTool({ error: "connect ECONNREFUSED 127.0.0.1:5432" });
+  expect(result.matchCount).toBeGreaterThan(0);
+  expect(result.patterns[0].id).toBe("slsm-001");
+});
+
+test("MCP slsm_context leaves out workspace-scoped patterns without a workspace", async () => {
+  const added = addPatternTool({
+    title: "Billing DB refused",
+    pattern: "ECONNREFUSED",
+    category: "database",
+    workspaces: ["/work/billing"],
+  });
+  const id = added.pattern?.id;
+
+  const ids = async (workspace?: string) =>
+    (await contextTool({ error: "connect ECONNREFUSED 127.0.0.1:5432", workspace })).patterns.map(p => p.id);
+  expect(await ids()).not.toContain(id);
+  expect(await ids("/work/search")).not.toContain(id);
+  expect(await ids("/work/billing/src")).toContain(id);
+});
+
+test("CLI context and MCP slsm_context return identical matches", async () => {
+  const queries = [
+    "ECONNREFUSED 127.0.0.1:5432",
+    "Error: getaddrinfo ENOTFOUND api.example.com",
+    "git push failed: Updates were rejected because the tip of your current branch is behind",
+    "something nobody has seen before",
+  ];
+
+  for (const query of queries) {
+    const cli = await cliContext(query, 5);
+    const mcp = await contextTool({ error: query, limit: 5 });
+    expect(mcp.matchCount).toBe(cli.matchCount);
+    expect(mcp.patterns).toEqual(cli.patterns);
+  }
+});
+
+test("MCP writes keep the YAML format and comments", () => {
+  const feedback = feedbackTool({ id: "slsm-003", helpful: true });
+  expect(feedback.success).toBe(true);
+  const log = new FeedbackLog(join(dataDir, "feedback.db"));
+  expect(log.history("slsm-003").map(e => e.source)).toEqual(["mcp"]);
+  log.close();
+
+  const added = addPatternTool({
+    title: "Disk full",
+    pattern: "ENOSPC",
+    category: "filesystem",
+  });
+  expect(added.success).toBe(true);
+
+  const saved = readFileSync(playbookPath, "utf-8");
+  expect(saved.trim().startsWith("{")).toBe(false);
+  expect(saved).toContain("# Example SLSM Playbook");
+  expect(saved).toContain("# Git Errors");
+
+  const playbook = loadPlaybook();
+  expect(playbook.patterns.length).toBe(6);
+  expect(playbook.patterns.find(p => p.id === "slsm-003")?.feedback.helpful).toBe(6);
+  expect(playbook.patterns[5].title).toBe("Disk full");
+});
+
+test("MCP slsm_add_pattern synthesizes a regex from symptoms", () => {
+  const added = addPatternTool({
+    title: "Quota exceeded",
+    category: "filesystem",
+    symptoms: ["disk quota exceeded for user alice", "disk quota exceeded for user bob"],
+    negatives: ["disk quota exceeded for user root"],
+  });
+  expect(added.success).toBe(true);
+  expect(added.pattern?.synthesized).toBe(true);
+  expect(added.pattern?.pattern).toBe("^disk\\s+quota\\s+exceeded\\s+for\\s+user\\s+(?:alice|bob)$");
+
+  const missing = addPatternTool({ title: "Nothing to go on", category: "general" });
+  expect(missing.success).toBe(false);
+});
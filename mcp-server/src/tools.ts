@@ -0,0 +1,285 @@
+/**
+ * SLSM MCP tool handlers
+ *
+ * Each handler returns the JSON payload sent back to the agent. They are
+ * built on the same core modules as the CLI so both see the same playbook.
+ */
+
+import * as os from "os";
+import {
+  loadPlaybook,
+  updatePlaybook,
+  getOwningLayer,
+  withPlaybookLock,
+  ReadOnlyLayerError,
+  findPatternById,
+  createPattern,
+  fingerprintFromTitle,
+  recordFeedback,
+  checkFeedbackTarget,
+  validatePattern,
+  hasValidationErrors,
+  type Fix,
+  type Pattern,
+  type PatternMatch,
+  type ValidationError,
+} from "../../src/core/playbook.js";
+import { resolveLayer } from "../../src/core/layers.js";
+import { rankRootCauses } from "../../src/core/matching.js";
+import { retrievePatterns, toRetrievalSummary, toSimilarSummary } from "../../src/core/retrieval.js";
+import { FeedbackLog, voteBaseline, type VoteBaseline } from "../../src/core/feedback.js";
+import { createEmbeddingProvider } from "../../src/core/embeddings.js";
+import { parseStackTrace, toTraceSummary } from "../../src/core/stacktrace.js";
+import { synthesizeRegex } from "../../src/core/synthesis.js";
+import type { QueryScope } from "../../src/core/scope.js";
+import { withChangeContext } from "../../src/core/history.js";
+
+export interface ContextArgs {
+  error: string;
+  limit?: number;
+  include_harmful?: boolean;
+  service?: string;
+  workspace?: string;
+  host?: string;
+}
+
+export interface SimilarArgs {
+  query: string;
+  limit?: number;
+  include_harmful?: boolean;
+}
+
+export interface AddPatternArgs {
+  title: string;
+  /** Synthesized from `symptoms` (and `negatives`) when omitted, unless `match` has any or all regexes */
+  pattern?: string;
+  match?: PatternMatch;
+  category: string;
+  severity?: Pattern['severity'];
+  symptoms?: string[];
+  negatives?: string[];
+  root_causes?: string[];
+  fixes?: Fix[];
+  services?: string[];
+  workspaces?: string[];
+  hosts?: string[];
+  exception_type?: string;
+  frame?: string;
+  layer?: string;
+}
+
+export interface FeedbackArgs {
+  id: string;
+  helpful: boolean;
+  reason?: string;
+  query?: string;
+  fix?: number;
+  cause?: number;
+}
+
+export async function contextTool({ error, limit, include_harmful, service, workspace, host }: ContextArgs) {
+  const maxResults = limit ?? 5;
+  const playbook = loadPlaybook();
+
+  // The server's cwd says nothing about the agent's, so without a workspace
+  // the agent's is unknown and patterns scoped to one are left out; the
+  // host is shared with the agent
+  const scope: QueryScope = { service, workspace, host: host ?? os.hostname(), excludeUnset: ["workspace"] };
+  const results = await retrievePatterns(playbook, error, maxResults, { includeHarmful: include_harmful, scope });
+  const trace = parseStackTrace(error);
+
+  return {
+    success: true,
+    query: error.substring(0, 100) + (error.length > 100 ? '...' : ''),
+    trace: trace ? toTraceSummary(trace) : null,
+    matchCount: results.length,
+    patterns: results.map(toRetrievalSummary),
+  };
+}
+
+export async function similarTool({ query, limit, include_harmful }: SimilarArgs) {
+  const maxResults = limit ?? 5;
+  const playbook = loadPlaybook();
+
+  const embeddings = createEmbeddingProvider();
+  try {
+    const matches = await retrievePatterns(playbook, query, maxResults, {
+      mode: 'semantic',
+      includeHarmful: include_harmful,
+      embeddings,
+    });
+
+    return {
+      success: true,
+      query,
+      limit: maxResults,
+      embeddings: {
+        provider: embeddings.name,
+        model: embeddings.model,
+        fallback: embeddings.fallbackReason,
+      },
+      matchCount: matches.length,
+      matches: matches.map(toSimilarSummary),
+    };
+  } finally {
+    embeddings.close();
+  }
+}
+
+export function addPatternTool({
+  title, pattern, match, category, severity, symptoms, negatives, root_causes, fixes, services, workspaces, hosts, exception_type, frame, layer,
+}: AddPatternArgs) {
+  let target;
+  try {
+    target = resolveLayer(layer ?? 'user');
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+  if (target.readOnly) {
+    return { success: false, error: new ReadOnlyLayerError(target).message };
+  }
+
+  let regex = pattern;
+  const matchOnly = !regex && ((match?.any?.length ?? 0) > 0 || (match?.all?.length ?? 0) > 0);
+  if (matchOnly) {
+    regex = '';
+  } else if (!regex) {
+    try {
+      regex = synthesizeRegex(symptoms ?? [], negatives ?? []);
+    } catch (err) {
+      return { success: false, error: `No pattern given and none could be synthesized: ${(err as Error).message}` };
+    }
+  }
+
+  // Recorded in the pattern's history as an agent change
+  let errors: ValidationError[] = [];
+  let newPattern: Pattern;
+  try {
+    newPattern = withChangeContext({ source: 'mcp' }, () => updatePlaybook(playbook => {
+      const created = createPattern({
+        fingerprint: fingerprintFromTitle(title),
+        pattern: regex,
+        ...(match ? { match } : {}),
+        severity: severity ?? 'medium',
+        category,
+        title,
+        symptoms: symptoms ?? [],
+        root_causes: root_causes ?? [],
+        fixes: fixes ?? [],
+        ...(services?.length ? { services } : {}),
+        ...(workspaces?.length ? { workspaces } : {}),
+        ...(hosts?.length ? { hosts } : {}),
+        ...(exception_type ? { exception_type } : {}),
+        ...(frame ? { frame } : {}),
+      }, playbook);
+
+      // Unsafe regexes are refused here rather than stalling later lookups;
+      // throwing leaves the playbook unsaved
+      errors = validatePattern(created, playbook.patterns.length);
+      if (hasValidationErrors(errors)) {
+        throw new Error("Pattern failed validation");
+      }
+      playbook.patterns.push(created);
+      return created;
+    }, target));
+  } catch (err) {
+    if (!hasValidationErrors(errors)) {
+      throw err;
+    }
+    return { success: false, error: (err as Error).message, errors };
+  }
+
+  return {
+    success: true,
+    message: "Pattern added successfully",
+    pattern: {
+      id: newPattern.id,
+      title: newPattern.title,
+      fingerprint: newPattern.fingerprint,
+      pattern: newPattern.pattern,
+      match: newPattern.match,
+      synthesized: !pattern && !matchOnly,
+      layer: target.name
+    }
+  };
+}
+
+export function feedbackTool({ id, helpful, reason, query, fix, cause }: FeedbackArgs) {
+  const target = { fix, cause };
+
+  // Votes are applied under the owning playbook's lock so concurrent agents
+  // don't lose any, and logged once saved, before the lock is released
+  let targetError: string | null = null;
+  let pattern: Pattern | undefined;
+  const log = new FeedbackLog();
+  try {
+    const layer = getOwningLayer(id);
+    if (layer.readOnly) {
+      throw new ReadOnlyLayerError(layer);
+    }
+    pattern = withPlaybookLock(() => {
+      let baseline: VoteBaseline | undefined;
+      const voted = updatePlaybook(playbook => {
+        const found = findPatternById(playbook, id);
+        targetError = found ? checkFeedbackTarget(found, target) : null;
+        if (found && !targetError) {
+          baseline = voteBaseline(playbook, found, target);
+          recordFeedback(found, helpful ? 'helpful' : 'harmful', target);
+        }
+        return found;
+      }, layer);
+      if (voted && baseline) {
+        log.record({
+          patternId: voted.id,
+          verdict: helpful ? 'helpful' : 'harmful',
+          reason,
+          query,
+          fix,
+          cause,
+          source: 'mcp',
+        }, baseline);
+      }
+      return voted;
+    }, layer.path);
+  } catch (err) {
+    if (err instanceof ReadOnlyLayerError) {
+      return {
+        success: false,
+        error: `${err.message}; team patterns can't be voted on until copied with "slsm playbook override ${id}"`
+      };
+    }
+    throw err;
+  } finally {
+    log.close();
+  }
+
+  if (!pattern) {
+    return {
+      success: false,
+      error: `Pattern not found: ${id}`
+    };
+  }
+
+  if (targetError) {
+    return {
+      success: false,
+      error: targetError
+    };
+  }
+
+  const total = pattern.feedback.helpful + pattern.feedback.harmful;
+  const ratio = total > 0 ? Math.round((pattern.feedback.helpful / total) * 100) : 0;
+
+  return {
+    success: true,
+    message: "Feedback recorded",
+    pattern: {
+      id: pattern.id,
+      title: pattern.title,
+      feedback: pattern.feedback,
+      helpfulRatio: `${ratio}%`
+    },
+    fix: fix !== undefined ? { index: fix, ...pattern.fixes[fix - 1] } : null,
+    cause: cause !== undefined ? rankRootCauses(pattern).find(c => c.index === cause) ?? null : null
+  };
+}
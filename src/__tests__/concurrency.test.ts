@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import { join, resolve } from "path";
+import YAML from "yaml";
+
+const playbookModule = resolve(import.meta.dir, "..", "core", "playbook.ts");
+
+let homeDir = "";
+
+beforeEach(() => {
+  homeDir = mkdtempSync(join(os.tmpdir(), "slsm-concurrency-"));
+  mkdirSync(join(homeDir, ".sls-memory"), { recursive: true });
+  writeFileSync(
+    join(homeDir, ".sls-memory", "playbook.yaml"),
+    YAML.stringify({
+      version: 3,
+      patterns: [
+        {
+          id: "slsm-001",
+          fingerprint: "conn-refused",
+          pattern: "ECONNREFUSED",
+          severity: "high",
+          category: "database",
+          title: "Postgres connection refused",
+          symptoms: [],
+          root_causes: [],
+          fixes: [],
+          feedback: { helpful: 0, harmful: 0 },
+        },
+      ],
+    }),
+    "utf-8"
+  );
+});
+
+afterEach(() => {
+  rmSync(homeDir, { recursive: true, force: true });
+});
+
+function writeWorker(): string {
+  const workerPath = join(homeDir, "worker.ts");
+  writeFileSync(
+    workerPath,
+    `
+import { findPatternById, getPlaybookPath, loadPlaybookFile, recordFeedback, savePlaybook, updatePlaybook } from ${JSON.stringify(playbookModule)};
+
+const [mode, type, count] = process.argv.slice(2);
+for (let i = 0; i < Number(count); i++) {
+  if (mode === "update") {
+    updatePlaybook(playbook => recordFeedback(findPatternById(playbook, "slsm-001")!, type as "helpful" | "harmful"));
+  } else {
+    // Stale load-modify-save: another writer may save in between
+    const playbook = loadPlaybookFile(getPlaybookPath());
+    recordFeedback(findPatternById(playbook, "slsm-001")!, type as "helpful" | "harmful");
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, Math.random() * 3);
+    savePlaybook(playbook);
+  }
+}
+`,
+    "utf-8"
+  );
+  return workerPath;
+}
+
+test("parallel writers never lose a vote", async () => {
+  const workerPath = writeWorker();
+  const workers = [
+    ["update", "helpful"],
+    ["update", "harmful"],
+    ["stale", "helpful"],
+    ["stale", "harmful"],
+    ["update", "helpful"],
+    ["stale", "helpful"],
+  ];
+  const votesPerWorker = 15;
+
+  const procs = workers.map(([mode, type]) =>
+    Bun.spawn([process.execPath, workerPath, mode, type, String(votesPerWorker)], {
+      env: { ...process.env, HOME: homeDir },
+      cwd: homeDir,
+      stdout: "ignore",
+      stderr: "pipe",
+    })
+  );
+  const exitCodes = await Promise.all(procs.map(p => p.exited));
+  expect(exitCodes.every(code => code === 0)).toBe(true);
+
+  const saved = YAML.parse(readFileSync(join(homeDir, ".sls-memory", "playbook.yaml"), "utf-8"));
+  expect(saved.patterns[0].feedback).toEqual({
+    helpful: 4 * votesPerWorker,
+    harmful: 2 * votesPerWorker,
+  });
+
+  // No lock or temp files are left behind
+  expect(readdirSync(join(homeDir, ".sls-memory"))).toEqual(["playbook.yaml"]);
+}, 60_000);
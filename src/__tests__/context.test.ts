@@ -4,7 +4,7 @@ import * as os from "os";
 import { join } from "path";
 import { Command } from "commander";
 import { contextCommand } from "../cli/context.js";
-import { savePlaybook, type Playbook } from "../core/playbook.js";
+import { createPattern, savePlaybook, type Playbook } from "../core/playbook.js";
 
 let playbookPath = "";
 let playbookDir = "";
@@ -87,3 +87,34 @@ test("context command returns JSON matches with service filter", async () => {
   expect(parsed.matchCount).toBe(1);
   expect(parsed.patterns[0].category).toContain("database");
 });
+
+test("context command skips patterns scoped to another workspace", async () => {
+  savePlaybook({
+    patterns: [
+      createPattern({
+        id: "slsm-020",
+        pattern: "ECONNREFUSED",
+        title: "Billing DB refused",
+        workspaces: ["/work/billing"],
+      }),
+    ],
+  });
+
+  const program = new Command();
+  program.option("--json");
+  program.addCommand(contextCommand);
+
+  const run = async (workspace: string) => {
+    const { output } = await captureLogsAsync(() =>
+      program.parseAsync(["node", "slsm", "--json", "context", "ECONNREFUSED", "--workspace", workspace])
+    );
+    return JSON.parse(output);
+  };
+
+  const inside = await run("/work/billing/api");
+  expect(inside.matchCount).toBe(1);
+  expect(inside.patterns[0].matchedScope).toEqual(["workspace"]);
+
+  const elsewhere = await run("/work/search");
+  expect(elsewhere.matchCount).toBe(0);
+});
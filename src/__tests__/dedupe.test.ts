@@ -0,0 +1,100 @@
+import { expect, test } from "bun:test";
+import { findDuplicates, mergeIntoPattern, mergePatterns } from "../core/dedupe.js";
+import { EmbeddingsManager } from "../core/embeddings.js";
+import { createPattern, findPatternById, type Playbook } from "../core/playbook.js";
+
+function playbook(): Playbook {
+  return {
+    patterns: [
+      createPattern({
+        id: "slsm-001",
+        fingerprint: "pg-refused",
+        pattern: "ECONNREFUSED.*:5432",
+        title: "Postgres connection refused",
+        symptoms: ["connect ECONNREFUSED 127.0.0.1:5432"],
+        root_causes: [{ cause: "Postgres down", feedback: { helpful: 2, harmful: 0 } }],
+        fixes: [{ step: "Start Postgres", feedback: { helpful: 3, harmful: 1 } }],
+        feedback: { helpful: 5, harmful: 1 },
+      }),
+      createPattern({
+        id: "slsm-002",
+        fingerprint: "postgres-down",
+        pattern: "connect ECONNREFUSED",
+        title: "Database unreachable",
+        symptoms: ["connect ECONNREFUSED 10.0.0.3:5432"],
+        root_causes: [{ cause: "Postgres down", feedback: { helpful: 1, harmful: 1 } }, "Firewall"],
+        fixes: [{ step: "Start Postgres", command: "pg_ctl start", feedback: { helpful: 1, harmful: 0 } }, { step: "Open port 5432" }],
+        services: ["billing"],
+        feedback: { helpful: 7, harmful: 0 },
+      }),
+      createPattern({ id: "slsm-003", fingerprint: "pg-refused", pattern: "Connection refused", title: "Refused" }),
+      createPattern({ id: "slsm-004", fingerprint: "dns", pattern: "ENOTFOUND", title: "DNS failure", symptoms: ["getaddrinfo ENOTFOUND db"] }),
+    ],
+  };
+}
+
+test("findDuplicates groups patterns by fingerprint and mutually matching regexes", async () => {
+  const groups = await findDuplicates(playbook().patterns, { similarity: false });
+
+  expect(groups).toHaveLength(1);
+  // The most helpful pattern is suggested as the one to keep
+  expect(groups[0].ids).toEqual(["slsm-002", "slsm-001", "slsm-003"]);
+  expect(groups[0].evidence.map(e => [e.signal, ...e.ids])).toEqual([
+    ["regex", "slsm-001", "slsm-002"],
+    ["fingerprint", "slsm-001", "slsm-003"],
+  ]);
+});
+
+test("findDuplicates reports embedding similarity and skips replaced patterns", async () => {
+  const patterns = playbook().patterns.slice(0, 2);
+  patterns[1] = { ...patterns[0], id: "slsm-002", fingerprint: "other", pattern: "no match here" };
+  const embeddings = new EmbeddingsManager(":memory:");
+
+  const [group] = await findDuplicates(patterns, { embeddings });
+  expect(group.evidence).toEqual([{ signal: "similarity", ids: ["slsm-001", "slsm-002"], detail: "Similarity 100%", score: 1 }]);
+
+  patterns[1].superseded_by = "slsm-001";
+  expect(await findDuplicates(patterns, { embeddings })).toEqual([]);
+  embeddings.close();
+});
+
+test("mergeIntoPattern unions content, sums feedback and aliases dropped ids", () => {
+  const book = playbook();
+  book.aliases = { "slsm-010": "slsm-002" };
+  book.patterns[3].superseded_by = "slsm-002";
+
+  const merged = mergeIntoPattern(book, "slsm-001", ["slsm-002"]);
+
+  expect(merged.symptoms).toEqual(["connect ECONNREFUSED 127.0.0.1:5432", "connect ECONNREFUSED 10.0.0.3:5432"]);
+  expect(merged.root_causes).toEqual([{ cause: "Postgres down", feedback: { helpful: 3, harmful: 1 } }, "Firewall"]);
+  expect(merged.fixes).toEqual([
+    { step: "Start Postgres", command: "pg_ctl start", feedback: { helpful: 4, harmful: 1 } },
+    { step: "Open port 5432" },
+  ]);
+  expect(merged.feedback).toEqual({ helpful: 12, harmful: 1 });
+  // slsm-001 had no scope, so the merged pattern still matches every service
+  expect(merged.services).toBeUndefined();
+  // Its regex already covers the dropped symptoms
+  expect(merged.pattern).toBe("ECONNREFUSED.*:5432");
+
+  expect(book.patterns.map(p => p.id)).toEqual(["slsm-001", "slsm-003", "slsm-004"]);
+  expect(book.aliases).toEqual({ "slsm-010": "slsm-001", "slsm-002": "slsm-001" });
+  expect(findPatternById(book, "slsm-002")).toBe(merged);
+  expect(book.patterns[2].superseded_by).toBe("slsm-001");
+});
+
+test("mergePatterns adds a duplicate's regexes to match.any when either uses match", () => {
+  const keep = createPattern({ id: "slsm-001", pattern: "", match: { any: ["ECONNREFUSED.*:5432"], none: ["pgbouncer"] } });
+  const duplicate = createPattern({
+    id: "slsm-002",
+    pattern: "Connection refused.*5432",
+    match: { any: [{ regex: "ECONNREFUSED.*:5432" }, "could not connect to server"] },
+    symptoms: ["psql: Connection refused on port 5432"],
+  });
+
+  expect(mergePatterns(keep, [duplicate]).match).toEqual({
+    any: ["ECONNREFUSED.*:5432", "Connection refused.*5432", "could not connect to server"],
+    none: ["pgbouncer"],
+  });
+  expect(keep.match?.any).toHaveLength(1);
+});
@@ -0,0 +1,19 @@
+import { expect, test } from "bun:test";
+import { unifiedDiff } from "../core/diff.js";
+
+test("unifiedDiff shows changed lines with context", () => {
+  const before = ["a", "b", "c", "d", "e", "f", "g"].join("\n");
+  const after = ["a", "b", "C", "d", "e", "f", "g", "h"].join("\n");
+
+  expect(unifiedDiff(before, after, 1)).toBe([
+    "@@ -2,3 +2,3 @@",
+    " b",
+    "-c",
+    "+C",
+    " d",
+    "@@ -7,1 +7,2 @@",
+    " g",
+    "+h",
+  ].join("\n"));
+  expect(unifiedDiff(before, before)).toBe("");
+});
@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import { join, resolve } from "path";
+import {
+  EmbeddingsManager,
+  OpenAIEmbeddingProvider,
+  createEmbeddingProvider,
+  initEmbeddingsDb,
+  semanticScores,
+} from "../core/embeddings.js";
+import { createPattern, type Pattern } from "../core/playbook.js";
+
+let tempDir = "";
+let dbPath = "";
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(os.tmpdir(), "slsm-embeddings-"));
+  dbPath = join(tempDir, "embeddings.db");
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+function patterns(): Pattern[] {
+  return [
+    createPattern({ id: "slsm-001", title: "Postgres connection refused", category: "database", symptoms: ["connect ECONNREFUSED 127.0.0.1:5432"] }),
+    createPattern({ id: "slsm-002", title: "Redis connection timeout", category: "cache" }),
+    createPattern({ id: "slsm-003", title: "Disk full", category: "filesystem", fixes: [{ step: "Prune old docker images" }] }),
+  ];
+}
+
+function docCount(term: string): number | null {
+  const db = new Database(dbPath);
+  try {
+    const row = db.prepare("SELECT doc_count FROM terms WHERE term = ?").get(term) as { doc_count: number } | null;
+    return row?.doc_count ?? null;
+  } finally {
+    db.close();
+  }
+}
+
+test("sync only indexes added and changed patterns", async () => {
+  const manager = new EmbeddingsManager(dbPath);
+  const playbook = patterns();
+
+  expect(await manager.sync(playbook)).toEqual({ added: 3, removed: 0, total: 3 });
+  expect(await manager.sync(playbook)).toEqual({ added: 0, removed: 0, total: 3 });
+
+  playbook[1].title = "Redis connection reset";
+  expect(await manager.sync(playbook)).toEqual({ added: 1, removed: 0, total: 3 });
+  expect((await manager.findSimilar("redis reset"))[0].patternId).toBe("slsm-002");
+
+  manager.close();
+});
+
+test("sync prunes deleted patterns and keeps real document frequencies", async () => {
+  const manager = new EmbeddingsManager(dbPath);
+  const playbook = patterns();
+  await manager.sync(playbook);
+
+  expect(docCount("connection")).toBe(2);
+  expect(docCount("redis")).toBe(1);
+
+  expect(await manager.sync(playbook.filter(p => p.id !== "slsm-002"))).toEqual({ added: 0, removed: 1, total: 2 });
+  expect(docCount("connection")).toBe(1);
+  expect(docCount("redis")).toBeNull();
+  expect(await manager.findSimilar("redis timeout")).toEqual([]);
+
+  manager.close();
+});
+
+test("findSimilar ranks the closest pattern first", async () => {
+  const manager = new EmbeddingsManager(dbPath);
+  await manager.sync(patterns());
+
+  const results = await manager.findSimilar("postgres refused on 5432");
+  expect(results[0].patternId).toBe("slsm-001");
+  expect(results[0].score).toBeLessThanOrEqual(1);
+  expect(results.map(r => r.patternId)).not.toContain("slsm-003");
+
+  manager.close();
+});
+
+test("an index from the full-rebuild format is replaced", async () => {
+  const db = new Database(dbPath);
+  db.run("CREATE TABLE embeddings (pattern_id TEXT PRIMARY KEY, vector TEXT NOT NULL, updated_at INTEGER NOT NULL)");
+  db.run("CREATE TABLE vocabulary (term TEXT PRIMARY KEY, idf REAL NOT NULL, doc_count INTEGER NOT NULL)");
+  db.run("INSERT INTO embeddings VALUES ('slsm-999', '{}', 0)");
+  db.close();
+
+  initEmbeddingsDb(dbPath).close();
+
+  const manager = new EmbeddingsManager(dbPath);
+  expect(await manager.sync(patterns())).toEqual({ added: 3, removed: 0, total: 3 });
+  manager.close();
+});
+
+test("semanticScores maps scores back to patterns", async () => {
+  const manager = new EmbeddingsManager(dbPath);
+  const playbook = patterns();
+
+  const scores = await semanticScores(playbook, "docker images", manager);
+  expect([...scores.keys()]).toEqual([playbook[2]]);
+
+  manager.close();
+});
+
+/**
+ * An OpenAI-compatible embeddings endpoint: each word bumps one of 32
+ * dimensions, so texts sharing words point the same way
+ */
+function startStubServer() {
+  const requests: Array<{ model: string; input: string[] }> = [];
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = await req.json() as { model: string; input: string[] };
+      requests.push(body);
+      const data = body.input.map((text, index) => {
+        const embedding = new Array(32).fill(0);
+        for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+          let hash = 0;
+          for (const ch of word) {
+            hash = (hash * 31 + ch.charCodeAt(0)) % 32;
+          }
+          embedding[hash] += 1;
+        }
+        return { object: "embedding", index, embedding };
+      });
+      return Response.json({ object: "list", data, model: body.model });
+    },
+  });
+  return { server, requests, url: `http://localhost:${server.port}/v1` };
+}
+
+test("the openai provider embeds each pattern once per model", async () => {
+  const stub = startStubServer();
+  try {
+    const provider = new OpenAIEmbeddingProvider({ url: stub.url, model: "stub-a", dbPath });
+    expect(await provider.sync(patterns())).toEqual({ added: 3, removed: 0, total: 3 });
+    expect(await provider.sync(patterns())).toEqual({ added: 0, removed: 0, total: 3 });
+
+    const [best] = await provider.findSimilar("Redis connection timeout");
+    expect(best.patternId).toBe("slsm-002");
+    expect(provider.fallbackReason).toBeNull();
+    provider.close();
+
+    const other = new OpenAIEmbeddingProvider({ url: stub.url, model: "stub-b", dbPath });
+    expect(await other.sync(patterns())).toEqual({ added: 3, removed: 0, total: 3 });
+    other.close();
+
+    const embedded = stub.requests.filter(r => r.input.length === 3).map(r => r.model);
+    expect(embedded).toEqual(["stub-a", "stub-b"]);
+  } finally {
+    stub.server.stop(true);
+  }
+});
+
+test("the openai provider falls back to TF-IDF when the endpoint is down", async () => {
+  const stub = startStubServer();
+  const url = stub.url;
+  stub.server.stop(true);
+
+  const provider = new OpenAIEmbeddingProvider({ url, model: "stub-a", dbPath, timeoutMs: 1000 });
+  expect(await provider.sync(patterns())).toEqual({ added: 3, removed: 0, total: 3 });
+  expect(provider.fallbackReason).toContain("unreachable");
+
+  const [best] = await provider.findSimilar("docker images");
+  expect(best.patternId).toBe("slsm-003");
+  provider.close();
+});
+
+test("createEmbeddingProvider defaults to TF-IDF", () => {
+  const provider = createEmbeddingProvider({}, dbPath);
+  expect(provider.name).toBe("tfidf");
+  provider.close();
+
+  expect(() => createEmbeddingProvider({ provider: "openai" }, dbPath)).toThrow("needs a url and a model");
+});
+
+test("processes syncing the same changes at once index each pattern once", async () => {
+  const workerPath = join(tempDir, "worker.ts");
+  writeFileSync(
+    workerPath,
+    `
+import { EmbeddingsManager } from ${JSON.stringify(resolve(import.meta.dir, "..", "core", "embeddings.ts"))};
+import { createPattern } from ${JSON.stringify(resolve(import.meta.dir, "..", "core", "playbook.ts"))};
+
+const patterns = Array.from({ length: 3000 }, (_, i) =>
+  createPattern({ id: \`slsm-\${i}\`, title: \`service\${i % 40} connection refused \${i}\`, category: "network" })
+);
+const manager = new EmbeddingsManager(${JSON.stringify(dbPath)});
+await manager.sync(patterns);
+manager.close();
+`,
+    "utf-8"
+  );
+
+  const procs = [0, 1].map(() =>
+    Bun.spawn([process.execPath, workerPath], { stdout: "ignore", stderr: "pipe" })
+  );
+  const exitCodes = await Promise.all(procs.map(p => p.exited));
+  const errors = await Promise.all(procs.map(p => new Response(p.stderr).text()));
+  expect(errors).toEqual(["", ""]);
+  expect(exitCodes).toEqual([0, 0]);
+
+  // Term counts match a single sync's
+  expect(docCount("refused")).toBe(3000);
+  expect(docCount("service7")).toBe(75);
+}, 60_000);
+
+test("queries on a 20k-pattern playbook take under 50ms", async () => {
+  const services = ["api", "billing", "search", "auth", "worker", "gateway", "scheduler", "ingest"];
+  const failures = ["timeout", "refused", "reset", "denied", "exhausted", "corrupt", "missing", "overflow"];
+  const resources = ["postgres", "redis", "kafka", "s3", "dns", "tls", "disk", "memory", "socket", "lock"];
+
+  const playbook: Pattern[] = [];
+  for (let i = 0; i < 20000; i++) {
+    const service = services[i % services.length];
+    const failure = failures[Math.floor(i / services.length) % failures.length];
+    const resource = resources[i % resources.length];
+    playbook.push(createPattern({
+      id: `slsm-${i}`,
+      title: `${service} ${resource} ${failure} ${i}`,
+      category: resource,
+      symptoms: [`${resource} ${failure} in ${service} shard${i % 97}`],
+      root_causes: [`${resource} ${failure} under load`],
+      fixes: [{ step: `Restart ${service} and check ${resource} node${i % 31}` }],
+    }));
+  }
+
+  const manager = new EmbeddingsManager(dbPath);
+  await manager.sync(playbook);
+
+  // SLSM_SLOW_CI=1 allows more on runners too slow for the real target
+  const budget = process.env.SLSM_SLOW_CI ? 250 : 50;
+
+  const queries = [
+    "billing postgres timeout in shard12",
+    "redis connection refused",
+    "kafka exhausted under load restart ingest",
+    "tls handshake denied at gateway",
+  ];
+  for (const query of queries) {
+    // Median of several runs, so one GC pause doesn't fail the test
+    const timings: number[] = [];
+    for (let run = 0; run < 5; run++) {
+      const started = performance.now();
+      const results = await manager.findSimilar(query, 10);
+      timings.push(performance.now() - started);
+      expect(results.length).toBeGreaterThan(0);
+    }
+    expect(timings.sort((a, b) => a - b)[2]).toBeLessThan(budget);
+  }
+
+  // An unchanged playbook costs a hash check, not a rebuild
+  expect((await manager.sync(playbook)).added).toBe(0);
+
+  manager.close();
+}, 120_000);
@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, expect, spyOn, test } from "bun:test";
+import * as fs from "fs";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+import { Command } from "commander";
+import { markCommand } from "../cli/mark.js";
+import { mergeIntoPattern } from "../core/dedupe.js";
+import { FeedbackLog, rebuildFeedbackCounters, voteBaseline } from "../core/feedback.js";
+import {
+  createPattern,
+  findPatternById,
+  getPlaybookPath,
+  loadPlaybook,
+  recordFeedback,
+  renumberPlaybook,
+  savePlaybook,
+  type FeedbackTarget,
+  type Playbook,
+} from "../core/playbook.js";
+
+let tmpDir = "";
+let originalDataDir: string | undefined;
+let originalPlaybook: string | null = null;
+
+async function captureLogsAsync<T>(fn: () => Promise<T>): Promise<{ output: string; result: T }> {
+  const logs: string[] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map(String).join(" "));
+  };
+
+  try {
+    const result = await fn();
+    return { output: logs.join("\n"), result };
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+beforeEach(() => {
+  // The log goes to a temp dir; only the user playbook is shared
+  tmpDir = mkdtempSync(join(os.tmpdir(), "slsm-feedback-"));
+  originalDataDir = process.env.SLSM_DATA_DIR;
+  process.env.SLSM_DATA_DIR = tmpDir;
+  originalPlaybook = existsSync(getPlaybookPath()) ? readFileSync(getPlaybookPath(), "utf-8") : null;
+});
+
+afterEach(() => {
+  if (originalDataDir === undefined) delete process.env.SLSM_DATA_DIR;
+  else process.env.SLSM_DATA_DIR = originalDataDir;
+  if (originalPlaybook !== null) {
+    writeFileSync(getPlaybookPath(), originalPlaybook, "utf-8");
+  } else {
+    rmSync(getPlaybookPath(), { force: true });
+  }
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test("FeedbackLog stores events and returns history newest first", () => {
+  const log = new FeedbackLog(join(tmpDir, "feedback.db"));
+  log.record({ patternId: "slsm-001", verdict: "helpful", source: "cli", timestamp: 100 });
+  log.record({
+    patternId: "slsm-001",
+    verdict: "harmful",
+    reason: "restarting postgres hid a disk-full error",
+    query: "ECONNREFUSED 127.0.0.1:5432",
+    source: "mcp",
+    timestamp: 200,
+  });
+  log.record({ patternId: "slsm-002", verdict: "helpful", source: "cli", timestamp: 300 });
+
+  const history = log.history("slsm-001");
+  expect(history.map(e => e.verdict)).toEqual(["harmful", "helpful"]);
+  expect(history[0].reason).toBe("restarting postgres hid a disk-full error");
+  expect(history[0].query).toBe("ECONNREFUSED 127.0.0.1:5432");
+  expect(history[0].source).toBe("mcp");
+
+  expect(log.recent(2).map(e => e.patternId)).toEqual(["slsm-002", "slsm-001"]);
+  expect(log.counts().get("slsm-001")).toEqual({ helpful: 1, harmful: 1 });
+  log.close();
+});
+
+/** Apply and log a vote the way `slsm mark` does */
+function vote(log: FeedbackLog, playbook: Playbook, id: string, verdict: "helpful" | "harmful", target: FeedbackTarget = {}) {
+  const pattern = findPatternById(playbook, id)!;
+  const baseline = voteBaseline(playbook, pattern, target);
+  recordFeedback(pattern, verdict, target);
+  log.record({ patternId: pattern.id, verdict, source: "cli", ...target }, baseline);
+}
+
+test("rebuildFeedbackCounters keeps counts from before the log", () => {
+  const log = new FeedbackLog(join(tmpDir, "feedback.db"));
+  const playbook: Playbook = {
+    patterns: [
+      createPattern({ id: "slsm-001", feedback: { helpful: 9, harmful: 0 } }),
+      createPattern({ id: "slsm-002", feedback: { helpful: 4, harmful: 1 } }),
+      createPattern({ id: "slsm-003", feedback: { helpful: 7, harmful: 0 } }),
+    ],
+  };
+  vote(log, playbook, "slsm-001", "harmful");
+  // Logged before baselines were kept
+  log.record({ patternId: "slsm-003", verdict: "helpful", source: "cli" });
+
+  // A vote lost from the playbook is restored on top of the earlier nine
+  playbook.patterns[0].feedback = { helpful: 9, harmful: 0 };
+  const result = rebuildFeedbackCounters(playbook, log.totals());
+  expect(result.changes.map(c => c.patternId)).toEqual(["slsm-001"]);
+  expect(playbook.patterns[0].feedback).toEqual({ helpful: 9, harmful: 1 });
+  expect(playbook.patterns[1].feedback).toEqual({ helpful: 4, harmful: 1 });
+  expect(result.uncovered).toEqual([{ patternId: "slsm-003" }]);
+  expect(playbook.patterns[2].feedback).toEqual({ helpful: 7, harmful: 0 });
+
+  rebuildFeedbackCounters(playbook, log.totals(), { all: true });
+  expect(playbook.patterns[0].feedback).toEqual({ helpful: 9, harmful: 1 });
+  expect(playbook.patterns[1].feedback).toEqual({ helpful: 0, harmful: 0 });
+  expect(playbook.patterns[2].feedback).toEqual({ helpful: 1, harmful: 0 });
+  log.close();
+});
+
+test("rebuildFeedbackCounters follows renumbers and merges, fixes and causes included", () => {
+  const log = new FeedbackLog(join(tmpDir, "feedback.db"));
+  const playbook: Playbook = {
+    patterns: [
+      createPattern({
+        id: "db-refused",
+        feedback: { helpful: 5, harmful: 0 },
+        root_causes: ["postgres down"],
+        fixes: [{ step: "Start postgres" }],
+      }),
+      createPattern({
+        id: "slsm-002",
+        feedback: { helpful: 2, harmful: 1 },
+        fixes: [{ step: "Check the port" }, { step: "Start postgres", feedback: { helpful: 1, harmful: 0 } }],
+      }),
+    ],
+  };
+
+  vote(log, playbook, "db-refused", "helpful", { fix: 1 });
+  expect(renumberPlaybook(playbook, { all: true })).toEqual([{ index: 0, from: "db-refused", to: "slsm-003" }]);
+  vote(log, playbook, "slsm-003", "harmful", { cause: 1 });
+  vote(log, playbook, "slsm-002", "helpful", { fix: 1 });
+  mergeIntoPattern(playbook, "slsm-003", ["slsm-002"]);
+  vote(log, playbook, "slsm-002", "helpful", { fix: 1 });
+
+  const merged = playbook.patterns[0];
+  expect(merged.feedback).toEqual({ helpful: 10, harmful: 2 });
+  expect(merged.fixes.map(f => f.feedback)).toEqual([{ helpful: 3, harmful: 0 }, { helpful: 1, harmful: 0 }]);
+  const expected = structuredClone(merged);
+
+  merged.feedback = { helpful: 0, harmful: 0 };
+  merged.fixes.forEach(fix => delete fix.feedback);
+  merged.root_causes = ["postgres down"];
+
+  // Counters votes have reached since the merge are rebuilt; the others
+  // could have counts from the merged pattern the log never saw
+  const result = rebuildFeedbackCounters(playbook, log.totals());
+  expect(merged.feedback).toEqual(expected.feedback);
+  expect(merged.fixes[0].feedback).toEqual(expected.fixes[0].feedback);
+  expect(result.uncovered).toEqual([{ patternId: "slsm-003", fix: 2 }, { patternId: "slsm-003", cause: 1 }]);
+
+  rebuildFeedbackCounters(playbook, log.totals(), { all: true });
+  expect(merged).toEqual(expected);
+  log.close();
+});
+
+test("mark stores the vote with its reason and query", async () => {
+  savePlaybook({ patterns: [createPattern({ id: "slsm-001", title: "Postgres connection refused" })] });
+
+  const program = new Command();
+  program.option("--json");
+  program.addCommand(markCommand);
+
+  const { output } = await captureLogsAsync(() =>
+    program.parseAsync([
+      "node", "slsm", "--json", "mark", "slsm-001", "harmful",
+      "--reason", "port was 6432 behind pgbouncer",
+      "--query", "ECONNREFUSED 127.0.0.1:6432",
+    ])
+  );
+
+  const parsed = JSON.parse(output);
+  expect(parsed.success).toBe(true);
+  expect(loadPlaybook().patterns[0].feedback.harmful).toBe(1);
+
+  const log = new FeedbackLog();
+  const [event] = log.history("slsm-001");
+  log.close();
+  expect(event.id).toBe(parsed.eventId);
+  expect(event.reason).toBe("port was 6432 behind pgbouncer");
+  expect(event.query).toBe("ECONNREFUSED 127.0.0.1:6432");
+  expect(event.source).toBe("cli");
+});
+
+test("mark doesn't log a vote the playbook failed to save", async () => {
+  savePlaybook({ patterns: [createPattern({ id: "slsm-001", title: "Postgres connection refused" })] });
+
+  const program = new Command();
+  program.option("--json");
+  program.addCommand(markCommand);
+
+  const rename = spyOn(fs, "renameSync").mockImplementation(() => {
+    throw new Error("ENOSPC: no space left on device");
+  });
+  try {
+    await expect(program.parseAsync(["node", "slsm", "--json", "mark", "slsm-001", "helpful"])).rejects.toThrow("ENOSPC");
+  } finally {
+    rename.mockRestore();
+  }
+
+  const log = new FeedbackLog();
+  expect(log.history("slsm-001")).toEqual([]);
+  log.close();
+  expect(loadPlaybook().patterns[0].feedback.helpful).toBe(0);
+});
@@ -0,0 +1,148 @@
+import { expect, test } from "bun:test";
+import { exportPatterns, formatForPath, parsePatterns, PLAYBOOK_FORMATS } from "../core/formats.js";
+import { createPattern, importPatterns, type Pattern, type Playbook } from "../core/playbook.js";
+
+const patterns: Pattern[] = [
+  createPattern({
+    id: "slsm-001",
+    fingerprint: "conn-refused",
+    pattern: "connect ECONNREFUSED .*:5432",
+    severity: "high",
+    category: "database",
+    title: "Postgres connection refused",
+    symptoms: ["connect ECONNREFUSED 127.0.0.1:5432"],
+    root_causes: ["Postgres down", "pg_hba.conf rejects host"],
+    fixes: [{ step: "Start Postgres", command: "sudo systemctl start postgresql" }, { step: "Check pg_hba.conf" }],
+    services: ["billing-{api,worker}"],
+    feedback: { helpful: 4, harmful: 1 },
+  }),
+  createPattern({
+    id: "slsm-002",
+    fingerprint: "undefined-property",
+    pattern: "Cannot read properties of undefined \\(reading '`\\w+`'\\)",
+    category: "runtime",
+    title: "Undefined property access",
+    exception_type: "TypeError",
+    frame: "users\\.js",
+    match: { all: ["at \\S+ \\(", { regex: "^TypeError", case_sensitive: true, multiline: true }], none: ["`optional`, chaining"] },
+    status: "deprecated",
+    superseded_by: "slsm-001",
+  }),
+];
+
+const canonical = (value: unknown) =>
+  JSON.stringify(value, (_key, v) => (v && typeof v === "object" && !Array.isArray(v) ? Object.fromEntries(Object.entries(v).sort()) : v));
+
+test("every format parses back what it exported", () => {
+  for (const format of PLAYBOOK_FORMATS) {
+    const parsed = parsePatterns(exportPatterns(patterns, format), format, `export.${format}`);
+    expect(canonical(parsed)).toBe(canonical(patterns));
+  }
+});
+
+test("markdown runbooks keep multi-line text, commands and per-fix votes", () => {
+  const pattern = createPattern({
+    id: "slsm-003",
+    fingerprint: "disk-full",
+    pattern: "ENOSPC",
+    title: "Disk full",
+    symptoms: ["Traceback:\n  OSError: [Errno 28] No space left on device"],
+    root_causes: [{ cause: "Log rotation disabled", feedback: { helpful: 2, harmful: 0 } }],
+    fixes: [{ step: "Free space", command: "du -sh /var/log/* | sort -h\n\njournalctl --vacuum-size=200M", feedback: { helpful: 1, harmful: 0 } }],
+  });
+
+  const markdown = exportPatterns([pattern], "markdown");
+  expect(markdown).toContain("## Disk full");
+  expect(markdown).toContain("   ```sh\n   du -sh /var/log/* | sort -h\n\n   journalctl --vacuum-size=200M\n   ```");
+  expect(canonical(parsePatterns(markdown, "markdown", "runbook.md"))).toBe(canonical([pattern]));
+});
+
+test("hand-written markdown runbooks fill in defaults and skip notes", () => {
+  const [parsed] = parsePatterns([
+    "# Wiki runbook",
+    "",
+    "Intro text for readers.",
+    "",
+    "## Redis out of memory",
+    "",
+    "- **Pattern:** `OOM command not allowed`",
+    "",
+    "Seen during the nightly import.",
+    "",
+    "### Fixes",
+    "",
+    "1. Raise maxmemory",
+    "",
+    "   ```sh",
+    "   redis-cli config set maxmemory 2gb",
+    "   ```",
+    "",
+    "### Notes",
+    "",
+    "- Not a fix",
+  ].join("\n"), "markdown", "wiki.md") as Pattern[];
+
+  expect(parsed).toMatchObject({
+    id: "",
+    title: "Redis out of memory",
+    fingerprint: "redis-out-of-memory",
+    pattern: "OOM command not allowed",
+    severity: "medium",
+    fixes: [{ step: "Raise maxmemory", command: "redis-cli config set maxmemory 2gb" }],
+  });
+});
+
+test("csv cells may be quoted and columns reordered", () => {
+  const csv = 'title,pattern,fixes,fix_commands\n"Disk full, again",ENOSPC,"Free space\nRotate logs","df -h\n"\n';
+  const [parsed] = parsePatterns(csv, "csv", "sheet.csv") as Pattern[];
+  expect(parsed).toMatchObject({
+    title: "Disk full, again",
+    fingerprint: "disk-full-again",
+    pattern: "ENOSPC",
+    fixes: [{ step: "Free space", command: "df -h" }, { step: "Rotate logs" }],
+  });
+  expect(() => parsePatterns('title\n"open', "csv", "bad.csv")).toThrow("bad.csv:2:1: unterminated quoted cell");
+  expect(formatForPath("runbook.MD")).toBe("markdown");
+});
+
+test("csv keeps list items with line breaks", () => {
+  const pattern = createPattern({
+    id: "slsm-003",
+    fingerprint: "build-failed",
+    pattern: "make: \\*\\*\\*",
+    title: "Build failed",
+    symptoms: ["a\nb"],
+    root_causes: ["[stale] object files"],
+    fixes: [{ step: "one", command: "cd /x\nmake" }, { step: "two", command: "ls" }],
+  });
+
+  const csv = exportPatterns([pattern], "csv");
+  expect(csv).toContain('"[""cd /x\\nmake"",""ls""]"');
+  expect(canonical(parsePatterns(csv, "csv", "sheet.csv"))).toBe(canonical([pattern]));
+
+  // A hand-written cell that starts with "[" but isn't JSON is still one item per line
+  const [parsed] = parsePatterns('title,symptoms\nBuild failed,"[WARN] stale\nmake: ***"\n', "csv", "sheet.csv") as Pattern[];
+  expect(parsed.symptoms).toEqual(["[WARN] stale", "make: ***"]);
+});
+
+test("importPatterns updates matching patterns and remaps colliding ids", () => {
+  const playbook: Playbook = {
+    patterns: [
+      createPattern({ id: "slsm-001", fingerprint: "conn-refused", title: "Old title", feedback: { helpful: 9, harmful: 0 } }),
+      createPattern({ id: "slsm-002", fingerprint: "other", title: "Unrelated" }),
+    ],
+  };
+
+  const result = importPatterns(playbook, patterns);
+  expect(result.updated).toEqual(["slsm-001"]);
+  expect(result.remapped).toEqual([{ index: 1, from: "slsm-002", to: "slsm-003" }]);
+  expect(playbook.patterns.map(p => p.id)).toEqual(["slsm-001", "slsm-002", "slsm-003"]);
+  // Local votes win over the file's
+  expect(playbook.patterns[0]).toMatchObject({ title: "Postgres connection refused", feedback: { helpful: 9, harmful: 0 } });
+  expect(playbook.patterns[2].superseded_by).toBe("slsm-001");
+
+  const replaced = importPatterns(playbook, [{ ...patterns[1], id: "slsm-003", superseded_by: undefined }], { replace: true });
+  expect(replaced).toMatchObject({ updated: ["slsm-003"], removed: ["slsm-001", "slsm-002"] });
+  expect(playbook.patterns.map(p => p.id)).toEqual(["slsm-003"]);
+  expect(playbook.next_id).toBe(4);
+});
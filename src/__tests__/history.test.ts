@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+import {
+  ChangeLog,
+  diffPatterns,
+  getChangeContext,
+  recordPlaybookChanges,
+  restoreSnapshot,
+  withChangeContext,
+} from "../core/history.js";
+import { createPattern } from "../core/playbook.js";
+
+let tmpDir = "";
+let dbPath = "";
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(os.tmpdir(), "slsm-history-"));
+  dbPath = join(tmpDir, "history.db");
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test("diffPatterns reports changed fields and ignores feedback counters", () => {
+  const before = createPattern({ id: "slsm-001", title: "Old", fixes: [{ step: "Restart" }], root_causes: ["Down"] });
+  const voted = createPattern({
+    ...before,
+    feedback: { helpful: 3, harmful: 0 },
+    fixes: [{ step: "Restart", feedback: { helpful: 2, harmful: 0 } }],
+    root_causes: [{ cause: "Down", feedback: { helpful: 1, harmful: 0 } }],
+  });
+  expect(diffPatterns(before, voted)).toEqual([]);
+
+  const edited = createPattern({ ...before, title: "New", services: ["billing"] });
+  expect(diffPatterns(before, edited)).toEqual([
+    { field: "title", before: "Old", after: "New" },
+    { field: "services", after: ["billing"] },
+  ]);
+});
+
+test("recordPlaybookChanges versions created, updated and deleted patterns", () => {
+  const first = createPattern({ id: "slsm-001", title: "Postgres refused" });
+  const second = createPattern({ id: "slsm-002", title: "DNS failure" });
+
+  recordPlaybookChanges({ patterns: [] }, { patterns: [first, second] }, "/tmp/playbook.yaml", dbPath);
+  withChangeContext({ source: "mcp", actor: "agent-7" }, () => {
+    recordPlaybookChanges(
+      { patterns: [first, second] },
+      { patterns: [{ ...first, severity: "high" }] },
+      "/tmp/playbook.yaml",
+      dbPath
+    );
+  });
+
+  const log = new ChangeLog(dbPath);
+  const history = log.history("slsm-001");
+  expect(history.map(c => [c.version, c.action])).toEqual([[2, "update"], [1, "create"]]);
+  expect(history[0]).toMatchObject({ source: "mcp", actor: "agent-7", playbook: "/tmp/playbook.yaml" });
+  expect(history[0].changes).toEqual([{ field: "severity", before: "medium", after: "high" }]);
+  expect(log.version("slsm-001", 1)?.snapshot?.severity).toBe("medium");
+
+  const deleted = log.history("slsm-002")[0];
+  expect(deleted).toMatchObject({ version: 2, action: "delete", snapshot: null });
+  log.close();
+
+  expect(getChangeContext().source).toBe("cli");
+});
+
+test("a pattern saved before history existed or edited by hand gets a baseline version", () => {
+  const existing = createPattern({ id: "slsm-001", title: "Postgres refused" });
+  const recorded = recordPlaybookChanges(
+    { patterns: [existing] },
+    { patterns: [{ ...existing, title: "Postgres unreachable" }] },
+    "/tmp/playbook.yaml",
+    dbPath
+  );
+
+  expect(recorded.map(c => [c.version, c.action])).toEqual([[1, "baseline"], [2, "update"]]);
+  expect(recorded[0].snapshot?.title).toBe("Postgres refused");
+
+  // A hand edit since version 2 is kept as a baseline too
+  const handEdited = { ...existing, title: "Postgres down" };
+  const next = recordPlaybookChanges(
+    { patterns: [handEdited] },
+    { patterns: [{ ...handEdited, severity: "high" as const }] },
+    "/tmp/playbook.yaml",
+    dbPath
+  );
+  expect(next.map(c => [c.version, c.action])).toEqual([[3, "baseline"], [4, "update"]]);
+});
+
+test("restoreSnapshot keeps the feedback counters the pattern has now", () => {
+  const snapshot = createPattern({
+    id: "slsm-001",
+    title: "Old",
+    fixes: [{ step: "Restart" }, { step: "Dropped since" }],
+    root_causes: ["Down"],
+  });
+  const current = createPattern({
+    ...snapshot,
+    title: "New",
+    feedback: { helpful: 4, harmful: 1 },
+    fixes: [{ step: "Restart", feedback: { helpful: 2, harmful: 0 } }],
+    root_causes: [{ cause: "Down", feedback: { helpful: 1, harmful: 0 } }],
+  });
+
+  const restored = restoreSnapshot(snapshot, current);
+  expect(restored.title).toBe("Old");
+  expect(restored.feedback).toEqual({ helpful: 4, harmful: 1 });
+  expect(restored.fixes).toEqual([
+    { step: "Restart", feedback: { helpful: 2, harmful: 0 } },
+    { step: "Dropped since" },
+  ]);
+  expect(restored.root_causes).toEqual([{ cause: "Down", feedback: { helpful: 1, harmful: 0 } }]);
+});
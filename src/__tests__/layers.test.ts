@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, realpathSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+import { Command } from "commander";
+import YAML from "yaml";
+import { playbookCommand } from "../cli/playbook.js";
+import { getEmbeddingsDbPath } from "../core/embeddings.js";
+import { getFeedbackDbPath } from "../core/feedback.js";
+import { getHistoryDbPath } from "../core/history.js";
+import { getConfigPath, getPlaybookLayers } from "../core/layers.js";
+import {
+  createPattern,
+  getPatternLayer,
+  getPlaybookPath,
+  loadPlaybook,
+  loadPlaybookFile,
+  ReadOnlyLayerError,
+  recordFeedback,
+  savePlaybook,
+  updateOwningLayer,
+  updatePlaybook,
+  type Pattern,
+} from "../core/playbook.js";
+
+const userFiles = [getPlaybookPath(), getConfigPath()];
+let originals = new Map<string, string | null>();
+let dirExisted = false;
+let originalCwd = "";
+let tmpDir = "";
+let projectPath = "";
+let teamPath = "";
+
+function writePlaybook(filePath: string, patterns: Pattern[]) {
+  mkdirSync(join(filePath, ".."), { recursive: true });
+  writeFileSync(filePath, YAML.stringify({ patterns }), "utf-8");
+}
+
+beforeEach(() => {
+  dirExisted = existsSync(join(getPlaybookPath(), ".."));
+  originals = new Map(userFiles.map(f => [f, existsSync(f) ? readFileSync(f, "utf-8") : null]));
+  originalCwd = process.cwd();
+
+  tmpDir = realpathSync(mkdtempSync(join(os.tmpdir(), "slsm-layers-")));
+  projectPath = join(tmpDir, "repo", ".sls-memory", "playbook.yaml");
+  teamPath = join(tmpDir, "team.yaml");
+
+  writePlaybook(projectPath, [
+    createPattern({ id: "slsm-001", pattern: "ECONNREFUSED", title: "Project override" }),
+  ]);
+  writePlaybook(teamPath, [
+    createPattern({ id: "slsm-001", pattern: "ECONNREFUSED", title: "Team version" }),
+    createPattern({ id: "slsm-050", pattern: "ENOTFOUND", title: "Team DNS" }),
+  ]);
+  savePlaybook({ patterns: [createPattern({ id: "slsm-002", pattern: "ENOSPC", title: "User disk full" })] });
+  writeFileSync(getConfigPath(), YAML.stringify({ team_playbooks: [{ name: "platform", path: teamPath }] }), "utf-8");
+
+  mkdirSync(join(tmpDir, "repo", "src"), { recursive: true });
+  process.chdir(join(tmpDir, "repo", "src"));
+});
+
+afterEach(() => {
+  process.chdir(originalCwd);
+  for (const [file, content] of originals) {
+    if (content !== null) {
+      writeFileSync(file, content, "utf-8");
+    } else {
+      rmSync(file, { force: true });
+    }
+  }
+  if (!dirExisted) {
+    rmSync(join(getPlaybookPath(), ".."), { recursive: true, force: true });
+  }
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test("layers are discovered in precedence order", () => {
+  const layers = getPlaybookLayers();
+  expect(layers.map(l => l.name)).toEqual(["project", "user", "team:platform"]);
+  expect(layers[0].path).toBe(projectPath);
+  expect(layers.map(l => l.readOnly)).toEqual([false, false, true]);
+});
+
+test("loadPlaybook merges layers and higher layers override by id", () => {
+  const playbook = loadPlaybook();
+  const byId = Object.fromEntries(playbook.patterns.map(p => [p.id, p]));
+
+  expect(playbook.patterns.map(p => p.id)).toEqual(["slsm-001", "slsm-002", "slsm-050"]);
+  expect(byId["slsm-001"].title).toBe("Project override");
+  expect(getPatternLayer(byId["slsm-001"])?.name).toBe("project");
+  expect(getPatternLayer(byId["slsm-002"])?.name).toBe("user");
+  expect(getPatternLayer(byId["slsm-050"])?.name).toBe("team:platform");
+
+  expect(() => savePlaybook(playbook)).toThrow("merged playbook");
+});
+
+test("writes go to the owning layer and team layers are read-only", () => {
+  updateOwningLayer("slsm-001", playbook => {
+    recordFeedback(playbook.patterns.find(p => p.id === "slsm-001")!, "helpful");
+  });
+  expect(loadPlaybookFile(projectPath).patterns[0].feedback.helpful).toBe(1);
+  expect(loadPlaybookFile(teamPath).patterns[0].feedback.helpful).toBe(0);
+
+  expect(() => updateOwningLayer("slsm-050", () => undefined)).toThrow(ReadOnlyLayerError);
+
+  // New ids in the user layer skip ids used by the other layers
+  const added = updatePlaybook(playbook => {
+    const pattern = createPattern({ title: "New" }, playbook);
+    playbook.patterns.push(pattern);
+    return pattern;
+  });
+  expect(added.id).toBe("slsm-051");
+});
+
+test("playbook override copies a team pattern into the user layer", async () => {
+  const program = new Command();
+  program.option("--json");
+  program.addCommand(playbookCommand);
+
+  const logs: string[] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => logs.push(args.map(String).join(" "));
+  try {
+    await program.parseAsync(["node", "slsm", "--json", "playbook", "override", "slsm-050"]);
+  } finally {
+    console.log = originalLog;
+  }
+
+  expect(JSON.parse(logs.join("\n"))).toMatchObject({ success: true, from: "team:platform", to: "user" });
+  const copied = loadPlaybook().patterns.find(p => p.id === "slsm-050")!;
+  expect(getPatternLayer(copied)?.name).toBe("user");
+});
+
+test("databases go to SLSM_DATA_DIR, or next to the user playbook without it", () => {
+  const original = process.env.SLSM_DATA_DIR;
+  try {
+    process.env.SLSM_DATA_DIR = tmpDir;
+    expect([getHistoryDbPath(), getFeedbackDbPath(), getEmbeddingsDbPath()]).toEqual(
+      ["history.db", "feedback.db", "embeddings.db"].map(name => join(tmpDir, name))
+    );
+
+    delete process.env.SLSM_DATA_DIR;
+    expect(getHistoryDbPath()).toBe(join(getPlaybookPath(), "..", "history.db"));
+  } finally {
+    if (original === undefined) delete process.env.SLSM_DATA_DIR;
+    else process.env.SLSM_DATA_DIR = original;
+  }
+});
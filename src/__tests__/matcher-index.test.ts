@@ -0,0 +1,129 @@
+import { expect, test } from "bun:test";
+import { getMatcherIndex, MatcherIndex, matchPattern } from "../core/matcher-index.js";
+import { calculateScore, extractKeywords, findMatchingPatterns } from "../core/matching.js";
+import { createPattern, markPlaybookChanged, removePattern, type Playbook } from "../core/playbook.js";
+
+const ids = (patterns: Iterable<{ id: string }>) => [...patterns].map(p => p.id).sort();
+
+test("regexCandidates keeps only regexes whose required literals occur", () => {
+  const patterns = [
+    createPattern({ id: "slsm-001", pattern: "connect ECONNREFUSED .*:5432" }),
+    createPattern({ id: "slsm-002", pattern: "(?:timeout|timed out) after \\d+ms" }),
+    createPattern({ id: "slsm-003", pattern: "\\b[0-9a-f]{40}\\b" }),
+    createPattern({ id: "slsm-004", pattern: "ENOSPC|disk (full|quota)" }),
+    createPattern({ id: "slsm-005", pattern: "[" }),
+    createPattern({ id: "slsm-006", pattern: "héllo wörld" }),
+  ];
+  const index = new MatcherIndex(patterns);
+
+  // Regexes without a required literal (slsm-003) are always candidates
+  expect(ids(index.regexCandidates("Error: connect econnrefused 10.0.0.1:5432"))).toEqual(["slsm-001", "slsm-003"]);
+  expect(ids(index.regexCandidates("request TIMED OUT after 300ms"))).toEqual(["slsm-002", "slsm-003"]);
+  expect(ids(index.regexCandidates("write failed: disk quota exceeded"))).toEqual(["slsm-003", "slsm-004"]);
+  expect(ids(index.regexCandidates("HÉLLO WÖRLD"))).toEqual(["slsm-003", "slsm-006"]);
+});
+
+test("match clauses combine any, all and none regexes with their own flags", () => {
+  const pattern = createPattern({
+    id: "slsm-001",
+    pattern: "CommitFailedException",
+    match: {
+      any: ["rebalance in progress"],
+      all: [{ regex: "^\\[Consumer clientId=", case_sensitive: true, multiline: true }],
+      none: ["group\\.id=test-"],
+    },
+  });
+  const log = "kafka error\n[Consumer clientId=billing] Rebalance in progress";
+
+  expect(matchPattern(pattern, log)?.clauses).toEqual(["match.any[0]", "match.all[0]"]);
+  expect(matchPattern(pattern, log.replace("Rebalance", "Heartbeat"))).toBeNull();
+  expect(matchPattern(pattern, log.replace("[Consumer", "[consumer"))).toBeNull();
+  expect(matchPattern(pattern, `${log} group.id=test-1`)).toBeNull();
+
+  // An empty pattern leaves the choice to match.any
+  const matchOnly = { ...pattern, pattern: "" };
+  expect(matchPattern(matchOnly, "[Consumer clientId=a] CommitFailedException")).toBeNull();
+
+  const playbook: Playbook = { patterns: [pattern, createPattern({ id: "slsm-002", pattern: "ECONNRESET", title: "Socket reset while closing", match: { none: ["while closing"] } })] };
+  const [result] = findMatchingPatterns(playbook, "[Consumer clientId=a] CommitFailedException: commit failed");
+  expect(result.pattern.id).toBe("slsm-001");
+  expect(result.matchedClauses).toEqual(["pattern", "match.all[0]"]);
+  // Excluded patterns don't come back as keyword matches either
+  expect(findMatchingPatterns(playbook, "read ECONNRESET while closing socket")).toEqual([]);
+  expect(findMatchingPatterns(playbook, "read ECONNRESET on socket")[0]?.matchedClauses).toEqual(["pattern"]);
+  expect(new MatcherIndex(playbook.patterns).regexCandidates("econnreset").has(playbook.patterns[1])).toBe(true);
+});
+
+test("getMatcherIndex rebuilds the index after patterns change", () => {
+  const playbook: Playbook = { patterns: [createPattern({ id: "slsm-001", pattern: "ENOSPC", title: "Disk full" })] };
+  const index = getMatcherIndex(playbook);
+  expect(getMatcherIndex(playbook)).toBe(index);
+
+  // In-place edits are seen once the playbook is marked changed
+  playbook.patterns[0].pattern = "ENOMEM";
+  expect(findMatchingPatterns(playbook, "spawn ENOMEM")).toEqual([]);
+  markPlaybookChanged(playbook);
+  expect(findMatchingPatterns(playbook, "spawn ENOMEM")[0]?.score).toBe(100);
+
+  playbook.patterns[0].symptoms.push("Cannot allocate memory");
+  markPlaybookChanged(playbook);
+  expect(findMatchingPatterns(playbook, "cannot allocate memory")[0]?.matchedKeywords).toEqual(["cannot", "allocate", "memory"]);
+  expect(getMatcherIndex(playbook)).not.toBe(index);
+
+  // Added and removed patterns need no marking
+  playbook.patterns.push(createPattern({ id: "slsm-002", pattern: "EMFILE", title: "Too many open files" }));
+  expect(findMatchingPatterns(playbook, "accept EMFILE")[0]?.pattern.id).toBe("slsm-002");
+  removePattern(playbook, "slsm-002");
+  expect(findMatchingPatterns(playbook, "accept EMFILE")).toEqual([]);
+});
+
+test("findMatchingPatterns stays fast and exact on a 30k-pattern playbook", () => {
+  const services = ["billing", "auth", "search", "ingest", "gateway", "payments", "notify", "reports"];
+  const resources = ["postgres", "redis", "kafka", "s3", "elasticsearch", "rabbitmq"];
+  const failures = ["timeout", "connection refused", "quota exceeded", "permission denied", "out of memory"];
+
+  const playbook: Playbook = { patterns: [] };
+  for (let i = 0; i < 30000; i++) {
+    const service = services[i % services.length];
+    const resource = resources[i % resources.length];
+    const failure = failures[Math.floor(i / services.length) % failures.length];
+    playbook.patterns.push(createPattern({
+      id: `slsm-${i}`,
+      title: `${service} ${resource} ${failure} ${i}`,
+      pattern: i % 50 === 0 ? `\\d+ms ${resource}` : `${service}-${resource}: ${failure} \\(code E${i}\\)`,
+      symptoms: [`${service}-${resource}: ${failure} (code E${i})`],
+    }));
+  }
+
+  const queries = [
+    "gateway-kafka: timeout (code E4)",
+    "redis connection refused in auth",
+    "1200ms kafka lag",
+    "segfault in unrelated module",
+  ];
+  for (const query of queries) {
+    // Every pattern a full scan would match, with the same score. The scan
+    // also sets the time budget, so slower machines get a longer one.
+    const scanStarted = performance.now();
+    const keywords = extractKeywords(query);
+    const expected = playbook.patterns.flatMap(pattern => {
+      if (new RegExp(pattern.pattern, "i").test(query)) {
+        return [`${pattern.id}:100`];
+      }
+      const score = calculateScore(keywords, extractKeywords(pattern.title + " " + pattern.symptoms.join(" ")));
+      return score > 20 ? [`${pattern.id}:${score}`] : [];
+    });
+    const scan = performance.now() - scanStarted;
+    const results = findMatchingPatterns(playbook, query, Infinity);
+    expect(results.map(r => `${r.pattern.id}:${r.score}`).sort()).toEqual(expected.sort());
+
+    // Median of several runs, so one GC pause doesn't fail the test
+    const timings: number[] = [];
+    for (let run = 0; run < 5; run++) {
+      const started = performance.now();
+      findMatchingPatterns(playbook, query);
+      timings.push(performance.now() - started);
+    }
+    expect(timings.sort((a, b) => a - b)[2]).toBeLessThan(scan / 4);
+  }
+}, 120_000);
@@ -0,0 +1,354 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+import { Command } from "commander";
+import { playbookCommand } from "../cli/playbook.js";
+import { createPattern, loadPlaybook, savePlaybook } from "../core/playbook.js";
+
+let playbookPath = "";
+let playbookDir = "";
+let originalPlaybook: string | null = null;
+let playbookExisted = false;
+let dirExisted = false;
+let originalEditor: string | undefined;
+let originalVisual: string | undefined;
+
+async function captureLogsAsync<T>(fn: () => Promise<T>): Promise<{ output: string; result: T }> {
+  const logs: string[] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map(String).join(" "));
+  };
+
+  try {
+    const result = await fn();
+    return { output: logs.join("\n"), result };
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+async function runJson(...args: string[]) {
+  const program = new Command();
+  program.option("--json");
+  program.addCommand(playbookCommand);
+
+  const { output } = await captureLogsAsync(() =>
+    program.parseAsync(["node", "slsm", "--json", "playbook", ...args])
+  );
+  return JSON.parse(output);
+}
+
+beforeEach(() => {
+  playbookDir = join(os.homedir(), ".sls-memory");
+  playbookPath = join(playbookDir, "playbook.yaml");
+  dirExisted = existsSync(playbookDir);
+  playbookExisted = existsSync(playbookPath);
+  originalPlaybook = playbookExisted ? readFileSync(playbookPath, "utf-8") : null;
+  originalEditor = process.env.EDITOR;
+  originalVisual = process.env.VISUAL;
+
+  savePlaybook({
+    patterns: [
+      createPattern({
+        id: "slsm-001",
+        fingerprint: "conn-refused",
+        pattern: "ECONNREFUSED",
+        severity: "high",
+        category: "database",
+        title: "Postgres connection refused",
+        symptoms: ["ECONNREFUSED 127.0.0.1:5432"],
+        root_causes: ["Postgres down"],
+      }),
+      createPattern({
+        id: "slsm-002",
+        fingerprint: "dns",
+        pattern: "ENOTFOUND",
+        category: "network",
+        title: "DNS failure",
+      }),
+    ],
+  });
+});
+
+afterEach(() => {
+  process.env.EDITOR = originalEditor;
+  process.env.VISUAL = originalVisual;
+  if (originalEditor === undefined) delete process.env.EDITOR;
+  if (originalVisual === undefined) delete process.env.VISUAL;
+
+  if (playbookExisted && originalPlaybook !== null) {
+    writeFileSync(playbookPath, originalPlaybook, "utf-8");
+  } else {
+    rmSync(playbookPath, { force: true });
+  }
+  if (!dirExisted) {
+    rmSync(playbookDir, { recursive: true, force: true });
+  }
+});
+
+test("playbook list and get read the saved playbook", async () => {
+  const list = await runJson("list");
+  expect(list.success).toBe(true);
+  expect(list.total).toBe(2);
+  expect(list.patterns.map((p: { id: string }) => p.id)).toEqual(["slsm-001", "slsm-002"]);
+
+  const get = await runJson("get", "slsm-002");
+  expect(get.success).toBe(true);
+  expect(get.pattern.title).toBe("DNS failure");
+});
+
+test("playbook add stores a new pattern", async () => {
+  const added = await runJson(
+    "add",
+    "--pattern", "ENOSPC",
+    "--title", "Disk full",
+    "--category", "filesystem",
+    "--symptom", "ENOSPC: no space left on device",
+    "--fix", "Free disk space",
+    "--fix-command", "df -h",
+  );
+  expect(added.success).toBe(true);
+  expect(added.id).not.toBe("slsm-xxx");
+
+  const stored = loadPlaybook().patterns.find(p => p.id === added.id);
+  expect(stored?.fingerprint).toBe("disk-full");
+  expect(stored?.symptoms).toEqual(["ENOSPC: no space left on device"]);
+  expect(stored?.fixes).toEqual([{ step: "Free disk space", command: "df -h" }]);
+});
+
+test("playbook add --from-examples synthesizes the pattern regex", async () => {
+  // Subcommands are shared; drop values left by the previous add
+  const add = playbookCommand.commands.find(command => command.name() === "add")!;
+  add.setOptionValue("pattern", undefined);
+  add.setOptionValue("symptom", []);
+
+  const added = await runJson(
+    "add",
+    "--from-examples",
+    "--title", "Redis refused",
+    "--symptom", "connect ECONNREFUSED 10.0.0.7:6379",
+    "--symptom", "connect ECONNREFUSED 10.0.0.9:6380",
+  );
+  expect(added.success).toBe(true);
+  expect(added.pattern).toBe("^connect\\s+ECONNREFUSED\\s+\\d{1,3}(?:\\.\\d{1,3}){3}:\\d+$");
+  add.setOptionValue("fromExamples", undefined);
+});
+
+test("playbook update sets fields and appends lists", async () => {
+  const updated = await runJson(
+    "update", "slsm-001",
+    "--severity", "medium",
+    "--root-cause", "pg_hba.conf rejects host",
+  );
+  expect(updated.success).toBe(true);
+
+  const stored = loadPlaybook().patterns[0];
+  expect(stored.severity).toBe("medium");
+  expect(stored.root_causes).toEqual(["Postgres down", "pg_hba.conf rejects host"]);
+  expect(stored.title).toBe("Postgres connection refused");
+});
+
+test("playbook update deprecates a pattern in favour of another", async () => {
+  const updated = await runJson("update", "slsm-002", "--superseded-by", "slsm-001");
+  expect(updated.success).toBe(true);
+  expect(updated.pattern.status).toBe("deprecated");
+  expect(updated.pattern.superseded_by).toBe("slsm-001");
+
+  const deprecated = await runJson("list", "--status", "deprecated");
+  expect(deprecated.patterns.map((p: { id: string }) => p.id)).toEqual(["slsm-002"]);
+
+  // Subcommands are shared; drop values left by the calls above
+  const subcommand = (name: string) => playbookCommand.commands.find(command => command.name() === name)!;
+  subcommand("update").setOptionValue("supersededBy", undefined);
+  subcommand("list").setOptionValue("status", undefined);
+
+  const reactivated = await runJson("update", "slsm-002", "--status", "active");
+  expect(reactivated.pattern.status).toBe("active");
+  expect(reactivated.pattern.superseded_by).toBeUndefined();
+  subcommand("update").setOptionValue("status", undefined);
+});
+
+test("playbook add and update manage scope", async () => {
+  const added = await runJson(
+    "add",
+    "--pattern", "ECONNRESET",
+    "--title", "Billing socket reset",
+    "--service", "billing",
+    "--workspace", "~/code/billing",
+  );
+  const stored = loadPlaybook().patterns.find(p => p.id === added.id);
+  expect(stored?.services).toEqual(["billing"]);
+  expect(stored?.workspaces).toEqual(["~/code/billing"]);
+  expect(stored?.hosts).toBeUndefined();
+
+  await runJson("update", added.id, "--clear-scope");
+  const cleared = loadPlaybook().patterns.find(p => p.id === added.id);
+  expect(cleared?.services).toBeUndefined();
+  expect(cleared?.workspaces).toBeUndefined();
+  expect(readFileSync(playbookPath, "utf-8")).not.toContain("billing\n");
+});
+
+test("playbook add and update manage match regexes", async () => {
+  // Subcommands are shared; drop values left by the previous tests
+  const subcommand = (name: string) => playbookCommand.commands.find(command => command.name() === name)!;
+  subcommand("add").setOptionValue("pattern", undefined);
+  subcommand("add").setOptionValue("service", []);
+  subcommand("add").setOptionValue("workspace", []);
+
+  const added = await runJson(
+    "add",
+    "--title", "Kafka rebalance storm",
+    "--match-any", "CommitFailedException",
+    "--match-all", "(?m-i)^\\[Consumer",
+    "--match-none", "group\\.id=test-",
+  );
+  expect(added.pattern).toBe("");
+  expect(added.match).toEqual({
+    any: ["CommitFailedException"],
+    all: [{ regex: "^\\[Consumer", case_sensitive: true, multiline: true }],
+    none: ["group\\.id=test-"],
+  });
+
+  const updated = await runJson("update", added.id, "--clear-match", "--match-any", "Rebalance in progress");
+  expect(updated.pattern.match).toEqual({ any: ["Rebalance in progress"] });
+  expect(loadPlaybook().patterns.find(p => p.id === added.id)?.match).toEqual({ any: ["Rebalance in progress"] });
+
+  for (const option of ["matchAny", "matchAll", "matchNone"]) {
+    subcommand("add").setOptionValue(option, []);
+    subcommand("update").setOptionValue(option, []);
+  }
+  subcommand("update").setOptionValue("clearMatch", undefined);
+});
+
+test("playbook remove deletes the pattern", async () => {
+  const removed = await runJson("remove", "slsm-002");
+  expect(removed.success).toBe(true);
+  expect(loadPlaybook().patterns.map(p => p.id)).toEqual(["slsm-001"]);
+});
+
+test("playbook edit saves the edited pattern", async () => {
+  delete process.env.VISUAL;
+  process.env.EDITOR = "sed -i 's/^title: .*/title: Edited title/'";
+
+  const edited = await runJson("edit", "slsm-002");
+  expect(edited.success).toBe(true);
+  expect(loadPlaybook().patterns[1].title).toBe("Edited title");
+});
+
+test("playbook edit keeps votes cast while the editor was open", async () => {
+  const counters = { helpful: 1, harmful: 0 };
+  savePlaybook({
+    patterns: [createPattern({
+      id: "slsm-001",
+      fingerprint: "conn-refused",
+      pattern: "ECONNREFUSED",
+      title: "Postgres connection refused",
+      root_causes: [{ cause: "Postgres down", feedback: counters }],
+      fixes: [{ step: "Restart postgres", feedback: counters }],
+      feedback: counters,
+    })],
+  });
+
+  // The "editor" records votes in the playbook before saving its edit
+  delete process.env.VISUAL;
+  process.env.EDITOR = `sed -i 's/helpful: 1/helpful: 5/' "${playbookPath}" && sed -i 's/^title: .*/title: Edited title/'`;
+
+  const edited = await runJson("edit", "slsm-001");
+  expect(edited.success).toBe(true);
+  const votes = { helpful: 5, harmful: 0 };
+  expect(loadPlaybook().patterns[0]).toMatchObject({
+    title: "Edited title",
+    feedback: votes,
+    fixes: [{ step: "Restart postgres", feedback: votes }],
+    root_causes: [{ cause: "Postgres down", feedback: votes }],
+  });
+  expect(edited.pattern.feedback).toEqual(votes);
+});
+
+test("playbook history, show --at and revert track pattern versions", async () => {
+  // Subcommands are shared; drop values left by earlier updates
+  const subcommand = (name: string) => playbookCommand.commands.find(command => command.name() === name)!;
+  subcommand("update").setOptionValue("rootCause", []);
+  subcommand("update").setOptionValue("clearScope", undefined);
+
+  await runJson("update", "slsm-002", "--title", "Resolver down");
+  subcommand("update").setOptionValue("title", undefined);
+
+  const history = await runJson("history", "slsm-002");
+  expect(history.success).toBe(true);
+  const [latest] = history.versions;
+  expect(latest).toMatchObject({
+    action: "update",
+    source: "cli",
+    changes: [{ field: "title", before: "DNS failure", after: "Resolver down" }],
+  });
+
+  // The version before the update holds the pattern as beforeEach saved it
+  const previous = latest.version - 1;
+  const old = await runJson("show", "slsm-002", "--at", String(previous));
+  expect(old.pattern.title).toBe("DNS failure");
+  subcommand("get").setOptionValue("at", undefined);
+
+  const reverted = await runJson("revert", "slsm-002", String(previous));
+  expect(reverted.changes).toEqual([{ field: "title", before: "Resolver down", after: "DNS failure" }]);
+  expect(loadPlaybook().patterns.find(p => p.id === "slsm-002")?.title).toBe("DNS failure");
+
+  const after = await runJson("history", "slsm-002");
+  expect(after.versions[0]).toMatchObject({ version: latest.version + 1, note: `Reverted to version ${previous}` });
+});
+
+test("playbook export and import round-trip a markdown runbook", async () => {
+  const tmpDir = mkdtempSync(join(os.tmpdir(), "slsm-export-"));
+  const runbook = join(tmpDir, "runbook.md");
+  try {
+    const exported = await runJson("export", "--output", runbook);
+    expect(exported).toMatchObject({ success: true, format: "markdown", total: 2 });
+
+    // A wiki edit: a new fix on slsm-001 and a pattern without an id
+    const edited = readFileSync(runbook, "utf-8")
+      .replace("### Root causes", "### Fixes\n\n1. Start Postgres\n\n   ```sh\n   pg_ctl start\n   ```\n\n### Root causes")
+      .concat("\n## Disk full\n\n- **Pattern:** `ENOSPC`\n");
+    writeFileSync(runbook, edited, "utf-8");
+
+    const preview = await runJson("import", runbook, "--dry-run");
+    expect(preview).toMatchObject({ dryRun: true, added: ["slsm-003"], updated: ["slsm-001", "slsm-002"] });
+    expect(loadPlaybook().patterns).toHaveLength(2);
+    playbookCommand.commands.find(command => command.name() === "import")!.setOptionValue("dryRun", undefined);
+
+    const imported = await runJson("import", runbook);
+    expect(imported).toMatchObject({ success: true, mode: "merge", remapped: [{ index: 2, from: "", to: "slsm-003" }] });
+    const stored = loadPlaybook().patterns;
+    expect(stored.find(p => p.id === "slsm-001")?.fixes).toEqual([{ step: "Start Postgres", command: "pg_ctl start" }]);
+    expect(stored.find(p => p.id === "slsm-003")).toMatchObject({ title: "Disk full", fingerprint: "disk-full" });
+  } finally {
+    rmSync(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("playbook merge folds duplicates into one pattern and aliases the old id", async () => {
+  const merged = await runJson("merge", "slsm-001", "slsm-002");
+  expect(merged).toMatchObject({ success: true, id: "slsm-001", merged: ["slsm-002"] });
+  expect(merged.pattern.pattern).toBe("(?:ECONNREFUSED)|(?:ENOTFOUND)");
+
+  const resolved = await runJson("get", "slsm-002");
+  expect(resolved.pattern.id).toBe("slsm-001");
+  expect(loadPlaybook().patterns.map(p => p.id)).toEqual(["slsm-001"]);
+});
+
+test("playbook update, edit and remove follow the alias of a merged id", async () => {
+  await runJson("merge", "slsm-001", "slsm-002");
+
+  const updated = await runJson("update", "slsm-002", "--title", "Connection failure");
+  expect(updated).toMatchObject({ success: true, pattern: { id: "slsm-001", title: "Connection failure" } });
+
+  delete process.env.VISUAL;
+  process.env.EDITOR = "sed -i 's/^category: .*/category: connectivity/'";
+  expect((await runJson("edit", "slsm-002")).success).toBe(true);
+  expect(loadPlaybook().patterns[0]).toMatchObject({ id: "slsm-001", title: "Connection failure", category: "connectivity" });
+
+  const removed = await runJson("remove", "slsm-002");
+  expect(removed.success).toBe(true);
+  expect(loadPlaybook().patterns).toEqual([]);
+});
@@ -1,13 +1,25 @@
 import { afterEach, beforeEach, expect, test } from "bun:test";
-import { existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
 import * as os from "os";
 import { join } from "path";
 import {
   createPattern,
+  findPatternById,
+  formatMatchRegex,
+  generatePatternId,
   loadPlaybook,
+  loadPlaybookFile,
+  parseMatchRegex,
   recordFeedback,
+  removePattern,
+  renumberPlaybook,
   savePlaybook,
+  PLAYBOOK_VERSION,
+  validatePattern,
   validatePlaybook,
+  validatePlaybookFile,
+  PlaybookParseError,
+  type Playbook,
 } from "../core/playbook.js";
 
 let playbookPath = "";
@@ -15,16 +27,26 @@ let playbookDir = "";
 let originalPlaybook: string | null = null;
 let playbookExisted = false;
 let dirExisted = false;
+let backupsBefore = new Set<string>();
+
+function backups(): string[] {
+  return existsSync(playbookDir) ? readdirSync(playbookDir).filter(f => f.endsWith(".bak")) : [];
+}
 
 beforeEach(() => {
   playbookDir = join(os.homedir(), ".sls-memory");
   playbookPath = join(playbookDir, "playbook.yaml");
   dirExisted = existsSync(playbookDir);
+  backupsBefore = new Set(backups());
   playbookExisted = existsSync(playbookPath);
   originalPlaybook = playbookExisted ? readFileSync(playbookPath, "utf-8") : null;
 });
 
 afterEach(() => {
+  // Older playbooks written by the tests are backed up when upgraded
+  for (const file of backups().filter(f => !backupsBefore.has(f))) {
+    rmSync(join(playbookDir, file), { force: true });
+  }
   if (playbookExisted && originalPlaybook !== null) {
     writeFileSync(playbookPath, originalPlaybook, "utf-8");
   } else {
@@ -93,6 +115,193 @@ test("validatePlaybook flags duplicate IDs and invalid severity", () => {
   expect(errors.some(e => e.message.includes("Duplicate pattern ID"))).toBe(true);
 });
 
+test("validatePlaybook checks statuses and supersession targets", () => {
+  const pattern = (id: string, extra: Record<string, unknown> = {}) =>
+    ({ ...createPattern({ id, fingerprint: id, pattern: id, title: id }), ...extra });
+
+  const errors = validatePlaybook({
+    patterns: [
+      pattern("slsm-001", { status: "retired" }),
+      pattern("slsm-002", { status: "deprecated", superseded_by: "slsm-009" }),
+      pattern("slsm-003", { superseded_by: "slsm-004" }),
+      pattern("slsm-004", { superseded_by: "slsm-003" }),
+      pattern("slsm-005", { superseded_by: "slsm-010" }),
+      pattern("slsm-006", { superseded_by: "slsm-050" }),
+    ],
+    aliases: { "slsm-010": "slsm-001" },
+  }, ["slsm-050"]);
+
+  expect(errors).toEqual([
+    { path: "patterns[0].status", message: "status must be one of: draft, active, deprecated, archived" },
+    { path: "patterns[1].superseded_by", message: "Superseding pattern not found: slsm-009" },
+    { path: "patterns[2].superseded_by", message: "Supersession cycle: slsm-003 -> slsm-004 -> slsm-003" },
+    { path: "patterns[3].superseded_by", message: "Supersession cycle: slsm-004 -> slsm-003 -> slsm-004" },
+  ]);
+});
+
+test("validatePattern checks fixes, empty matches and unknown fields", () => {
+  const pattern = createPattern({ id: "slsm-001", fingerprint: "a", pattern: "x", title: "X" });
+
+  expect(validatePattern({ ...pattern, fixes: ["Restart it", { step: "" }] }, 0)).toEqual([
+    { path: "patterns[0].fixes[0]", message: "fix must be an object with a step" },
+    { path: "patterns[0].fixes[1].step", message: "step must be a non-empty string" },
+  ]);
+  expect(validatePattern({ ...pattern, pattern: "(ECONNREFUSED)?" }, 0).map(e => e.message)).toEqual([
+    "pattern matches the empty string, so it would match every error",
+  ]);
+  expect(validatePattern({ ...pattern, fixs: [], fixes: [{ step: "Restart", comand: "x" }] }, 0)).toEqual([
+    { path: "patterns[0].fixs", message: "Unknown field fixs", level: "warning" },
+    { path: "patterns[0].fixes[0].comand", message: "Unknown field comand", level: "warning" },
+  ]);
+});
+
+test("validatePattern flags regexes that can backtrack catastrophically", () => {
+  const pattern = createPattern({ id: "slsm-001", fingerprint: "a", pattern: "x", title: "X" });
+
+  expect(validatePattern({ ...pattern, pattern: "timeout after (\\d+ms,?)+ retries" }, 0)).toEqual([]);
+  expect(validatePattern({ ...pattern, pattern: "^(\\w+\\s?)*:", frame: "line \\d+\\d*" }, 0)).toEqual([
+    {
+      path: "patterns[0].pattern",
+      message: "pattern has a nested quantifier in (\\w+\\s?)*, which can backtrack catastrophically; make \\w+ match once per repetition",
+    },
+    {
+      path: "patterns[0].frame",
+      message: "frame has adjacent quantifiers \\d+\\d*, which can backtrack polynomially; merge them into one",
+      level: "warning",
+    },
+  ]);
+});
+
+test("validatePattern checks match clauses", () => {
+  const pattern = createPattern({ id: "slsm-001", fingerprint: "a", pattern: "", title: "X" });
+
+  expect(validatePattern({ ...pattern, match: { any: ["ECONNREFUSED"], none: [{ regex: "^pgbouncer", multiline: true }] } }, 0)).toEqual([]);
+  expect(validatePattern(pattern, 0).map(e => e.message)).toEqual([
+    "pattern is required and must be a non-empty string, unless match has any or all regexes",
+  ]);
+  expect(validatePattern({ ...pattern, match: { all: ["("], none: ["x?"], any: [{ regex: "y", dotall: "yes", flags: "g" }] } }, 0)).toEqual([
+    { path: "patterns[0].match.any[0].dotall", message: "dotall must be true or false" },
+    { path: "patterns[0].match.all[0]", message: "Invalid regex" },
+    { path: "patterns[0].match.none[0]", message: "match.none[0] matches the empty string, so it would exclude every error" },
+    { path: "patterns[0].match.any[0].flags", message: "Unknown field flags", level: "warning" },
+  ]);
+});
+
+test("match regexes round-trip through their one-line form", () => {
+  const entries = ["ECONNREFUSED", { regex: "^at .+", multiline: true, case_sensitive: true }, { regex: "(?:a).b", dotall: true }];
+  expect(entries.map(formatMatchRegex)).toEqual(["ECONNREFUSED", "(?m-i)^at .+", "(?s)(?:a).b"]);
+  expect(entries.map(formatMatchRegex).map(parseMatchRegex)).toEqual(entries);
+});
+
+test("validatePlaybookFile reports errors with their line and column", () => {
+  const tmpDir = mkdtempSync(join(os.tmpdir(), "slsm-validate-"));
+  const filePath = join(tmpDir, "playbook.yaml");
+  try {
+    writeFileSync(filePath, [
+      "version: 3",
+      "patterns:",
+      "  - id: slsm-001",
+      "    fingerprint: a",
+      "    pattern: ECONNREFUSED",
+      "    severity: critical",
+      "    category: database",
+      "    title: Postgres refused",
+      "    symptoms: []",
+      "    root_causes: []",
+      "    fixes: []",
+      "    feedback: { helpful: 0, harmful: 0 }",
+      "",
+    ].join("\n"), "utf-8");
+    expect(validatePlaybookFile(filePath)).toEqual([
+      { path: "patterns[0].severity", message: "severity must be one of: low, medium, high", line: 6, column: 15 },
+    ]);
+
+    writeFileSync(filePath, "patterns:\n  - id: slsm-001\n    title: [unclosed\n", "utf-8");
+    const [syntax] = validatePlaybookFile(filePath);
+    expect(syntax.path).toBe("");
+    expect(syntax.line).toBeGreaterThan(0);
+  } finally {
+    rmSync(tmpDir, { recursive: true, force: true });
+  }
+});
+
+test("loadPlaybook skips malformed entries with a warning and rejects invalid YAML", () => {
+  mkdirSync(playbookDir, { recursive: true });
+  writeFileSync(playbookPath, [
+    "version: 3",
+    "patterns:",
+    "  - id: slsm-001",
+    "    fingerprint: ok",
+    "    pattern: ECONNREFUSED",
+    "    severity: high",
+    "    category: database",
+    "    title: Postgres refused",
+    "    symptoms: []",
+    "    root_causes: []",
+    "    fixes: []",
+    "    feedback: { helpful: 0, harmful: 0 }",
+    "  - id: slsm-002",
+    "    pattern: ENOSPC",
+    "    title: Missing lists",
+    "",
+  ].join("\n"), "utf-8");
+
+  const warnings: string[] = [];
+  const originalWarn = console.warn;
+  console.warn = (...args: unknown[]) => { warnings.push(args.map(String).join(" ")); };
+  try {
+    expect(loadPlaybook().patterns.map(p => p.id)).toContain("slsm-001");
+    expect(loadPlaybook().patterns.map(p => p.id)).not.toContain("slsm-002");
+  } finally {
+    console.warn = originalWarn;
+  }
+  expect(warnings).toHaveLength(1);
+  expect(warnings[0]).toContain(`skipping invalid pattern slsm-002 (${playbookPath}:13:5:`);
+
+  // The skipped entry stays in the file
+  expect(loadPlaybookFile(playbookPath).patterns).toHaveLength(2);
+
+  writeFileSync(playbookPath, "patterns:\n  - id: slsm-001\n    title: [unclosed\n", "utf-8");
+  expect(() => loadPlaybook()).toThrow(PlaybookParseError);
+});
+
+test("loading an older playbook upgrades it after backing it up", () => {
+  mkdirSync(playbookDir, { recursive: true });
+  const original = [
+    "# Team playbook",
+    "patterns:",
+    "  - id: slsm-001",
+    "    fingerprint: conn-refused",
+    "    pattern: ECONNREFUSED",
+    "    title: Postgres refused",
+    "    fixes:",
+    "      - Restart postgres",
+    "",
+  ].join("\n");
+  writeFileSync(playbookPath, original, "utf-8");
+
+  const [pattern] = loadPlaybook().patterns;
+  expect(pattern.fixes).toEqual([{ step: "Restart postgres" }]);
+  expect(pattern.feedback).toEqual({ helpful: 0, harmful: 0 });
+
+  const upgraded = readFileSync(playbookPath, "utf-8");
+  expect(upgraded.startsWith(`# Team playbook\nversion: ${PLAYBOOK_VERSION}\npatterns:`)).toBe(true);
+  expect(upgraded).toContain("severity: medium");
+  const created = backups().filter(f => !backupsBefore.has(f));
+  expect(created).toHaveLength(1);
+  expect(created[0]).toStartWith("playbook.yaml.v1.");
+  expect(readFileSync(join(playbookDir, created[0]), "utf-8")).toBe(original);
+});
+
+test("playbooks from a newer version are refused", () => {
+  mkdirSync(playbookDir, { recursive: true });
+  writeFileSync(playbookPath, `version: ${PLAYBOOK_VERSION + 1}\npatterns: []\n`, "utf-8");
+
+  expect(() => loadPlaybook()).toThrow(`playbook version ${PLAYBOOK_VERSION + 1} is newer than this slsm supports`);
+  expect(() => savePlaybook({ patterns: [] })).toThrow(PlaybookParseError);
+  expect(readFileSync(playbookPath, "utf-8")).toBe(`version: ${PLAYBOOK_VERSION + 1}\npatterns: []\n`);
+});
+
 test("recordFeedback increments counters", () => {
   const pattern = createPattern({ feedback: { helpful: 1, harmful: 0 } });
   recordFeedback(pattern, "helpful");
@@ -101,3 +310,109 @@ test("recordFeedback increments counters", () => {
   expect(pattern.feedback.helpful).toBe(2);
   expect(pattern.feedback.harmful).toBe(1);
 });
+
+test("savePlaybook preserves comments and key order of an existing file", () => {
+  mkdirSync(playbookDir, { recursive: true });
+  writeFileSync(playbookPath, [
+    "# Team playbook",
+    "patterns:",
+    "  # Database Errors",
+    "  - id: slsm-001",
+    "    title: PostgreSQL connection refused",
+    "    fingerprint: connection-refused-postgres",
+    "    pattern: \"ECONNREFUSED.*:5432\" # port-specific",
+    "    severity: high",
+    "    category: database",
+    "    symptoms: []",
+    "    root_causes: []",
+    "    fixes: []",
+    "    feedback:",
+    "      helpful: 1",
+    "      harmful: 0",
+    "",
+  ].join("\n"), "utf-8");
+
+  const playbook = loadPlaybookFile(playbookPath);
+  recordFeedback(playbook.patterns[0], "helpful");
+  playbook.patterns.push(createPattern({ id: "slsm-002", title: "Added" }));
+  savePlaybook(playbook);
+
+  const saved = readFileSync(playbookPath, "utf-8");
+  expect(saved).toContain("# Team playbook");
+  expect(saved).toContain("# Database Errors");
+  expect(saved).toContain("\"ECONNREFUSED.*:5432\" # port-specific");
+  expect(saved.indexOf("title:")).toBeLessThan(saved.indexOf("fingerprint:"));
+  expect(saved).toContain("helpful: 2");
+  expect(loadPlaybook().patterns.map(p => p.id)).toEqual(["slsm-001", "slsm-002"]);
+});
+
+test("generatePatternId allocates unique ids past 999 and never reuses them", () => {
+  const playbook: Playbook = { patterns: [createPattern({ id: "slsm-998" })] };
+  for (let i = 0; i < 50; i++) {
+    playbook.patterns.push(createPattern({}, playbook));
+  }
+
+  const ids = playbook.patterns.map(p => p.id);
+  expect(new Set(ids).size).toBe(51);
+  expect(ids[1]).toBe("slsm-999");
+  expect(ids[2]).toBe("slsm-1000");
+
+  const last = ids[ids.length - 1];
+  removePattern(playbook, last);
+  expect(generatePatternId(playbook)).not.toBe(last);
+});
+
+test("renumberPlaybook repairs duplicate ids and aliases renamed ones", () => {
+  const playbook: Playbook = {
+    patterns: [
+      createPattern({ id: "slsm-001", title: "First" }),
+      createPattern({ id: "slsm-001", title: "Second" }),
+      createPattern({ id: "slsm-xxx", title: "Legacy" }),
+    ],
+  };
+
+  const changes = renumberPlaybook(playbook, { all: true });
+  expect(changes.map(c => [c.from, c.to])).toEqual([
+    ["slsm-001", "slsm-002"],
+    ["slsm-xxx", "slsm-003"],
+  ]);
+  expect(validatePlaybook(playbook).filter(e => e.message.includes("Duplicate"))).toEqual([]);
+  expect(findPatternById(playbook, "slsm-001")?.title).toBe("First");
+  expect(findPatternById(playbook, "slsm-xxx")?.title).toBe("Legacy");
+});
+
+test("recordFeedback tracks individual fixes and root causes", () => {
+  const pattern = createPattern({
+    id: "slsm-001",
+    root_causes: ["Postgres down", "Wrong port"],
+    fixes: [{ step: "Start postgres" }, { step: "Check port" }],
+  });
+
+  recordFeedback(pattern, "helpful", { fix: 2, cause: 2 });
+
+  expect(pattern.feedback.helpful).toBe(1);
+  expect(pattern.fixes[1].feedback).toEqual({ helpful: 1, harmful: 0 });
+  expect(pattern.fixes[0].feedback).toBeUndefined();
+  expect(pattern.root_causes).toEqual([
+    "Postgres down",
+    { cause: "Wrong port", feedback: { helpful: 1, harmful: 0 } },
+  ]);
+  expect(() => recordFeedback(pattern, "helpful", { fix: 3 })).toThrow("Fix 3 does not exist");
+});
+
+test("savePlaybook merges concurrent fix votes from stale copies", () => {
+  savePlaybook({
+    patterns: [createPattern({ id: "slsm-001", fixes: [{ step: "Start postgres" }] })],
+  });
+
+  const first = loadPlaybookFile(playbookPath);
+  const second = loadPlaybookFile(playbookPath);
+  recordFeedback(first.patterns[0], "helpful", { fix: 1 });
+  recordFeedback(second.patterns[0], "helpful", { fix: 1 });
+  savePlaybook(first);
+  savePlaybook(second);
+
+  const saved = loadPlaybook().patterns[0];
+  expect(saved.feedback.helpful).toBe(2);
+  expect(saved.fixes[0].feedback).toEqual({ helpful: 2, harmful: 0 });
+});
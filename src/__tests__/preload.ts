@@ -0,0 +1,13 @@
+/**
+ * Test preload: the suite's history, feedback and embeddings databases go
+ * to a temp dir rather than ~/.sls-memory
+ */
+
+import { afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+
+const dataDir = mkdtempSync(join(os.tmpdir(), "slsm-data-"));
+process.env.SLSM_DATA_DIR = dataDir;
+afterAll(() => rmSync(dataDir, { recursive: true, force: true }));
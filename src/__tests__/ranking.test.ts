@@ -0,0 +1,73 @@
+import { expect, test } from "bun:test";
+import { findMatchingPatterns, toMatchSummary } from "../core/matching.js";
+import { createPattern, type Playbook } from "../core/playbook.js";
+import { helpfulness, isMostlyHarmful, wilsonLowerBound } from "../core/ranking.js";
+
+function regexPattern(id: string, helpful: number, harmful: number) {
+  return createPattern({
+    id,
+    fingerprint: id,
+    pattern: "ECONNREFUSED",
+    category: "network",
+    title: `Connection refused ${id}`,
+    feedback: { helpful, harmful },
+  });
+}
+
+test("wilsonLowerBound is cautious with few votes", () => {
+  expect(wilsonLowerBound(0, 0)).toBe(0);
+  expect(wilsonLowerBound(1, 1)).toBeLessThan(wilsonLowerBound(40, 42));
+  expect(helpfulness({ helpful: 1, harmful: 0 })).toBeLessThan(helpfulness({ helpful: 40, harmful: 2 }));
+});
+
+test("isMostlyHarmful needs confident evidence", () => {
+  expect(isMostlyHarmful({ helpful: 0, harmful: 1 })).toBe(false);
+  expect(isMostlyHarmful({ helpful: 1, harmful: 9 })).toBe(true);
+  expect(isMostlyHarmful({ helpful: 10, harmful: 10 })).toBe(false);
+});
+
+test("findMatchingPatterns ranks well-proven patterns above lightly voted ones", () => {
+  const playbook: Playbook = {
+    patterns: [
+      regexPattern("slsm-001", 1, 0),
+      regexPattern("slsm-002", 0, 0),
+      regexPattern("slsm-003", 40, 2),
+    ],
+  };
+
+  const results = findMatchingPatterns(playbook, "connect ECONNREFUSED 127.0.0.1:5432");
+  expect(results.map(r => r.pattern.id)).toEqual(["slsm-003", "slsm-001", "slsm-002"]);
+  expect(results.every(r => r.score === 100)).toBe(true);
+});
+
+test("findMatchingPatterns hides mostly harmful patterns unless asked", () => {
+  const playbook: Playbook = {
+    patterns: [regexPattern("slsm-001", 5, 0), regexPattern("slsm-002", 1, 12)],
+  };
+
+  const hidden = findMatchingPatterns(playbook, "ECONNREFUSED");
+  expect(hidden.map(r => r.pattern.id)).toEqual(["slsm-001"]);
+
+  const shown = findMatchingPatterns(playbook, "ECONNREFUSED", 10, { includeHarmful: true });
+  expect(shown.map(r => r.pattern.id)).toEqual(["slsm-001", "slsm-002"]);
+});
+
+test("toMatchSummary orders fixes and causes by how well they worked", () => {
+  const pattern = createPattern({
+    id: "slsm-001",
+    pattern: "ECONNREFUSED",
+    root_causes: ["Postgres down", { cause: "Wrong port", feedback: { helpful: 6, harmful: 0 } }],
+    fixes: [
+      { step: "Restart the machine", feedback: { helpful: 0, harmful: 3 } },
+      { step: "Start postgres" },
+      { step: "Check port", feedback: { helpful: 8, harmful: 2 } },
+    ],
+  });
+
+  const [summary] = findMatchingPatterns({ patterns: [pattern] }, "ECONNREFUSED").map(toMatchSummary);
+  expect(summary.fixes.map(f => f.index)).toEqual([3, 2, 1]);
+  expect(summary.fixes[0].successRate).toBe(0.8);
+  expect(summary.fixes[1].successRate).toBeNull();
+  expect(summary.root_causes.map(c => c.cause)).toEqual(["Wrong port", "Postgres down"]);
+  expect(summary.root_causes[0].index).toBe(2);
+});
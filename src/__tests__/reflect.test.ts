@@ -20,6 +20,8 @@ let playbookDir = "";
 let playbookExisted = false;
 let playbookDirExisted = false;
 let playbookBackup: string | null = null;
+let reviewPath = "";
+let reviewBackup: string | null = null;
 
 async function captureLogsAsync<T>(fn: () => Promise<T>): Promise<{ output: string; result: T }> {
   const logs: string[] = [];
@@ -51,6 +53,9 @@ beforeEach(() => {
   playbookDirExisted = existsSync(playbookDir);
   playbookExisted = existsSync(playbookPath);
   playbookBackup = playbookExisted ? readFileSync(playbookPath, "utf-8") : null;
+  reviewPath = join(playbookDir, "review.yaml");
+  reviewBackup = existsSync(reviewPath) ? readFileSync(reviewPath, "utf-8") : null;
+  rmSync(reviewPath, { force: true });
 
   backupDir = mkdtempSync(join(os.tmpdir(), "slsm-reflect-backup-"));
   if (dbExisted) {
@@ -102,6 +107,12 @@ afterEach(() => {
   } else {
     rmSync(playbookPath, { force: true });
   }
+  if (reviewBackup !== null) {
+    mkdirSync(playbookDir, { recursive: true });
+    writeFileSync(reviewPath, reviewBackup, "utf-8");
+  } else {
+    rmSync(reviewPath, { force: true });
+  }
   if (!playbookDirExisted) {
     rmSync(playbookDir, { recursive: true, force: true });
   }
@@ -155,3 +166,52 @@ test("reflect command suggests new patterns from SLS db", async () => {
   expect(parsed.newPatternsFound).toBe(1);
   expect(parsed.patterns[0].isNew).toBe(true);
 });
+
+test("reflect groups messages by mined template before applying --min-count", async () => {
+  mkdirSync(slsDir, { recursive: true });
+  const db = new Database(dbPath);
+  db.run(`
+    CREATE TABLE log_entries (
+      id INTEGER PRIMARY KEY,
+      message TEXT NOT NULL,
+      level TEXT,
+      service TEXT,
+      timestamp_utc INTEGER,
+      fingerprint TEXT
+    )
+  `);
+
+  const now = Math.floor(Date.now() / 1000);
+  const insert = db.prepare(
+    "INSERT INTO log_entries (message, level, service, timestamp_utc, fingerprint) VALUES (?, ?, ?, ?, ?)"
+  );
+  // No single message repeats, but they share one template
+  insert.run("permission denied for user alice", "error", "api", now - 60, null);
+  insert.run("permission denied for user bob", "error", "api", now - 30, null);
+  insert.run("permission denied for user carol", "error", "api", now, null);
+  insert.run("disk quota exceeded", "error", "api", now, null);
+  insert.finalize();
+  db.close();
+
+  // The command is a singleton, so --dry-run from an earlier test would leak
+  reflectCommand.setOptionValue("dryRun", undefined);
+  const program = new Command();
+  program.option("--json");
+  program.addCommand(reflectCommand);
+
+  const { output } = await captureLogsAsync(() =>
+    program.parseAsync(["node", "slsm", "--json", "reflect", "--days", "1", "--min-count", "3"])
+  );
+
+  const parsed = JSON.parse(output);
+  expect(parsed.totalRecurringErrors).toBe(1);
+  expect(parsed.patterns[0].template).toBe("permission denied for user <*>");
+  expect(parsed.patterns[0].occurrences).toBe(3);
+  expect(parsed.patterns[0].examples).toHaveLength(3);
+
+  // Candidates wait in the review queue rather than the playbook
+  expect(existsSync(playbookPath)).toBe(false);
+  const queued = readFileSync(reviewPath, "utf-8");
+  expect(queued).toContain("fingerprint: permission denied for user <*>");
+  expect(queued).toContain("id: cand-001");
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+import { EmbeddingsManager, type EmbeddingProvider } from "../core/embeddings.js";
+import { createPattern, type Playbook } from "../core/playbook.js";
+import { retrievePatterns, toRetrievalSummary } from "../core/retrieval.js";
+
+const playbook: Playbook = {
+  patterns: [
+    createPattern({
+      id: "slsm-001",
+      pattern: "ECONNREFUSED",
+      title: "Connection refused",
+      category: "network",
+    }),
+    createPattern({
+      id: "slsm-002",
+      pattern: "connect ECONNREFUSED [\\d.]+:5432",
+      title: "Postgres connection refused",
+      category: "database",
+      symptoms: ["connect ECONNREFUSED 127.0.0.1:5432"],
+      root_causes: ["PostgreSQL is not running"],
+      fixes: [{ step: "Start the postgres service" }],
+    }),
+    createPattern({
+      id: "slsm-003",
+      pattern: "ENOSPC",
+      title: "Disk full",
+      category: "filesystem",
+      fixes: [{ step: "Prune old docker images" }],
+    }),
+  ],
+};
+
+let tmpDir = "";
+let embeddings: EmbeddingsManager;
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(os.tmpdir(), "slsm-retrieval-"));
+  embeddings = new EmbeddingsManager(join(tmpDir, "embeddings.db"));
+});
+
+afterEach(() => {
+  embeddings.close();
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test("retrievePatterns breaks regex ties by span and agreement", async () => {
+  const results = await retrievePatterns(playbook, "connect ECONNREFUSED 127.0.0.1:5432", 10, { embeddings });
+
+  expect(results.map(r => r.pattern.id)).toEqual(["slsm-002", "slsm-001"]);
+  expect(results[0].confidence).toBeGreaterThan(results[1].confidence);
+  expect(results[0].confidence).toBeLessThanOrEqual(1);
+  expect(results[0].signals.regex).toBe(1);
+  expect(results[0].signals.keyword).toBeGreaterThan(0);
+  expect(results[1].signals.regex).toBeLessThan(1);
+});
+
+test("retrievePatterns finds patterns through their fixes and causes", async () => {
+  const [result] = await retrievePatterns(playbook, "should I prune docker images", 5, { minConfidence: 0, embeddings });
+
+  expect(result.pattern.id).toBe("slsm-003");
+  expect(result.signals.regex).toBeNull();
+  expect(result.signals.semantic).toBeGreaterThan(0);
+});
+
+test("semantic mode ignores regexes and keeps weak matches", async () => {
+  const results = await retrievePatterns(playbook, "postgres service", 5, { mode: "semantic", embeddings });
+
+  expect(results[0].pattern.id).toBe("slsm-002");
+  expect(results[0].signals.regex).toBeNull();
+  expect(results[0].signals.keyword).toBeNull();
+});
+
+test("retrievePatterns fuses the other signals when embeddings fail", async () => {
+  const broken: EmbeddingProvider = {
+    name: "tfidf",
+    model: "tfidf",
+    fallbackReason: null,
+    sync: async () => { throw new Error("database is locked"); },
+    findSimilar: async () => [],
+    clear: () => {},
+    close: () => {},
+  };
+
+  const results = await retrievePatterns(playbook, "connect ECONNREFUSED 127.0.0.1:5432", 10, { embeddings: broken });
+  expect(results.map(r => r.pattern.id)).toEqual(["slsm-002", "slsm-001"]);
+  expect(results[0].signals.semantic).toBeNull();
+  expect(results[0].signals.regex).toBe(1);
+
+  // Semantic mode has nothing else to go on
+  await expect(retrievePatterns(playbook, "postgres", 5, { mode: "semantic", embeddings: broken })).rejects.toThrow("database is locked");
+});
+
+test("toRetrievalSummary reports confidence and signals", async () => {
+  const [summary] = (await retrievePatterns(playbook, "ENOSPC: no space left on device", 10, { embeddings })).map(toRetrievalSummary);
+
+  expect(summary.id).toBe("slsm-003");
+  expect(summary.score).toBe(Math.round(summary.confidence * 100));
+  expect(summary.signals.regex).toBeGreaterThan(0);
+});
+
+test("retrievePatterns reports matched clauses and honours match.none", async () => {
+  const postgres: Playbook = {
+    patterns: [
+      createPattern({
+        id: "slsm-001",
+        pattern: "",
+        title: "Postgres connection refused",
+        match: { any: ["ECONNREFUSED.*:5432", "Connection refused.*port 5432"], none: ["pgbouncer"] },
+      }),
+    ],
+  };
+
+  const [result] = await retrievePatterns(postgres, "psql: Connection refused, is the server running on port 5432?", 10, { embeddings });
+  expect(result.matchedClauses).toEqual(["match.any[1]"]);
+  expect(toRetrievalSummary(result).matchedClauses).toEqual(["match.any[1]"]);
+  expect(await retrievePatterns(postgres, "pgbouncer: connect ECONNREFUSED 10.0.0.5:5432", 5, { minConfidence: 0, embeddings })).toEqual([]);
+});
+
+test("retrievePatterns skips drafts and archived patterns unless asked", async () => {
+  const lifecycle: Playbook = {
+    patterns: [
+      createPattern({ id: "slsm-001", pattern: "ENOSPC", title: "Disk full (old)", status: "deprecated", superseded_by: "slsm-003" }),
+      createPattern({ id: "slsm-002", pattern: "ENOSPC", title: "Disk full (draft)", status: "draft" }),
+      createPattern({ id: "slsm-003", pattern: "ENOSPC", title: "Disk full", status: "active" }),
+      createPattern({ id: "slsm-004", pattern: "ENOSPC", title: "Disk full (retired)", status: "archived" }),
+    ],
+  };
+
+  const results = await retrievePatterns(lifecycle, "ENOSPC: no space left on device", 10, { embeddings });
+  expect(results.map(r => r.pattern.id).sort()).toEqual(["slsm-001", "slsm-003"]);
+
+  const deprecated = toRetrievalSummary(results.find(r => r.pattern.id === "slsm-001")!);
+  expect(deprecated.status).toBe("deprecated");
+  expect(deprecated.superseded_by).toBe("slsm-003");
+
+  const all = await retrievePatterns(lifecycle, "ENOSPC", 10, { statuses: ["draft", "archived"], embeddings });
+  expect(all.map(r => r.pattern.id).sort()).toEqual(["slsm-002", "slsm-004"]);
+});
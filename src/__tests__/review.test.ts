@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+import { Command } from "commander";
+import { reviewCommand } from "../cli/review.js";
+import { createPattern, loadPlaybook, savePlaybook } from "../core/playbook.js";
+import {
+  enqueueCandidates,
+  loadReviewQueue,
+  mergeCandidate,
+  rejectCandidate,
+  updateReviewQueue,
+  type Proposal,
+} from "../core/review.js";
+
+let tempDir = "";
+let playbookDir = "";
+let playbookPath = "";
+let reviewPath = "";
+let dirExisted = false;
+let playbookBackup: string | null = null;
+let reviewBackup: string | null = null;
+
+async function captureLogsAsync<T>(fn: () => Promise<T>): Promise<{ output: string; result: T }> {
+  const logs: string[] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map(String).join(" "));
+  };
+
+  try {
+    const result = await fn();
+    return { output: logs.join("\n"), result };
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+async function runJson(...args: string[]) {
+  const program = new Command();
+  program.option("--json");
+  program.addCommand(reviewCommand);
+
+  const { output } = await captureLogsAsync(() =>
+    program.parseAsync(["node", "slsm", "--json", "review", ...args])
+  );
+  return JSON.parse(output);
+}
+
+function proposal(fingerprint: string, examples: string[], occurrences = 3): Proposal {
+  return {
+    pattern: createPattern({ fingerprint, pattern: `^${fingerprint}$`, title: fingerprint, symptoms: examples }),
+    template: fingerprint,
+    occurrences,
+    examples,
+    first_seen: "2026-01-01T00:00:00.000Z",
+    last_seen: "2026-01-02T00:00:00.000Z",
+  };
+}
+
+beforeEach(() => {
+  tempDir = mkdtempSync(join(os.tmpdir(), "slsm-review-"));
+  playbookDir = join(os.homedir(), ".sls-memory");
+  playbookPath = join(playbookDir, "playbook.yaml");
+  reviewPath = join(playbookDir, "review.yaml");
+  dirExisted = existsSync(playbookDir);
+  playbookBackup = existsSync(playbookPath) ? readFileSync(playbookPath, "utf-8") : null;
+  reviewBackup = existsSync(reviewPath) ? readFileSync(reviewPath, "utf-8") : null;
+  rmSync(reviewPath, { force: true });
+
+  savePlaybook({
+    patterns: [
+      createPattern({
+        id: "slsm-001",
+        fingerprint: "disk-full",
+        pattern: "ENOSPC",
+        category: "filesystem",
+        title: "Disk full",
+        symptoms: ["ENOSPC: no space left on device"],
+      }),
+    ],
+  }, playbookPath);
+});
+
+afterEach(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+  for (const [filePath, backup] of [[playbookPath, playbookBackup], [reviewPath, reviewBackup]] as const) {
+    if (backup !== null) {
+      mkdirSync(playbookDir, { recursive: true });
+      writeFileSync(filePath, backup, "utf-8");
+    } else {
+      rmSync(filePath, { force: true });
+    }
+  }
+  if (!dirExisted) {
+    rmSync(playbookDir, { recursive: true, force: true });
+  }
+});
+
+test("enqueueCandidates refreshes pending fingerprints and skips rejected ones", () => {
+  const queuePath = join(tempDir, "review.yaml");
+
+  const first = updateReviewQueue(queue => enqueueCandidates(queue, [
+    proposal("quota exceeded for <*>", ["quota exceeded for alice"]),
+    proposal("lock timeout", ["lock timeout"]),
+  ]), queuePath);
+  expect(first.queued.map(c => c.id)).toEqual(["cand-001", "cand-002"]);
+
+  updateReviewQueue(queue => rejectCandidate(queue, "cand-002", "noise"), queuePath);
+
+  const second = updateReviewQueue(queue => enqueueCandidates(queue, [
+    proposal("quota exceeded for <*>", ["quota exceeded for bob"], 7),
+    proposal("lock timeout", ["lock timeout"]),
+  ]), queuePath);
+  expect(second.queued.map(c => c.id)).toEqual(["cand-001"]);
+  expect(second.rejected).toEqual(["lock timeout"]);
+
+  const queue = loadReviewQueue(queuePath);
+  expect(queue.candidates).toHaveLength(1);
+  expect(queue.candidates[0].occurrences).toBe(7);
+  expect(queue.rejected).toEqual([
+    { fingerprint: "lock timeout", rejected_at: expect.any(String), reason: "noise" },
+  ]);
+});
+
+test("mergeCandidate widens the target regex only when it misses the examples", () => {
+  const target = createPattern({ pattern: "ENOSPC", symptoms: ["ENOSPC: no space left on device"] });
+
+  const covered = { id: "cand-001", ...proposal("enospc", ["ENOSPC: write failed"]), proposed_at: "" };
+  mergeCandidate(covered, target);
+  expect(target.pattern).toBe("ENOSPC");
+  expect(target.symptoms).toEqual(["ENOSPC: no space left on device", "ENOSPC: write failed"]);
+
+  const missed = { id: "cand-002", ...proposal("disk quota exceeded", ["disk quota exceeded"]), proposed_at: "" };
+  mergeCandidate(missed, target);
+  expect(target.pattern).toBe("(?:ENOSPC)|(?:^disk quota exceeded$)");
+});
+
+test("review accept moves a candidate into the playbook", async () => {
+  updateReviewQueue(queue => enqueueCandidates(queue, [proposal("lock timeout", ["lock timeout"])]));
+
+  const list = await runJson("list");
+  expect(list.candidates.map((c: { id: string }) => c.id)).toEqual(["cand-001"]);
+
+  const accepted = await runJson("accept", "cand-001");
+  expect(accepted.success).toBe(true);
+  expect(accepted.id).toBe("slsm-002");
+
+  expect(loadPlaybook().patterns.map(p => p.fingerprint)).toEqual(["disk-full", "lock timeout"]);
+  expect(loadReviewQueue().candidates).toEqual([]);
+});
+
+test("review merge and reject empty the queue", async () => {
+  updateReviewQueue(queue => enqueueCandidates(queue, [
+    proposal("ENOSPC: write failed", ["ENOSPC: write failed"]),
+    proposal("lock timeout", ["lock timeout"]),
+  ]));
+
+  const merged = await runJson("merge", "cand-001", "slsm-001");
+  expect(merged.success).toBe(true);
+  expect(merged.symptoms).toContain("ENOSPC: write failed");
+
+  const rejected = await runJson("reject", "cand-002");
+  expect(rejected.fingerprint).toBe("lock timeout");
+
+  const queue = loadReviewQueue();
+  expect(queue.candidates).toEqual([]);
+  expect(queue.rejected.map(r => r.fingerprint)).toEqual(["lock timeout"]);
+  expect(loadPlaybook().patterns).toHaveLength(1);
+});
@@ -0,0 +1,95 @@
+import { expect, test } from "bun:test";
+import { analyzeRegex, compileRegex, MAX_REGEX_INPUT, SafeRegex } from "../core/safe-regex.js";
+
+test("analyzeRegex flags ambiguous repetition", () => {
+  const levels = (source: string) => analyzeRegex(source).map(r => r.level);
+
+  expect(levels("(a+)+$")).toEqual(["error"]);
+  expect(levels("^(\\s*\\w+\\s*)+$")).toEqual(["error"]);
+  expect(levels("(.*,)*x")).toEqual(["error"]);
+  expect(levels("(\\w|\\d)+")).toEqual(["error"]);
+  expect(levels("(?:.|\\s)*END")).toEqual(["error"]);
+  expect(levels("\\d+\\d*x")).toEqual(["warning"]);
+
+  // Repetition that can only match one way
+  expect(levels("ECONNREFUSED.*:5432")).toEqual([]);
+  expect(levels("v(\\.\\d+)+")).toEqual([]);
+  expect(levels("([a-z]+-)+\\d")).toEqual([]);
+  expect(levels("(?:timeout|refused)+")).toEqual([]);
+  expect(levels("(unclosed")).toEqual([]);
+});
+
+test("unsafe regexes run in linear time on the fallback engine", () => {
+  const regex = new SafeRegex("^(a+)+$", "i");
+  expect(regex.usesLinearEngine).toBe(true);
+
+  const started = performance.now();
+  expect(regex.test("a".repeat(5000) + "!")).toBe(false);
+  expect(performance.now() - started).toBeLessThan(1000);
+  expect(regex.exec("AAA")).toEqual({ index: 0, length: 3 });
+
+  // Flagged regexes the engine can't run never match
+  expect(new SafeRegex("(a+)+\\1").test("aa")).toBe(false);
+});
+
+test("ambiguous regexes the analysis misses still run in linear time", () => {
+  const cases: [string, string][] = [
+    ["(a|aa)+$", "a".repeat(5000) + "!"],
+    ["^(a|ab|b)*c$", "ab".repeat(2500)],
+  ];
+  for (const [source, text] of cases) {
+    const regex = new SafeRegex(source);
+    expect(regex.usesLinearEngine).toBe(true);
+
+    const started = performance.now();
+    expect(regex.test(text)).toBe(false);
+    expect(performance.now() - started).toBeLessThan(1000);
+  }
+  expect(new SafeRegex("^(a|ab|b)*c$").test("ababc")).toBe(true);
+});
+
+test("regexes the fallback engine can't run match natively with a timeout", () => {
+  const lookbehind = new SafeRegex("(?<=port )\\d+");
+  expect(lookbehind.usesLinearEngine).toBe(false);
+  expect(lookbehind.exec("listen on port 8080")).toEqual({ index: 15, length: 4 });
+
+  // Slips past analyzeRegex, but needs backtracking for the backreference
+  const slow = new SafeRegex("^(a|aa)+\\1$");
+  expect(slow.risks).toEqual([]);
+  const started = performance.now();
+  expect(slow.test("a".repeat(40) + "!")).toBe(false);
+  expect(performance.now() - started).toBeLessThan(2000);
+  expect(slow.test("aa")).toBe(false);
+});
+
+test("the fallback engine agrees with RegExp", () => {
+  const cases: [string, string, string?][] = [
+    ["b(o+)m", "a boom b"],
+    ["\\bfoo\\b|bar", "xfoo bar"],
+    ["a{2,3}", "aaaa"],
+    ["[^x]+", "xxabcx"],
+    ["$", "ab"],
+    ["ECONNREFUSED .*:5432", "connect ECONNREFUSED 127.0.0.1:5432"],
+    ["(?<code>E[A-Z]+)", "code: ENOENT"],
+    ["^at .+$", "Error\nat main.js:1\nat node:internal", "m"],
+    ["error.+failed", "Error:\nrequest FAILED", "is"],
+    ["[.]+", "a\n..", "s"],
+    ["a|ab", "xab"],
+    ["(?:a|ab)(?:c|bcd)", "abcd"],
+    ["a+?b*?", "aaabb"],
+    ["x{1,3}?y?", "xxxy"],
+    ["<.*?>", "<a><b>"],
+  ];
+  for (const [source, text, flags] of cases) {
+    const linear = new SafeRegex(source, flags);
+    expect(linear.usesLinearEngine).toBe(true);
+    const native = new RegExp(source, flags).exec(text);
+    expect(linear.exec(text)).toEqual(native && { index: native.index, length: native[0].length });
+  }
+});
+
+test("compileRegex caches, caps input and returns null for invalid regexes", () => {
+  expect(compileRegex("x$", "i")).toBe(compileRegex("x$", "i"));
+  expect(compileRegex("(")).toBeNull();
+  expect(compileRegex("x$")!.test("a".repeat(MAX_REGEX_INPUT) + "x")).toBe(false);
+});
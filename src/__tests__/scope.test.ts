@@ -0,0 +1,67 @@
+import { expect, test } from "bun:test";
+import * as os from "os";
+import { findMatchingPatterns } from "../core/matching.js";
+import { createPattern, type Playbook } from "../core/playbook.js";
+import { globToRegExp, matchScope } from "../core/scope.js";
+
+test("globToRegExp handles *, ** and ~", () => {
+  expect(globToRegExp("api-*").test("api-gateway")).toBe(true);
+  expect(globToRegExp("api-*").test("web")).toBe(false);
+  expect(globToRegExp("/srv/*/app").test("/srv/one/app")).toBe(true);
+  expect(globToRegExp("/srv/*/app").test("/srv/one/two/app")).toBe(false);
+  expect(globToRegExp("/srv/**/app").test("/srv/one/two/app")).toBe(true);
+  expect(globToRegExp("/srv/**/app").test("/srv/app")).toBe(true);
+  // The segment after `**/` must match whole
+  expect(globToRegExp("/srv/**/api").test("/srv/myapi")).toBe(false);
+  expect(globToRegExp("/srv/**/api").test("/srv/legacy-api")).toBe(false);
+  expect(globToRegExp("/srv/**/api").test("/srv/old/legacy-api")).toBe(false);
+  expect(globToRegExp("/srv/**").test("/srv/one/two")).toBe(true);
+  expect(globToRegExp("~/code").test(`${os.homedir()}/code`)).toBe(true);
+});
+
+test("matchScope excludes other scopes and boosts matching ones", () => {
+  const scoped = createPattern({ id: "slsm-001", services: ["postgres"], workspaces: ["/work/billing"] });
+
+  const inScope = matchScope(scoped, { service: "Postgres", workspace: "/work/billing/src" });
+  expect(inScope.excluded).toBe(false);
+  expect(inScope.matched).toEqual(["service", "workspace"]);
+  expect(inScope.boost).toBeGreaterThan(1);
+
+  expect(matchScope(scoped, { workspace: "/work/search" }).excluded).toBe(true);
+  expect(matchScope(scoped, { service: "mysql" }).excluded).toBe(true);
+
+  // Dimensions the query doesn't specify don't exclude, unless it says so
+  expect(matchScope(scoped, {}).excluded).toBe(false);
+  expect(matchScope(scoped, { service: "postgres", excludeUnset: ["workspace"] }).excluded).toBe(true);
+  expect(matchScope(createPattern({ id: "slsm-003", services: ["postgres"] }), { excludeUnset: ["workspace"] }).excluded).toBe(false);
+
+  const global = matchScope(createPattern({ id: "slsm-002" }), { service: "postgres", workspace: "/work/search" });
+  expect(global).toEqual({ excluded: false, boost: 1, matched: [] });
+});
+
+test("findMatchingPatterns applies scope before the limit", () => {
+  const otherRepos = Array.from({ length: 5 }, (_, i) =>
+    createPattern({
+      id: `slsm-00${i + 1}`,
+      pattern: "ECONNREFUSED",
+      title: `Connection refused in repo ${i}`,
+      workspaces: [`/work/other-${i}`],
+    })
+  );
+  const playbook: Playbook = {
+    patterns: [
+      ...otherRepos,
+      createPattern({ id: "slsm-010", pattern: "ECONNREFUSED", title: "Any connection refused" }),
+      createPattern({ id: "slsm-011", pattern: "ECONNREFUSED", title: "Billing DB refused", workspaces: ["/work/billing"] }),
+    ],
+  };
+
+  const results = findMatchingPatterns(playbook, "connect ECONNREFUSED 127.0.0.1:5432", 2, {
+    scope: { workspace: "/work/billing" },
+  });
+
+  // The repo's own pattern ranks first, the unscoped one is the fallback
+  expect(results.map(r => r.pattern.id)).toEqual(["slsm-011", "slsm-010"]);
+  expect(results[0].matchedScope).toEqual(["workspace"]);
+  expect(results[1].matchedScope).toEqual([]);
+});
@@ -0,0 +1,185 @@
+import { expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import * as os from "os";
+import { join } from "path";
+import { EmbeddingsManager } from "../core/embeddings.js";
+import { createPattern, validatePattern, type Playbook } from "../core/playbook.js";
+import { retrievePatterns } from "../core/retrieval.js";
+import { formatFrame, matchTrace, parseStackTrace, projectFrames } from "../core/stacktrace.js";
+
+const nodeTrace = `/app/src/users.js:12
+    return user.profile.name;
+                        ^
+
+TypeError: Cannot read properties of undefined (reading 'name')
+    at displayName (/app/src/users.js:12:25)
+    at Array.map (<anonymous>)
+    at renderList (/app/src/render.js:40:18)
+    at Layer.handle [as handle_request] (/app/node_modules/express/lib/router/layer.js:95:5)
+    at process.processTicksAndRejections (node:internal/process/task_queues:95:5) {
+  [cause]: Error: profile lookup failed
+      at loadProfile (/app/src/profiles.js:8:11)
+}`;
+
+const pythonTrace = `Traceback (most recent call last):
+  File "/app/db.py", line 10, in connect
+    return pool.get()
+  File "/usr/lib/python3.11/site-packages/psycopg/pool.py", line 88, in get
+    raise PoolTimeout()
+psycopg.pool.PoolTimeout: couldn't get a connection after 30.00 sec
+
+The above exception was the direct cause of the following exception:
+
+Traceback (most recent call last):
+  File "/app/main.py", line 5, in <module>
+    handle()
+  File "/app/handlers.py", line 22, in handle
+    db.connect()
+RuntimeError: database unavailable`;
+
+const jvmTrace = `Exception in thread "main" java.lang.IllegalStateException: Failed to start
+\tat com.acme.App.start(App.java:42)
+\tat com.acme.App.main(App.java:12)
+\tat java.base/java.lang.Thread.run(Thread.java:833)
+Caused by: java.net.ConnectException: Connection refused
+\tat java.base/sun.nio.ch.Net.connect0(Native Method)
+\tat com.acme.db.Pool.open(Pool.java:77)
+\t... 2 more`;
+
+const goTrace = `panic: runtime error: invalid memory address or nil pointer dereference
+[signal SIGSEGV: segmentation violation code=0x1 addr=0x0 pc=0x48f0a3]
+
+goroutine 1 [running]:
+main.(*Server).handle(0x0, {0xc000012345, 0x5})
+\t/home/dev/app/server.go:27 +0x23
+main.main()
+\t/home/dev/app/main.go:9 +0x1d
+exit status 2`;
+
+const rustTrace = `thread 'main' panicked at src/config.rs:18:10:
+called \`Result::unwrap()\` on an \`Err\` value: Os { code: 2, kind: NotFound, message: "No such file or directory" }
+stack backtrace:
+   0: rust_begin_unwind
+             at /rustc/90c541806f23a127002de5b4038be731ba1458ca/library/std/src/panicking.rs:645:5
+   1: app::config::load
+             at ./src/config.rs:18:10
+   2: app::main
+             at ./src/main.rs:4:5
+note: Some details are omitted, run with \`RUST_BACKTRACE=full\` for a verbose backtrace.`;
+
+test("parseStackTrace reads Node traces and their causes", () => {
+  const trace = parseStackTrace(nodeTrace)!;
+
+  expect(trace.runtime).toBe("node");
+  expect(trace.type).toBe("TypeError");
+  expect(trace.message).toBe("Cannot read properties of undefined (reading 'name')");
+  expect(projectFrames(trace).map(formatFrame)).toEqual([
+    "displayName (/app/src/users.js:12)",
+    "renderList (/app/src/render.js:40)",
+  ]);
+  expect(trace.causes).toEqual([{ type: "Error", message: "profile lookup failed" }]);
+});
+
+test("parseStackTrace reads chained Python tracebacks", () => {
+  const trace = parseStackTrace(pythonTrace)!;
+
+  expect(trace.runtime).toBe("python");
+  expect(trace.type).toBe("RuntimeError");
+  expect(trace.message).toBe("database unavailable");
+  expect(projectFrames(trace).map(f => f.function)).toEqual(["handle", "<module>"]);
+  expect(trace.causes).toEqual([
+    { type: "psycopg.pool.PoolTimeout", message: "couldn't get a connection after 30.00 sec" },
+  ]);
+});
+
+test("parseStackTrace reads JVM traces", () => {
+  const trace = parseStackTrace(jvmTrace)!;
+
+  expect(trace.runtime).toBe("jvm");
+  expect(trace.type).toBe("java.lang.IllegalStateException");
+  expect(trace.message).toBe("Failed to start");
+  expect(projectFrames(trace).map(formatFrame)).toEqual(["com.acme.App.start (App.java:42)", "com.acme.App.main (App.java:12)"]);
+  expect(trace.causes).toEqual([{ type: "java.net.ConnectException", message: "Connection refused" }]);
+});
+
+test("parseStackTrace reads Go and Rust panics", () => {
+  const go = parseStackTrace(goTrace)!;
+  expect(go.runtime).toBe("go");
+  expect(go.type).toBe("runtime error");
+  expect(go.message).toBe("invalid memory address or nil pointer dereference");
+  expect(formatFrame(projectFrames(go)[0])).toBe("main.(*Server).handle (/home/dev/app/server.go:27)");
+
+  const rust = parseStackTrace(rustTrace)!;
+  expect(rust.runtime).toBe("rust");
+  expect(rust.type).toBe("panic");
+  expect(rust.message).toContain("called `Result::unwrap()` on an `Err` value");
+  expect(projectFrames(rust).map(formatFrame)).toEqual([
+    "src/config.rs:18",
+    "app::config::load (./src/config.rs:18)",
+    "app::main (./src/main.rs:4)",
+  ]);
+});
+
+test("parseStackTrace ignores plain messages", () => {
+  expect(parseStackTrace("connect ECONNREFUSED 127.0.0.1:5432")).toBeNull();
+  expect(parseStackTrace("Error: ENOSPC: no space left on device")).toBeNull();
+});
+
+test("matchTrace scores exception types and frames", () => {
+  const trace = parseStackTrace(jvmTrace)!;
+
+  const both = matchTrace(createPattern({ exception_type: "IllegalStateException", frame: "App\\.start" }), trace);
+  expect(both).toEqual({ score: 1, matched: ["exception_type", "frame"] });
+
+  const cause = matchTrace(createPattern({ exception_type: "ConnectException" }), trace)!;
+  expect(cause.matched).toEqual(["exception_type"]);
+  expect(cause.score).toBeLessThan(1);
+
+  const partial = matchTrace(createPattern({ exception_type: "IllegalStateException", frame: "Scheduler" }), trace)!;
+  expect(partial.score).toBe(0.5);
+
+  expect(matchTrace(createPattern({ exception_type: "NullPointerException" }), trace)).toBeNull();
+  expect(matchTrace(createPattern({}), trace)).toBeNull();
+});
+
+test("validatePattern checks trace matchers", () => {
+  const pattern = { ...createPattern({ id: "slsm-001", fingerprint: "a", pattern: "x", title: "X", category: "general" }) };
+
+  expect(validatePattern({ ...pattern, exception_type: "TypeError", frame: "users\\.js" }, 0)).toEqual([]);
+  expect(validatePattern({ ...pattern, exception_type: "" }, 0).map(e => e.path)).toEqual(["patterns[0].exception_type"]);
+  expect(validatePattern({ ...pattern, frame: "(unclosed" }, 0).map(e => e.message)).toEqual(["Invalid frame regex"]);
+});
+
+test("retrievePatterns ranks patterns by their trace matchers", async () => {
+  const playbook: Playbook = {
+    patterns: [
+      createPattern({
+        id: "slsm-001",
+        pattern: "Cannot read properties of undefined",
+        title: "Undefined property access",
+        category: "runtime",
+      }),
+      createPattern({
+        id: "slsm-002",
+        pattern: "Cannot read properties of undefined",
+        title: "User without a profile",
+        category: "runtime",
+        exception_type: "TypeError",
+        frame: "displayName",
+      }),
+    ],
+  };
+
+  const tmpDir = mkdtempSync(join(os.tmpdir(), "slsm-stacktrace-"));
+  const embeddings = new EmbeddingsManager(join(tmpDir, "embeddings.db"));
+  const results = await retrievePatterns(playbook, nodeTrace, 5, { minConfidence: 0, embeddings });
+  embeddings.close();
+  rmSync(tmpDir, { recursive: true, force: true });
+
+  expect(results[0].pattern.id).toBe("slsm-002");
+  expect(results[0].matchedTrace).toEqual(["exception_type", "frame"]);
+  expect(results[0].signals.trace).toBe(1);
+  // The regex is matched against the exception, not the whole trace
+  expect(results[1].signals.regex).toBeGreaterThan(0.3);
+  expect(results[1].signals.trace).toBeNull();
+});
@@ -0,0 +1,46 @@
+import { expect, test } from "bun:test";
+import { synthesizeRegex } from "../core/synthesis.js";
+
+function matches(regex: string, message: string): boolean {
+  return new RegExp(regex, "i").test(message);
+}
+
+test("synthesizeRegex generalizes masked values and varying words", () => {
+  expect(synthesizeRegex([
+    "connect ECONNREFUSED 127.0.0.1:5432",
+    "connect ECONNREFUSED 10.0.0.3:6379",
+  ])).toBe("^connect\\s+ECONNREFUSED\\s+\\d{1,3}(?:\\.\\d{1,3}){3}:\\d+$");
+
+  const regex = synthesizeRegex(["permission denied for user alice", "permission denied for user bob"]);
+  expect(regex).toBe("^permission\\s+denied\\s+for\\s+user\\s+\\S+$");
+  expect(matches(regex, "permission denied for user carol")).toBe(true);
+  expect(matches(regex, "permission granted for user carol")).toBe(false);
+});
+
+test("synthesizeRegex leaves gaps where examples differ in length", () => {
+  const examples = ["Error: disk full on /dev/sda1", "Error: disk full on volume data (retrying)"];
+  const regex = synthesizeRegex(examples);
+
+  expect(regex).toBe("^Error:\\s+disk\\s+full\\s+on(?:\\s.*)?$");
+  for (const example of examples) {
+    expect(matches(regex, example)).toBe(true);
+  }
+});
+
+test("synthesizeRegex escapes literal text without truncating it", () => {
+  const message = "(foo) [bar] costs $5.00? see https://example.com/a+b";
+  const regex = synthesizeRegex([message]);
+  expect(matches(regex, message)).toBe(true);
+  expect(regex.startsWith("^\\(foo\\)\\s+\\[bar\\]")).toBe(true);
+});
+
+test("synthesizeRegex narrows the regex to exclude negatives", () => {
+  const positives = ["permission denied for user alice", "permission denied for user bob"];
+
+  expect(synthesizeRegex(positives, ["permission denied for user root"]))
+    .toBe("^permission\\s+denied\\s+for\\s+user\\s+(?:alice|bob)$");
+  expect(synthesizeRegex(["a", "b"])).toBe("^(?:a|b)$");
+
+  expect(() => synthesizeRegex([])).toThrow("At least one example");
+  expect(() => synthesizeRegex(positives, ["Permission denied for user alice"])).toThrow("both a positive and a negative");
+});
@@ -0,0 +1,46 @@
+import { expect, test } from "bun:test";
+import { TemplateMiner, templateText, templateToRegex, tokenizeMessage } from "../core/templates.js";
+
+test("tokenizeMessage masks obvious variables", () => {
+  expect(tokenizeMessage("connect ECONNREFUSED 10.0.0.12:5432")).toEqual(["connect", "ECONNREFUSED", "<ip>:<port>"]);
+  expect(tokenizeMessage("ENOENT: no such file or directory, open '/srv/app/config.json'")).toEqual([
+    "ENOENT:", "no", "such", "file", "or", "directory,", "open", "'<str>'",
+  ]);
+  expect(tokenizeMessage("job 7f3c9a2be1d04f56 failed after 30s")).toEqual(["job", "<hex>", "failed", "after", "<num>"]);
+  expect(tokenizeMessage("request 123e4567-e89b-12d3-a456-426614174000 can't be retried")).toEqual([
+    "request", "<uuid>", "can't", "be", "retried",
+  ]);
+});
+
+test("TemplateMiner turns disagreeing tokens into wildcards", () => {
+  const miner = new TemplateMiner();
+  const alice = miner.add("permission denied for user alice");
+  const bob = miner.add("permission denied for user bob", 4);
+  miner.add("connection reset by peer");
+  miner.add("connection refused by db");
+
+  expect(bob.id).toBe(alice.id);
+  expect(templateText(bob)).toBe("permission denied for user <*>");
+  expect(bob.count).toBe(5);
+  expect(miner.clusters.map(templateText)).toEqual([
+    "permission denied for user <*>",
+    "connection reset by peer",
+    "connection refused by db",
+  ]);
+});
+
+test("templateToRegex matches every message of the template", () => {
+  const messages = [
+    "connect ECONNREFUSED 127.0.0.1:5432",
+    "connect ECONNREFUSED 10.1.2.3:6379",
+  ];
+  const miner = new TemplateMiner();
+  const cluster = messages.map(message => miner.add(message))[0];
+
+  const regex = new RegExp(templateToRegex(templateText(cluster)));
+  expect(templateText(cluster)).toBe("connect ECONNREFUSED <ip>:<port>");
+  for (const message of messages) {
+    expect(regex.test(message)).toBe(true);
+  }
+  expect(regex.test("connect ETIMEDOUT 127.0.0.1:5432")).toBe(false);
+});
@@ -3,56 +3,97 @@
  */
 
 import { Command } from 'commander';
-import { loadPlaybook } from '../core/playbook.js';
-import { findMatchingPatterns } from '../core/matching.js';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPlaybook, getPatternLayer, findPatternById, PATTERN_STATUSES, type PatternStatus } from '../core/playbook.js';
+import { rankFixes, rankRootCauses } from '../core/matching.js';
+import { retrievePatterns, toRetrievalSummary } from '../core/retrieval.js';
+import { parseStackTrace, toTraceSummary } from '../core/stacktrace.js';
+import type { Feedback } from '../core/playbook.js';
+
+function formatSuccess(rate: number | null, feedback: Feedback | undefined): string {
+  if (rate === null || !feedback) {
+    return '';
+  }
+  const votes = feedback.helpful + feedback.harmful;
+  return ` (${(rate * 100).toFixed(0)}% success, ${votes} vote${votes === 1 ? '' : 's'})`;
+}
 
 export const contextCommand = new Command('context')
   .description('Get known fixes for an error')
   .argument('<error>', 'Error message to look up')
-  .option('--service <service>', 'Filter by service name')
-  .option('--workspace <workspace>', 'Filter by workspace path')
+  .option('--service <service>', 'Service the error came from')
+  .option('--workspace <path>', 'Workspace the error came from (default: current directory)')
+  .option('--host <host>', 'Host the error came from (default: this machine)')
   .option('-l, --limit <n>', 'Maximum patterns to return', '5')
-  .action(async (error: string, options: { service?: string; workspace?: string; limit?: string }) => {
+  .option('--include-harmful', 'Include patterns whose feedback is mostly harmful')
+  .option('--status <statuses>', 'Comma-separated lifecycle states to match (default: active,deprecated)')
+  .action(async (error: string, options: { service?: string; workspace?: string; host?: string; limit?: string; includeHarmful?: boolean; status?: string }) => {
     const parent = contextCommand.parent;
     const jsonOutput = parent?.opts().json || parent?.opts().robot;
     const limit = parseInt(options.limit || '5', 10);
 
+    let statuses: PatternStatus[] | undefined;
+    if (options.status !== undefined) {
+      statuses = options.status.split(',').map(s => s.trim()) as PatternStatus[];
+      const unknown = statuses.filter(s => !PATTERN_STATUSES.includes(s));
+      if (unknown.length > 0) {
+        const message = `Unknown status ${unknown.join(', ')}; expected ${PATTERN_STATUSES.join(', ')}`;
+        if (jsonOutput) {
+          console.log(JSON.stringify({ success: false, error: message }, null, 2));
+        } else {
+          console.error(`Error: ${message}`);
+        }
+        process.exit(1);
+      }
+    }
+
+    // Patterns scoped to other services, workspaces or hosts are skipped
+    const scope = {
+      service: options.service,
+      workspace: path.resolve(options.workspace || process.cwd()),
+      host: options.host || os.hostname(),
+    };
+
+    const trace = parseStackTrace(error);
+
     // Load playbook and find matching patterns
     const playbook = loadPlaybook();
-    let results = findMatchingPatterns(playbook, error, limit);
-
-    // Filter by category if service is specified
-    if (options.service) {
-      results = results.filter(r =>
-        r.pattern.category.toLowerCase().includes(options.service!.toLowerCase())
-      );
-    }
+    const results = await retrievePatterns(playbook, error, limit, {
+      includeHarmful: options.includeHarmful,
+      scope,
+      statuses,
+    });
 
     if (jsonOutput) {
       // JSON output for agent consumption
       const output = {
         success: true,
         query: error,
+        scope,
+        trace: trace ? toTraceSummary(trace) : null,
         matchCount: results.length,
-        patterns: results.map(r => ({
-          id: r.pattern.id,
-          title: r.pattern.title,
-          score: r.score,
-          severity: r.pattern.severity,
-          category: r.pattern.category,
-          symptoms: r.pattern.symptoms,
-          root_causes: r.pattern.root_causes,
-          fixes: r.pattern.fixes,
-          feedback: r.pattern.feedback,
-        })),
+        patterns: results.map(toRetrievalSummary),
       };
       console.log(JSON.stringify(output, null, 2));
     } else {
       // Human-readable output
-      console.log(`Looking up: "${error}"`);
+      if (trace) {
+        const summary = toTraceSummary(trace);
+        console.log(`Looking up ${summary.runtime} stack trace: ${[summary.type, summary.message].filter(Boolean).join(': ')}`);
+        for (const frame of summary.frames) {
+          console.log(`  at ${frame}`);
+        }
+        for (const cause of summary.causes) {
+          console.log(`  Caused by: ${[cause.type, cause.message].filter(Boolean).join(': ')}`);
+        }
+      } else {
+        console.log(`Looking up: "${error}"`);
+      }
       if (options.service) {
-        console.log(`  Service filter: ${options.service}`);
+        console.log(`  Service: ${options.service}`);
       }
+      console.log(`  Workspace: ${scope.workspace}`);
       console.log();
 
       if (results.length === 0) {
@@ -68,21 +109,40 @@ export const contextCommand = new Command('context')
         const severityIcon = p.severity === 'high' ? '!' : p.severity === 'medium' ? '*' : '-';
 
         console.log(`[${severityIcon}] ${p.id}: ${p.title}`);
-        console.log(`    Category: ${p.category} | Score: ${result.score.toFixed(0)}%`);
+        console.log(`    Category: ${p.category} | Confidence: ${result.score.toFixed(0)}% | Layer: ${getPatternLayer(p)?.name ?? 'user'}`);
+        if (p.status && p.status !== 'active') {
+          const replacement = p.superseded_by ? findPatternById(playbook, p.superseded_by) : undefined;
+          const replacedBy = p.superseded_by
+            ? `; use ${replacement ? `${replacement.id}: ${replacement.title}` : p.superseded_by} instead`
+            : '';
+          console.log(`    Status: ${p.status}${replacedBy}`);
+        }
+        if (result.matchedScope.length > 0) {
+          console.log(`    Scoped to this ${result.matchedScope.join(', ')}`);
+        }
+        // Only worth saying for patterns with several regexes
+        if (p.match && result.matchedClauses.length > 0) {
+          console.log(`    Matched ${result.matchedClauses.join(', ')}`);
+        }
+        if (result.matchedTrace.length > 0) {
+          console.log(`    Matched trace ${result.matchedTrace.map(m => m.replace('_', ' ')).join(', ')}`);
+        }
 
+        // Causes and fixes are listed best-working first, labelled with the
+        // position to pass to `slsm mark --cause/--fix`
         if (p.root_causes.length > 0) {
           console.log(`    Root causes:`);
-          for (const cause of p.root_causes) {
-            console.log(`      - ${cause}`);
+          for (const cause of rankRootCauses(p)) {
+            console.log(`      ${cause.index}. ${cause.cause}${formatSuccess(cause.successRate, cause.feedback)}`);
           }
         }
 
         if (p.fixes.length > 0) {
           console.log(`    Fixes:`);
-          for (const fix of p.fixes) {
-            console.log(`      ${fix.step}`);
+          for (const fix of rankFixes(p)) {
+            console.log(`      ${fix.index}. ${fix.step}${formatSuccess(fix.successRate, fix.feedback)}`);
             if (fix.command) {
-              console.log(`        $ ${fix.command}`);
+              console.log(`         $ ${fix.command}`);
             }
           }
         }
@@ -0,0 +1,186 @@
+/**
+ * slsm feedback - Inspect the feedback event log
+ */
+
+import { Command } from 'commander';
+import { loadPlaybook, loadPlaybookFile, updatePlaybook, findPatternById, type Playbook } from '../core/playbook.js';
+import {
+  FeedbackLog,
+  rebuildFeedbackCounters,
+  type CounterChange,
+  type CounterRef,
+  type FeedbackEvent,
+} from '../core/feedback.js';
+import { getPlaybookLayers } from '../core/layers.js';
+
+function isJsonOutput(): boolean {
+  const parent = feedbackCommand.parent;
+  return Boolean(parent?.opts().json || parent?.opts().robot);
+}
+
+function toJson(event: FeedbackEvent) {
+  return {
+    id: event.id,
+    patternId: event.patternId,
+    verdict: event.verdict,
+    reason: event.reason,
+    query: event.query,
+    fix: event.fix,
+    cause: event.cause,
+    source: event.source,
+    timestamp: new Date(event.timestamp * 1000).toISOString(),
+  };
+}
+
+function counterLabel(ref: CounterRef): string {
+  const target = ref.fix !== undefined ? ` fix ${ref.fix}` : ref.cause !== undefined ? ` cause ${ref.cause}` : '';
+  return `${ref.patternId}${target}`;
+}
+
+function printEvent(event: FeedbackEvent, showPattern: boolean): void {
+  const when = new Date(event.timestamp * 1000).toLocaleString();
+  const icon = event.verdict === 'helpful' ? '+' : '-';
+  const subject = showPattern ? `${event.patternId} ` : '';
+
+  const targets = [
+    event.fix !== null ? `fix ${event.fix}` : null,
+    event.cause !== null ? `cause ${event.cause}` : null,
+  ].filter(Boolean);
+  const target = targets.length > 0 ? ` (${targets.join(', ')})` : '';
+
+  console.log(`[${icon}] ${subject}${event.verdict}${target} via ${event.source} at ${when}`);
+  if (event.reason) {
+    console.log(`    Reason: ${event.reason}`);
+  }
+  if (event.query) {
+    console.log(`    Query: ${event.query}`);
+  }
+}
+
+export const feedbackCommand = new Command('feedback')
+  .description('Inspect recorded feedback');
+
+feedbackCommand
+  .command('history')
+  .description('Show feedback events for a pattern')
+  .argument('<id>', 'Pattern ID')
+  .option('-l, --limit <n>', 'Maximum events to show', '50')
+  .action(async (id: string, options: { limit: string }) => {
+    const jsonOutput = isJsonOutput();
+    const limit = parseInt(options.limit, 10);
+
+    // Resolve aliases so history follows renumbered patterns
+    const pattern = findPatternById(loadPlaybook(), id);
+    const patternId = pattern?.id ?? id;
+
+    const log = new FeedbackLog();
+    const events = log.history(patternId, limit);
+    log.close();
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        patternId,
+        title: pattern?.title ?? null,
+        eventCount: events.length,
+        events: events.map(toJson),
+      }, null, 2));
+    } else {
+      console.log(`Feedback history for ${patternId}${pattern ? `: ${pattern.title}` : ''}`);
+      console.log();
+
+      if (events.length === 0) {
+        console.log('No feedback recorded for this pattern.');
+        return;
+      }
+
+      for (const event of events) {
+        printEvent(event, false);
+      }
+    }
+  });
+
+feedbackCommand
+  .command('recent')
+  .description('Show the most recent feedback across all patterns')
+  .option('-l, --limit <n>', 'Maximum events to show', '20')
+  .action(async (options: { limit: string }) => {
+    const jsonOutput = isJsonOutput();
+    const limit = parseInt(options.limit, 10);
+
+    const log = new FeedbackLog();
+    const events = log.recent(limit);
+    log.close();
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        eventCount: events.length,
+        events: events.map(toJson),
+      }, null, 2));
+    } else {
+      console.log('Recent feedback');
+      console.log('===============');
+
+      if (events.length === 0) {
+        console.log('No feedback recorded yet.');
+        return;
+      }
+
+      for (const event of events) {
+        printEvent(event, true);
+      }
+    }
+  });
+
+feedbackCommand
+  .command('rebuild')
+  .description('Recompute playbook feedback counters from the event log')
+  .option('--all', 'Also reset counters the log does not fully cover, to what it holds (zero if nothing)')
+  .option('--dry-run', 'Show the changes without saving')
+  .action(async (options: { all?: boolean; dryRun?: boolean }) => {
+    const jsonOutput = isJsonOutput();
+
+    const log = new FeedbackLog();
+    const totals = log.totals();
+    log.close();
+
+    // Counters live in each writable layer; team playbooks are left alone
+    const changes: Array<CounterChange & { layer: string }> = [];
+    const uncovered: Array<CounterRef & { layer: string }> = [];
+    for (const layer of getPlaybookLayers().filter(l => !l.readOnly)) {
+      const rebuild = (playbook: Playbook) =>
+        rebuildFeedbackCounters(playbook, totals, { all: options.all });
+      const result = options.dryRun ? rebuild(loadPlaybookFile(layer.path)) : updatePlaybook(rebuild, layer);
+      changes.push(...result.changes.map(change => ({ ...change, layer: layer.name })));
+      uncovered.push(...result.uncovered.map(ref => ({ ...ref, layer: layer.name })));
+    }
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        dryRun: options.dryRun || false,
+        changes,
+        uncovered,
+      }, null, 2));
+    } else {
+      if (changes.length === 0) {
+        console.log('Feedback counters already match the event log.');
+      } else {
+        console.log(`${options.dryRun ? 'Would update' : 'Updated'} ${changes.length} counter(s):`);
+        for (const change of changes) {
+          console.log(
+            `  ${counterLabel(change)} (${change.layer}): ${change.before.helpful}/${change.before.harmful} -> ` +
+            `${change.after.helpful}/${change.after.harmful} (helpful/harmful)`
+          );
+        }
+      }
+
+      if (uncovered.length > 0) {
+        console.log(`Kept ${uncovered.length} counter(s) the log does not fully cover (--all resets them):`);
+        for (const ref of uncovered) {
+          console.log(`  ${counterLabel(ref)} (${ref.layer})`);
+        }
+      }
+    }
+  });
@@ -3,14 +3,29 @@
  */
 
 import { Command } from 'commander';
-import { loadPlaybook, savePlaybook, findPatternById, recordFeedback } from '../core/playbook.js';
+import {
+  loadPlaybook,
+  getOwningLayer,
+  updatePlaybook,
+  withPlaybookLock,
+  ReadOnlyLayerError,
+  findPatternById,
+  recordFeedback,
+  checkFeedbackTarget,
+  rootCauseText,
+  type FeedbackTarget,
+} from '../core/playbook.js';
+import { FeedbackLog, voteBaseline, type FeedbackEvent, type VoteBaseline } from '../core/feedback.js';
 
 export const markCommand = new Command('mark')
   .description('Record feedback on a pattern')
   .argument('<id>', 'Pattern ID (e.g., slsm-001)')
   .argument('<feedback>', 'Feedback type: helpful or harmful')
   .option('--reason <reason>', 'Reason for the feedback')
-  .action(async (id: string, feedback: string, options: { reason?: string }) => {
+  .option('--query <query>', 'The error query that surfaced the pattern')
+  .option('--fix <n>', 'Also record the vote on fix number N (as listed by context)')
+  .option('--cause <n>', 'Also record the vote on root cause number N')
+  .action(async (id: string, feedback: string, options: { reason?: string; query?: string; fix?: string; cause?: string }) => {
     const parent = markCommand.parent;
     const jsonOutput = parent?.opts().json || parent?.opts().robot;
 
@@ -28,9 +43,67 @@ export const markCommand = new Command('mark')
       process.exit(1);
     }
 
-    // Load playbook and find pattern
-    const playbook = loadPlaybook();
-    const pattern = findPatternById(playbook, id);
+    const target: FeedbackTarget = {
+      fix: options.fix !== undefined ? Number(options.fix) : undefined,
+      cause: options.cause !== undefined ? Number(options.cause) : undefined,
+    };
+
+    // Record feedback under the owning playbook's lock so concurrent votes
+    // aren't lost, and log it once saved, still under the lock, so the log
+    // sees votes in the order the playbook does; team playbooks are read-only
+    let targetError: string | null = null;
+    let pattern: ReturnType<typeof findPatternById>;
+    let event: FeedbackEvent | undefined;
+    const log = new FeedbackLog();
+    try {
+      const layer = getOwningLayer(id);
+      if (layer.readOnly) {
+        throw new ReadOnlyLayerError(layer);
+      }
+      pattern = withPlaybookLock(() => {
+        let baseline: VoteBaseline | undefined;
+        const voted = updatePlaybook(latest => {
+          const found = findPatternById(latest, id);
+          targetError = found ? checkFeedbackTarget(found, target) : null;
+          if (found && !targetError) {
+            baseline = voteBaseline(latest, found, target);
+            recordFeedback(found, normalizedFeedback, target);
+          }
+          return found;
+        }, layer);
+        if (voted && baseline) {
+          event = log.record({
+            patternId: voted.id,
+            verdict: normalizedFeedback,
+            reason: options.reason,
+            query: options.query,
+            fix: target.fix,
+            cause: target.cause,
+            source: 'cli',
+          }, baseline);
+        }
+        return voted;
+      }, layer.path);
+    } catch (err) {
+      if (!(err instanceof ReadOnlyLayerError)) {
+        throw err;
+      }
+      targetError = `${err.message}; run "slsm playbook override ${id}" to vote on your own copy`;
+    } finally {
+      log.close();
+    }
+
+    if (targetError) {
+      if (jsonOutput) {
+        console.log(JSON.stringify({
+          success: false,
+          error: targetError,
+        }, null, 2));
+      } else {
+        console.error(`Error: ${targetError}`);
+      }
+      process.exit(1);
+    }
 
     if (!pattern) {
       if (jsonOutput) {
@@ -41,16 +114,16 @@ export const markCommand = new Command('mark')
       } else {
         console.error(`Error: Pattern not found: ${id}`);
         console.log('Available patterns:');
-        for (const p of playbook.patterns) {
+        for (const p of loadPlaybook().patterns) {
           console.log(`  - ${p.id}: ${p.title}`);
         }
       }
       process.exit(1);
     }
 
-    // Record feedback
-    recordFeedback(pattern, normalizedFeedback);
-    savePlaybook(playbook);
+    const fix = target.fix !== undefined ? pattern.fixes[target.fix - 1] : undefined;
+    const cause = target.cause !== undefined ? pattern.root_causes[target.cause - 1] : undefined;
+    const causeFeedback = typeof cause === 'object' ? cause.feedback : undefined;
 
     if (jsonOutput) {
       console.log(JSON.stringify({
@@ -59,10 +132,13 @@ export const markCommand = new Command('mark')
         patternTitle: pattern.title,
         feedback: normalizedFeedback,
         reason: options.reason || null,
+        eventId: event!.id,
         newCounts: {
           helpful: pattern.feedback.helpful,
           harmful: pattern.feedback.harmful,
         },
+        fix: fix ? { index: target.fix, step: fix.step, feedback: fix.feedback } : null,
+        cause: cause ? { index: target.cause, cause: rootCauseText(cause), feedback: causeFeedback } : null,
       }, null, 2));
     } else {
       console.log(`Marked pattern ${id} as ${normalizedFeedback}`);
@@ -71,5 +147,11 @@ export const markCommand = new Command('mark')
         console.log(`  Reason: ${options.reason}`);
       }
       console.log(`  Helpful: ${pattern.feedback.helpful}, Harmful: ${pattern.feedback.harmful}`);
+      if (fix?.feedback) {
+        console.log(`  Fix ${target.fix}: ${fix.step} (${fix.feedback.helpful} helpful, ${fix.feedback.harmful} harmful)`);
+      }
+      if (cause && causeFeedback) {
+        console.log(`  Cause ${target.cause}: ${rootCauseText(cause)} (${causeFeedback.helpful} helpful, ${causeFeedback.harmful} harmful)`);
+      }
     }
   });
@@ -3,6 +3,357 @@
  */
 
 import { Command } from 'commander';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import YAML from 'yaml';
+import {
+  loadPlaybook,
+  loadPlaybookFile,
+  updatePlaybook,
+  updateOwningLayer,
+  getPatternLayer,
+  ReadOnlyLayerError,
+  findPatternById,
+  createPattern,
+  fingerprintFromTitle,
+  formatMatchRegex,
+  parseMatchRegex,
+  MATCH_CLAUSE_KINDS,
+  removePattern,
+  rootCauseText,
+  renumberPlaybook,
+  importPatterns,
+  validatePattern,
+  validatePlaybookFile,
+  hasValidationErrors,
+  migratePlaybookFile,
+  previewMigration,
+  PLAYBOOK_VERSION,
+  PlaybookParseError,
+  checkSupersession,
+  patternStatus,
+  type Feedback,
+  type Fix,
+  type MigrationResult,
+  type Pattern,
+  type PatternMatch,
+  type PatternStatus,
+  type Playbook,
+  type ValidationError,
+} from '../core/playbook.js';
+import { getPlaybookLayers, getUserLayer, resolveLayer, type PlaybookLayer } from '../core/layers.js';
+import { synthesizeRegex } from '../core/synthesis.js';
+import { unifiedDiff } from '../core/diff.js';
+import { DEFAULT_SIMILARITY_THRESHOLD, findDuplicates, mergeIntoPattern } from '../core/dedupe.js';
+import { exportPatterns, formatForPath, parsePatterns, PLAYBOOK_FORMATS, type PlaybookFormat } from '../core/formats.js';
+import { ChangeLog, diffPatterns, restoreSnapshot, withChangeContext, type FieldChange, type PatternChange } from '../core/history.js';
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function isJsonOutput(): boolean {
+  const parent = playbookCommand.parent;
+  return Boolean(parent?.opts().json || parent?.opts().robot);
+}
+
+function fail(jsonOutput: boolean, error: string, details: Record<string, unknown> = {}): never {
+  if (jsonOutput) {
+    console.log(JSON.stringify({
+      success: false,
+      error,
+      ...details,
+    }, null, 2));
+  } else {
+    console.error(`Error: ${error}`);
+  }
+  process.exit(1);
+}
+
+function failValidation(jsonOutput: boolean, errors: ValidationError[], message: string = 'Pattern failed validation'): never {
+  if (!jsonOutput) {
+    for (const e of errors) {
+      console.error(`  ${e.path}: ${e.message}`);
+    }
+  }
+  fail(jsonOutput, message, { errors });
+}
+
+/**
+ * Raised inside a playbook update to abort it without saving
+ */
+class CommandError extends Error {
+  constructor(message: string, readonly errors: ValidationError[] = []) {
+    super(message);
+  }
+}
+
+/**
+ * Run a playbook update, reporting CommandErrors and writes to read-only
+ * layers as failures
+ */
+function reportFailures<T>(jsonOutput: boolean, update: () => T): T {
+  try {
+    return update();
+  } catch (err) {
+    if (err instanceof CommandError) {
+      if (err.errors.length > 0) {
+        failValidation(jsonOutput, err.errors);
+      }
+      fail(jsonOutput, err.message);
+    }
+    if (err instanceof ReadOnlyLayerError) {
+      fail(jsonOutput, `${err.message}; copy the pattern to your own playbook with "slsm playbook override" to change it`);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Apply a change to one layer (the user-global one by default) under its lock
+ */
+function mutatePlaybook<T>(jsonOutput: boolean, mutate: (playbook: Playbook) => T, layer?: PlaybookLayer): T {
+  return reportFailures(jsonOutput, () => updatePlaybook(mutate, layer));
+}
+
+/**
+ * Apply a change to the layer that owns pattern `id` under its lock
+ */
+function mutatePattern<T>(jsonOutput: boolean, id: string, mutate: (playbook: Playbook) => T): T {
+  return reportFailures(jsonOutput, () => updateOwningLayer(id, mutate));
+}
+
+function findLayer(jsonOutput: boolean, name: string | undefined): PlaybookLayer | undefined {
+  if (name === undefined) {
+    return undefined;
+  }
+  try {
+    return resolveLayer(name);
+  } catch (err) {
+    fail(jsonOutput, (err as Error).message);
+  }
+}
+
+function layerName(pattern: Pattern): string {
+  return getPatternLayer(pattern)?.name ?? 'user';
+}
+
+function requireValid(pattern: unknown, index: number): void {
+  const errors = validatePattern(pattern, index);
+  if (hasValidationErrors(errors)) {
+    throw new CommandError('Pattern failed validation', errors);
+  }
+}
+
+/**
+ * Pair fix steps with commands given positionally (--fix-command N applies to --fix N)
+ */
+function buildFixes(steps: string[], commands: string[]): Fix[] {
+  return steps.map((step, i) => (commands[i] ? { step, command: commands[i] } : { step }));
+}
+
+function formatVotes(feedback: Feedback | undefined): string {
+  return feedback ? ` (${feedback.helpful} helpful, ${feedback.harmful} harmful)` : '';
+}
+
+/**
+ * Merge --service/--workspace/--host values into a pattern's scope lists,
+ * leaving unscoped dimensions unset
+ */
+function withScope(
+  base: Pick<Pattern, 'services' | 'workspaces' | 'hosts'>,
+  options: { service: string[]; workspace: string[]; host: string[] }
+): Pick<Pattern, 'services' | 'workspaces' | 'hosts'> {
+  const scope: Pick<Pattern, 'services' | 'workspaces' | 'hosts'> = {};
+  const lists: Array<[keyof typeof scope, string[] | undefined, string[]]> = [
+    ['services', base.services, options.service],
+    ['workspaces', base.workspaces, options.workspace],
+    ['hosts', base.hosts, options.host],
+  ];
+
+  for (const [field, current, added] of lists) {
+    const merged = [...(current ?? []), ...added];
+    if (merged.length > 0) {
+      scope[field] = merged;
+    }
+  }
+  return scope;
+}
+
+/**
+ * Append --match-any/--match-all/--match-none regexes to a pattern's match
+ * clauses, leaving `match` unset when there are none
+ */
+function withMatch(
+  base: PatternMatch | undefined,
+  options: { matchAny: string[]; matchAll: string[]; matchNone: string[] }
+): Pick<Pattern, 'match'> {
+  const added = { any: options.matchAny, all: options.matchAll, none: options.matchNone };
+  const match: PatternMatch = {};
+  for (const kind of MATCH_CLAUSE_KINDS) {
+    const merged = [...(base?.[kind] ?? []), ...added[kind].map(parseMatchRegex)];
+    if (merged.length > 0) {
+      match[kind] = merged;
+    }
+  }
+  return Object.keys(match).length > 0 ? { match } : {};
+}
+
+/**
+ * A pattern's regexes on one line: `pattern`, then any match clauses
+ */
+function regexSummary(p: Pattern): string {
+  const clauses = MATCH_CLAUSE_KINDS
+    .filter(kind => (p.match?.[kind] ?? []).length > 0)
+    .map(kind => `${kind} ${p.match![kind]!.map(formatMatchRegex).join(', ')}`);
+  return [p.pattern, ...clauses].filter(Boolean).join('; ');
+}
+
+/**
+ * Status and replacement after an update. Pointing at a replacement
+ * deprecates an active pattern; making a pattern active or a draft again
+ * drops its replacement.
+ */
+function lifecycle(
+  current: Pattern,
+  options: { status?: string; supersededBy?: string }
+): Pick<Pattern, 'status' | 'superseded_by'> {
+  let status = (options.status ?? current.status) as PatternStatus | undefined;
+  if (options.supersededBy !== undefined && options.status === undefined && (status ?? 'active') === 'active') {
+    status = 'deprecated';
+  }
+
+  const retired = status === 'deprecated' || status === 'archived';
+  return {
+    ...(status !== undefined ? { status } : {}),
+    superseded_by: options.supersededBy ?? (retired ? current.superseded_by : undefined),
+  };
+}
+
+/**
+ * Name of the layer a playbook file belongs to, or the path for files that
+ * are no longer a layer here
+ */
+function layerForPath(filePath: string): string {
+  return getPlaybookLayers().find(l => l.path === filePath)?.name ?? filePath;
+}
+
+/**
+ * The id history is recorded under; aliases of live patterns are followed
+ */
+function historyId(id: string): string {
+  return findPatternById(loadPlaybook(), id)?.id ?? id;
+}
+
+function requireVersion(jsonOutput: boolean, log: ChangeLog, id: string, value: string): PatternChange {
+  const version = Number(value);
+  const change = Number.isInteger(version) ? log.version(id, version) : undefined;
+  if (!change) {
+    log.close();
+    fail(jsonOutput, `Pattern ${id} has no version ${value}; see "slsm playbook history ${id}"`);
+  }
+  return change;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return '(unset)';
+  }
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function formatFieldChange(change: FieldChange): string {
+  return `${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`;
+}
+
+/**
+ * The format named by --format, or else the one the file's extension stands for
+ */
+function resolveFormat(
+  jsonOutput: boolean,
+  name: string | undefined,
+  file: string | undefined,
+  fallback?: PlaybookFormat
+): PlaybookFormat {
+  if (name !== undefined) {
+    if (!PLAYBOOK_FORMATS.includes(name as PlaybookFormat)) {
+      fail(jsonOutput, `Unknown format: ${name} (use ${PLAYBOOK_FORMATS.join(', ')})`);
+    }
+    return name as PlaybookFormat;
+  }
+  const inferred = file !== undefined ? formatForPath(file) : undefined;
+  if (inferred) {
+    return inferred;
+  }
+  if (fallback) {
+    return fallback;
+  }
+  fail(jsonOutput, `Cannot tell the format of ${file} from its extension; pass --format`);
+}
+
+function printPattern(p: Pattern, layer: string = layerName(p)): void {
+  const severityIcon = p.severity === 'high' ? '!' : p.severity === 'medium' ? '*' : '-';
+
+  console.log(`[${severityIcon}] ${p.id}: ${p.title}`);
+  console.log(`    Category: ${p.category} | Severity: ${p.severity}`);
+  console.log(`    Status: ${patternStatus(p)}${p.superseded_by ? ` (superseded by ${p.superseded_by})` : ''}`);
+  console.log(`    Layer: ${layer}`);
+  console.log(`    Fingerprint: ${p.fingerprint}`);
+  if (p.pattern !== '') {
+    console.log(`    Pattern: ${p.pattern}`);
+  }
+  for (const kind of MATCH_CLAUSE_KINDS) {
+    const entries = p.match?.[kind] ?? [];
+    if (entries.length > 0) {
+      console.log(`    Match ${kind}: ${entries.map(formatMatchRegex).join(', ')}`);
+    }
+  }
+  if (p.exception_type) {
+    console.log(`    Exception type: ${p.exception_type}`);
+  }
+  if (p.frame) {
+    console.log(`    Frame: ${p.frame}`);
+  }
+
+  const scope = [
+    p.services?.length ? `services ${p.services.join(', ')}` : null,
+    p.workspaces?.length ? `workspaces ${p.workspaces.join(', ')}` : null,
+    p.hosts?.length ? `hosts ${p.hosts.join(', ')}` : null,
+  ].filter(Boolean);
+  if (scope.length > 0) {
+    console.log(`    Scope: ${scope.join('; ')}`);
+  }
+
+  if (p.symptoms.length > 0) {
+    console.log(`    Symptoms:`);
+    for (const symptom of p.symptoms) {
+      console.log(`      - ${symptom}`);
+    }
+  }
+
+  if (p.root_causes.length > 0) {
+    console.log(`    Root causes:`);
+    p.root_causes.forEach((entry, i) => {
+      const votes = typeof entry === 'string' ? '' : formatVotes(entry.feedback);
+      console.log(`      ${i + 1}. ${rootCauseText(entry)}${votes}`);
+    });
+  }
+
+  if (p.fixes.length > 0) {
+    console.log(`    Fixes:`);
+    p.fixes.forEach((fix, i) => {
+      console.log(`      ${i + 1}. ${fix.step}${formatVotes(fix.feedback)}`);
+      if (fix.command) {
+        console.log(`         $ ${fix.command}`);
+      }
+    });
+  }
+
+  console.log(`    Feedback: ${p.feedback.helpful} helpful, ${p.feedback.harmful} harmful`);
+}
 
 export const playbookCommand = new Command('playbook')
   .description('Manage the error pattern playbook');
@@ -11,15 +362,30 @@ playbookCommand
   .command('list')
   .description('List all patterns in the playbook')
   .option('--category <category>', 'Filter by category')
-  .action(async (options: { category?: string }) => {
-    const parent = playbookCommand.parent;
-    const jsonOutput = parent?.opts().json || parent?.opts().robot;
+  .option('--status <status>', 'Filter by lifecycle state: draft, active, deprecated, archived')
+  .action(async (options: { category?: string; status?: string }) => {
+    const jsonOutput = isJsonOutput();
+
+    const playbook = loadPlaybook();
+    const patterns = playbook.patterns
+      .filter(p => !options.category || p.category.toLowerCase() === options.category.toLowerCase())
+      .filter(p => !options.status || patternStatus(p) === options.status);
 
     if (jsonOutput) {
       console.log(JSON.stringify({
         success: true,
-        patterns: [],
-        total: 0,
+        patterns: patterns.map(p => ({
+          id: p.id,
+          title: p.title,
+          category: p.category,
+          severity: p.severity,
+          pattern: p.pattern,
+          match: p.match,
+          feedback: p.feedback,
+          status: patternStatus(p),
+          layer: layerName(p),
+        })),
+        total: patterns.length,
       }, null, 2));
     } else {
       console.log('Playbook Patterns');
@@ -28,59 +394,935 @@ playbookCommand
         console.log(`  Category: ${options.category}`);
       }
       console.log();
-      console.log('No patterns in playbook.');
-      console.log('Run "slsm reflect" to extract patterns from logs.');
+
+      if (patterns.length === 0) {
+        console.log('No patterns in playbook.');
+        console.log('Run "slsm reflect" to extract patterns from logs.');
+        return;
+      }
+
+      for (const p of patterns) {
+        const severityIcon = p.severity === 'high' ? '!' : p.severity === 'medium' ? '*' : '-';
+        const status = patternStatus(p) === 'active' ? '' : ` (${patternStatus(p)})`;
+        console.log(`[${severityIcon}] ${p.id}: ${p.title}${status}`);
+        console.log(`    Category: ${p.category} | Pattern: ${regexSummary(p)} | Layer: ${layerName(p)}`);
+      }
+      console.log();
+      console.log(`Total: ${patterns.length} pattern(s)`);
     }
   });
 
 playbookCommand
   .command('add')
   .description('Add a new pattern manually')
-  .requiredOption('--pattern <regex>', 'Pattern regex to match')
+  .option('--pattern <regex>', 'Pattern regex to match')
+  .option('--from-examples', 'Synthesize the pattern regex from the --symptom examples')
+  .option('--not <text>', 'Message a synthesized pattern must not match (repeatable)', collect, [])
+  .option('--match-any <regex>', 'Regex of which at least one must match; prefix (?ms-i) to set flags (repeatable)', collect, [])
+  .option('--match-all <regex>', 'Regex that must also match (repeatable)', collect, [])
+  .option('--match-none <regex>', 'Regex that excludes messages it matches (repeatable)', collect, [])
   .requiredOption('--title <title>', 'Pattern title')
   .option('--category <category>', 'Pattern category')
   .option('--severity <severity>', 'Severity: low, medium, high')
-  .action(async (options: { pattern: string; title: string; category?: string; severity?: string }) => {
-    const parent = playbookCommand.parent;
-    const jsonOutput = parent?.opts().json || parent?.opts().robot;
+  .option('--fingerprint <fingerprint>', 'Fingerprint (defaults to a slug of the title)')
+  .option('--symptom <text>', 'Symptom string (repeatable)', collect, [])
+  .option('--root-cause <text>', 'Known root cause (repeatable)', collect, [])
+  .option('--fix <step>', 'Fix step (repeatable)', collect, [])
+  .option('--fix-command <command>', 'Command for the fix at the same position (repeatable)', collect, [])
+  .option('--service <glob>', 'Only match errors from this service (repeatable)', collect, [])
+  .option('--workspace <glob>', 'Only match errors from this workspace path (repeatable)', collect, [])
+  .option('--host <glob>', 'Only match errors from this host (repeatable)', collect, [])
+  .option('--exception-type <type>', 'Exception type a stack trace must raise (e.g. TypeError)')
+  .option('--frame <regex>', 'Regex for an in-project stack frame (function or file:line)')
+  .option('--status <status>', 'Lifecycle state: draft, active, deprecated, archived (default: active)')
+  .option('--layer <layer>', 'Playbook to add to: project, user or a team layer (default: user)')
+  .action(async (options: {
+    pattern?: string;
+    fromExamples?: boolean;
+    not: string[];
+    matchAny: string[];
+    matchAll: string[];
+    matchNone: string[];
+    title: string;
+    category?: string;
+    severity?: string;
+    fingerprint?: string;
+    symptom: string[];
+    rootCause: string[];
+    fix: string[];
+    fixCommand: string[];
+    service: string[];
+    workspace: string[];
+    host: string[];
+    exceptionType?: string;
+    frame?: string;
+    status?: string;
+    layer?: string;
+  }) => {
+    const jsonOutput = isJsonOutput();
+    const layer = findLayer(jsonOutput, options.layer);
+
+    let regex = options.pattern;
+    if (options.fromExamples) {
+      if (regex !== undefined) {
+        fail(jsonOutput, 'Pass either --pattern or --from-examples, not both');
+      }
+      try {
+        regex = synthesizeRegex(options.symptom, options.not);
+      } catch (err) {
+        fail(jsonOutput, (err as Error).message);
+      }
+    }
+    if (regex === undefined && (options.matchAny.length > 0 || options.matchAll.length > 0)) {
+      regex = '';
+    }
+    if (regex === undefined) {
+      fail(jsonOutput, 'Pass --pattern, --match-any or --match-all, or --from-examples with one or more --symptom examples');
+    }
+
+    const pattern = mutatePlaybook(jsonOutput, playbook => {
+      const created = createPattern({
+        fingerprint: options.fingerprint || fingerprintFromTitle(options.title),
+        pattern: regex,
+        ...withMatch(undefined, options),
+        severity: (options.severity || 'medium') as Pattern['severity'],
+        category: options.category || 'general',
+        title: options.title,
+        symptoms: options.symptom,
+        root_causes: options.rootCause,
+        fixes: buildFixes(options.fix, options.fixCommand),
+        ...withScope({}, options),
+        ...(options.exceptionType !== undefined ? { exception_type: options.exceptionType } : {}),
+        ...(options.frame !== undefined ? { frame: options.frame } : {}),
+        ...(options.status !== undefined ? { status: options.status as PatternStatus } : {}),
+      }, playbook);
+
+      requireValid(created, playbook.patterns.length);
+      playbook.patterns.push(created);
+      return created;
+    }, layer);
 
     if (jsonOutput) {
       console.log(JSON.stringify({
         success: true,
-        id: 'slsm-xxx',
-        title: options.title,
-        pattern: options.pattern,
+        id: pattern.id,
+        title: pattern.title,
+        pattern: pattern.pattern,
+        match: pattern.match,
+        layer: layer?.name ?? 'user',
       }, null, 2));
     } else {
-      console.log(`Adding pattern: ${options.title}`);
-      console.log(`  Pattern: ${options.pattern}`);
-      if (options.category) {
-        console.log(`  Category: ${options.category}`);
-      }
-      if (options.severity) {
-        console.log(`  Severity: ${options.severity}`);
-      }
+      console.log(`Adding pattern: ${pattern.title}`);
+      console.log(`  Pattern: ${regexSummary(pattern)}`);
+      console.log(`  Category: ${pattern.category}`);
+      console.log(`  Severity: ${pattern.severity}`);
+      console.log(`  Layer: ${layer?.name ?? 'user'}`);
       console.log();
-      console.log('Pattern added (storage not yet implemented).');
+      console.log(`Pattern ${pattern.id} added.`);
     }
   });
 
 playbookCommand
   .command('get')
+  .alias('show')
   .description('Get details of a specific pattern')
   .argument('<id>', 'Pattern ID')
+  .option('--at <version>', 'Show the pattern as it was at a version listed by "playbook history"')
+  .action(async (id: string, options: { at?: string }) => {
+    const jsonOutput = isJsonOutput();
+
+    if (options.at !== undefined) {
+      const patternId = historyId(id);
+      const log = new ChangeLog();
+      const change = requireVersion(jsonOutput, log, patternId, options.at);
+      log.close();
+      if (!change.snapshot) {
+        fail(jsonOutput, `Pattern ${patternId} was deleted at version ${change.version}`);
+      }
+
+      if (jsonOutput) {
+        console.log(JSON.stringify({
+          success: true,
+          version: change.version,
+          timestamp: change.timestamp,
+          source: change.source,
+          actor: change.actor,
+          pattern: change.snapshot,
+          layer: layerForPath(change.playbook),
+        }, null, 2));
+      } else {
+        console.log(`Version ${change.version} (${new Date(change.timestamp * 1000).toLocaleString()}, ${change.actor} via ${change.source})`);
+        printPattern(change.snapshot, layerForPath(change.playbook));
+      }
+      return;
+    }
+
+    const playbook = loadPlaybook();
+    const pattern = findPatternById(playbook, id);
+
+    if (!pattern) {
+      fail(jsonOutput, `Pattern ${id} not found`);
+    }
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        pattern,
+        layer: layerName(pattern),
+      }, null, 2));
+    } else {
+      printPattern(pattern);
+    }
+  });
+
+playbookCommand
+  .command('update')
+  .description('Update fields of a pattern')
+  .argument('<id>', 'Pattern ID')
+  .option('--pattern <regex>', 'Set the pattern regex')
+  .option('--match-any <regex>', 'Append a regex of which at least one must match (repeatable)', collect, [])
+  .option('--match-all <regex>', 'Append a regex that must also match (repeatable)', collect, [])
+  .option('--match-none <regex>', 'Append a regex that excludes messages it matches (repeatable)', collect, [])
+  .option('--clear-match', 'Remove all match regexes before appending')
+  .option('--title <title>', 'Set the title')
+  .option('--category <category>', 'Set the category')
+  .option('--severity <severity>', 'Set the severity: low, medium, high')
+  .option('--fingerprint <fingerprint>', 'Set the fingerprint')
+  .option('--symptom <text>', 'Append a symptom (repeatable)', collect, [])
+  .option('--root-cause <text>', 'Append a root cause (repeatable)', collect, [])
+  .option('--fix <step>', 'Append a fix step (repeatable)', collect, [])
+  .option('--fix-command <command>', 'Command for the appended fix at the same position (repeatable)', collect, [])
+  .option('--service <glob>', 'Append a service the pattern is scoped to (repeatable)', collect, [])
+  .option('--workspace <glob>', 'Append a workspace path the pattern is scoped to (repeatable)', collect, [])
+  .option('--host <glob>', 'Append a host the pattern is scoped to (repeatable)', collect, [])
+  .option('--clear-scope', 'Remove all service/workspace/host scoping before appending')
+  .option('--exception-type <type>', 'Set the exception type a stack trace must raise')
+  .option('--frame <regex>', 'Set the regex for an in-project stack frame')
+  .option('--status <status>', 'Set the lifecycle state: draft, active, deprecated, archived')
+  .option('--superseded-by <id>', 'Set the pattern that replaces this one (deprecates it unless --status is given)')
+  .action(async (id: string, options: {
+    pattern?: string;
+    matchAny: string[];
+    matchAll: string[];
+    matchNone: string[];
+    clearMatch?: boolean;
+    title?: string;
+    category?: string;
+    severity?: string;
+    fingerprint?: string;
+    symptom: string[];
+    rootCause: string[];
+    fix: string[];
+    fixCommand: string[];
+    service: string[];
+    workspace: string[];
+    host: string[];
+    clearScope?: boolean;
+    exceptionType?: string;
+    frame?: string;
+    status?: string;
+    supersededBy?: string;
+  }) => {
+    const jsonOutput = isJsonOutput();
+
+    const updated = mutatePattern(jsonOutput, id, playbook => {
+      const found = findPatternById(playbook, id);
+      if (!found) {
+        throw new CommandError(`Pattern ${id} not found`);
+      }
+      const index = playbook.patterns.indexOf(found);
+
+      const { services, workspaces, hosts, match, ...current } = playbook.patterns[index];
+      const next: Pattern = {
+        ...current,
+        ...withScope(options.clearScope ? {} : { services, workspaces, hosts }, options),
+        pattern: options.pattern ?? current.pattern,
+        ...withMatch(options.clearMatch ? undefined : match, options),
+        title: options.title ?? current.title,
+        category: options.category ?? current.category,
+        severity: (options.severity ?? current.severity) as Pattern['severity'],
+        fingerprint: options.fingerprint ?? current.fingerprint,
+        ...(options.exceptionType !== undefined ? { exception_type: options.exceptionType } : {}),
+        ...(options.frame !== undefined ? { frame: options.frame } : {}),
+        symptoms: [...current.symptoms, ...options.symptom],
+        root_causes: [...current.root_causes, ...options.rootCause],
+        fixes: [...current.fixes, ...buildFixes(options.fix, options.fixCommand)],
+        ...lifecycle(current, options),
+      };
+      if (next.superseded_by === undefined) {
+        delete next.superseded_by;
+      }
+
+      requireValid(next, index);
+      // The replacement may live in any layer
+      const problem = checkSupersession(loadPlaybook(), next);
+      if (problem) {
+        throw new CommandError(problem);
+      }
+      playbook.patterns[index] = next;
+      return next;
+    });
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        pattern: updated,
+      }, null, 2));
+    } else {
+      console.log(`Updated pattern ${id}`);
+      console.log();
+      printPattern(updated);
+    }
+  });
+
+playbookCommand
+  .command('remove')
+  .description('Remove a pattern from the playbook')
+  .argument('<id>', 'Pattern ID')
+  .action(async (id: string) => {
+    const jsonOutput = isJsonOutput();
+
+    const removed = mutatePattern(jsonOutput, id, playbook => {
+      const found = findPatternById(playbook, id);
+      if (!found) {
+        throw new CommandError(`Pattern ${id} not found`);
+      }
+      return removePattern(playbook, found.id)!;
+    });
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        id: removed.id,
+        title: removed.title,
+      }, null, 2));
+    } else {
+      console.log(`Removed pattern ${removed.id}: ${removed.title}`);
+    }
+  });
+
+playbookCommand
+  .command('edit')
+  .description('Open a pattern in $EDITOR and save it after validation')
+  .argument('<id>', 'Pattern ID')
   .action(async (id: string) => {
-    const parent = playbookCommand.parent;
-    const jsonOutput = parent?.opts().json || parent?.opts().robot;
+    const jsonOutput = isJsonOutput();
+
+    const original = findPatternById(loadPlaybook(), id);
+    if (!original) {
+      fail(jsonOutput, `Pattern ${id} not found`);
+    }
+    const patternId = original.id;
+
+    // Don't let the user edit a pattern that can't be saved
+    const owner = getPatternLayer(original);
+    if (owner?.readOnly) {
+      reportFailures(jsonOutput, () => { throw new ReadOnlyLayerError(owner); });
+    }
+
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'slsm-edit-'));
+    const tmpFile = path.join(tmpDir, `${patternId}.yaml`);
+    fs.writeFileSync(tmpFile, YAML.stringify(original), 'utf-8');
+
+    const result = spawnSync(`${editor} "${tmpFile}"`, { shell: true, stdio: 'inherit' });
+    const content = fs.readFileSync(tmpFile, 'utf-8');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+
+    if (result.status !== 0) {
+      fail(jsonOutput, `Editor exited with status ${result.status}; pattern unchanged`);
+    }
+
+    let edited: unknown;
+    try {
+      edited = YAML.parse(content);
+    } catch (err) {
+      fail(jsonOutput, `Edited pattern is not valid YAML: ${(err as Error).message}`);
+    }
+
+    // The editor may have been open a while; apply the edit to the latest
+    // playbook, keeping the feedback counters votes have moved since
+    const pattern = mutatePattern(jsonOutput, patternId, latest => {
+      const latestIndex = latest.patterns.findIndex(p => p.id === patternId);
+      if (latestIndex === -1) {
+        throw new CommandError(`Pattern ${patternId} was removed while editing`);
+      }
+      requireValid(edited, latestIndex);
+      const next = restoreSnapshot(edited as Pattern, latest.patterns[latestIndex]);
+      if (next.id !== patternId && latest.patterns.some(p => p.id === next.id)) {
+        throw new CommandError(`Pattern ID ${next.id} is already in use`);
+      }
+      const problem = checkSupersession(loadPlaybook(), next);
+      if (problem) {
+        throw new CommandError(problem);
+      }
+      latest.patterns[latestIndex] = next;
+      return next;
+    });
 
     if (jsonOutput) {
       console.log(JSON.stringify({
-        success: false,
-        error: `Pattern ${id} not found`,
+        success: true,
+        pattern,
       }, null, 2));
     } else {
-      console.log(`Pattern: ${id}`);
+      console.log(`Saved pattern ${pattern.id}`);
+    }
+  });
+
+playbookCommand
+  .command('history')
+  .description('Show the recorded versions of a pattern, newest first')
+  .argument('<id>', 'Pattern ID')
+  .option('-l, --limit <n>', 'Maximum versions to show', '20')
+  .action(async (id: string, options: { limit: string }) => {
+    const jsonOutput = isJsonOutput();
+    const patternId = historyId(id);
+
+    const log = new ChangeLog();
+    const changes = log.history(patternId, parseInt(options.limit, 10));
+    log.close();
+
+    const pattern = findPatternById(loadPlaybook(), patternId);
+    if (changes.length === 0 && !pattern) {
+      fail(jsonOutput, `Pattern ${id} not found`);
+    }
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        id: patternId,
+        total: changes.length,
+        versions: changes.map(c => ({
+          version: c.version,
+          action: c.action,
+          timestamp: c.timestamp,
+          source: c.source,
+          actor: c.actor,
+          note: c.note,
+          layer: layerForPath(c.playbook),
+          changes: c.changes,
+        })),
+      }, null, 2));
+      return;
+    }
+
+    const title = pattern?.title ?? changes.find(c => c.snapshot)?.snapshot?.title;
+    console.log(`${patternId}${title ? `: ${title}` : ''}`);
+    if (changes.length === 0) {
+      console.log('No changes recorded yet.');
+      return;
+    }
+
+    for (const change of changes) {
+      const when = new Date(change.timestamp * 1000).toLocaleString();
+      console.log(`  v${change.version}  ${when}  ${change.action} by ${change.actor} via ${change.source}${change.note ? ` (${change.note})` : ''}`);
+      if (change.action === 'update') {
+        for (const field of change.changes) {
+          console.log(`        ${formatFieldChange(field)}`);
+        }
+      }
+    }
+  });
+
+playbookCommand
+  .command('revert')
+  .description('Restore a pattern to an earlier version, keeping its feedback counters')
+  .argument('<id>', 'Pattern ID')
+  .argument('<version>', 'Version to restore, as listed by "playbook history"')
+  .action(async (id: string, version: string) => {
+    const jsonOutput = isJsonOutput();
+    const patternId = historyId(id);
+
+    const log = new ChangeLog();
+    const change = requireVersion(jsonOutput, log, patternId, version);
+    log.close();
+    const snapshot = change.snapshot;
+    if (!snapshot) {
+      fail(jsonOutput, `Pattern ${patternId} was deleted at version ${change.version}; revert to an earlier version`);
+    }
+
+    // A deleted pattern is restored to the playbook it was last saved in
+    const live = findPatternById(loadPlaybook(), patternId);
+    const layer = live
+      ? getPatternLayer(live)
+      : getPlaybookLayers().find(l => l.path === change.playbook && !l.readOnly);
+
+    const note = `Reverted to version ${change.version}`;
+    const { restored, changed } = withChangeContext({ note }, () => mutatePlaybook(jsonOutput, playbook => {
+      const index = playbook.patterns.findIndex(p => p.id === patternId);
+      const current = index === -1 ? undefined : playbook.patterns[index];
+      const next = restoreSnapshot(snapshot, current);
+
+      requireValid(next, index === -1 ? playbook.patterns.length : index);
+      const problem = checkSupersession(loadPlaybook(), next);
+      if (problem) {
+        throw new CommandError(problem);
+      }
+      if (index === -1) {
+        playbook.patterns.push(next);
+      } else {
+        playbook.patterns[index] = next;
+      }
+      return { restored: next, changed: diffPatterns(current, next) };
+    }, layer));
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        id: patternId,
+        version: change.version,
+        changes: changed,
+        pattern: restored,
+      }, null, 2));
+    } else {
+      if (changed.length === 0) {
+        console.log(`Pattern ${patternId} already matches version ${change.version}`);
+        return;
+      }
+      console.log(`Reverted ${patternId} to version ${change.version}:`);
+      for (const field of changed) {
+        console.log(`  ${formatFieldChange(field)}`);
+      }
+      console.log();
+      printPattern(restored, layer?.name ?? 'user');
+    }
+  });
+
+playbookCommand
+  .command('validate')
+  .description('Check playbooks for errors, reported with file, line and column; exits non-zero on errors')
+  .argument('[files...]', 'Playbook files to check (default: every layer)')
+  .option('--strict', 'Also fail on warnings, such as unknown fields')
+  .action(async (files: string[], options: { strict?: boolean }) => {
+    const jsonOutput = isJsonOutput();
+    const layers = getPlaybookLayers();
+    const targets = files.length > 0
+      ? files.map(file => path.resolve(file))
+      : layers.map(l => l.path).filter(p => fs.existsSync(p));
+
+    // superseded_by may point at patterns and aliases in the other layers
+    const externalIds = (filePath: string): string[] => layers
+      .filter(l => l.path !== filePath)
+      .flatMap(l => {
+        try {
+          const other = loadPlaybookFile(l.path);
+          return [...other.patterns.map(p => p?.id), ...Object.keys(other.aliases ?? {})];
+        } catch {
+          return [];
+        }
+      });
+
+    const results = targets.map(filePath => ({
+      path: filePath,
+      layer: layers.find(l => l.path === filePath)?.name ?? null,
+      errors: fs.existsSync(filePath)
+        ? validatePlaybookFile(filePath, externalIds(filePath))
+        : [{ path: '', message: 'File not found' }] as ValidationError[],
+    }));
+
+    const all = results.flatMap(r => r.errors);
+    const warnings = all.filter(e => e.level === 'warning').length;
+    const errors = all.length - warnings;
+    const failed = errors > 0 || (options.strict === true && warnings > 0);
+    const summary = `${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`;
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: !failed,
+        ...(failed ? { error: `Playbook validation failed: ${summary}` } : {}),
+        errors,
+        warnings,
+        files: results,
+      }, null, 2));
+    } else {
+      for (const result of results) {
+        for (const e of result.errors) {
+          const position = e.line !== undefined ? `:${e.line}:${e.column}` : '';
+          console.log(`${result.path}${position}: ${e.level ?? 'error'}: ${e.path ? `${e.path}: ` : ''}${e.message}`);
+        }
+      }
+      if (results.length === 0) {
+        console.log('No playbooks found.');
+      } else {
+        console.log(`Checked ${results.length} playbook(s): ${all.length === 0 ? 'no problems found' : summary}`);
+      }
+    }
+
+    if (failed) {
+      process.exit(1);
+    }
+  });
+
+playbookCommand
+  .command('migrate')
+  .description(`Upgrade playbooks to format version ${PLAYBOOK_VERSION}, keeping a backup of each original`)
+  .option('--dry-run', 'Show the changes as a diff without writing them')
+  .option('--layer <layer>', 'Playbook to migrate: project or user (default: both)')
+  .action(async (options: { dryRun?: boolean; layer?: string }) => {
+    const jsonOutput = isJsonOutput();
+    const layer = findLayer(jsonOutput, options.layer);
+    if (layer?.readOnly) {
+      reportFailures(jsonOutput, () => { throw new ReadOnlyLayerError(layer); });
+    }
+    const targets = layer ? [layer] : getPlaybookLayers().filter(l => !l.readOnly);
+
+    const files = targets.flatMap((target): Array<MigrationResult & { layer: string; path: string; diff?: string; backup?: string }> => {
+      if (options.dryRun) {
+        const preview = previewMigration(target.path);
+        if (!preview) {
+          return [];
+        }
+        const { before, after, ...result } = preview;
+        return [{ layer: target.name, path: target.path, ...result, diff: unifiedDiff(before, after) }];
+      }
+      const migrated = migratePlaybookFile(target.path);
+      return migrated ? [{ layer: target.name, path: target.path, ...migrated }] : [];
+    });
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        dryRun: options.dryRun || false,
+        version: PLAYBOOK_VERSION,
+        files,
+      }, null, 2));
+      return;
+    }
+
+    if (files.length === 0) {
+      console.log(`All playbooks are at version ${PLAYBOOK_VERSION}. Nothing to do.`);
+      return;
+    }
+    for (const file of files) {
+      console.log(`${options.dryRun ? 'Would migrate' : 'Migrated'} the ${file.layer} playbook (${file.path}) from version ${file.from} to ${file.to}:`);
+      for (const step of file.applied) {
+        console.log(`  - ${step}`);
+      }
+      if (file.backup) {
+        console.log(`  Original kept at ${file.backup}`);
+      }
+      if (file.diff) {
+        console.log();
+        console.log(file.diff);
+      }
+      console.log();
+    }
+  });
+
+playbookCommand
+  .command('export')
+  .description('Write patterns as YAML, JSON, a Markdown runbook or CSV')
+  .option('--format <format>', `Output format: ${PLAYBOOK_FORMATS.join(', ')} (default: from --output, else yaml)`)
+  .option('--layer <layer>', 'Export one playbook: project, user or a team layer (default: every layer, as merged)')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action(async (options: { format?: string; layer?: string; output?: string }) => {
+    const jsonOutput = isJsonOutput();
+    const format = resolveFormat(jsonOutput, options.format, options.output, 'yaml');
+    const layer = findLayer(jsonOutput, options.layer);
+
+    const patterns = layer ? loadPlaybookFile(layer.path).patterns : loadPlaybook().patterns;
+    const content = exportPatterns(patterns, format);
+
+    if (options.output === undefined) {
+      process.stdout.write(content);
+      return;
+    }
+
+    fs.writeFileSync(options.output, content, 'utf-8');
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        path: path.resolve(options.output),
+        format,
+        total: patterns.length,
+      }, null, 2));
+    } else {
+      console.log(`Exported ${patterns.length} pattern(s) to ${options.output}`);
+    }
+  });
+
+playbookCommand
+  .command('import')
+  .description('Add patterns from a YAML, JSON, Markdown runbook or CSV file')
+  .argument('<file>', 'File to import')
+  .option('--format <format>', `Input format: ${PLAYBOOK_FORMATS.join(', ')} (default: from the file extension)`)
+  .option('--merge', 'Add to the playbook, updating patterns with the same id and fingerprint (default)')
+  .option('--replace', "Replace the playbook's patterns with the file's")
+  .option('--layer <layer>', 'Playbook to import into: project, user or a team layer (default: user)')
+  .option('--dry-run', 'Show the changes without saving')
+  .action(async (file: string, options: {
+    format?: string;
+    merge?: boolean;
+    replace?: boolean;
+    layer?: string;
+    dryRun?: boolean;
+  }) => {
+    const jsonOutput = isJsonOutput();
+    if (options.merge && options.replace) {
+      fail(jsonOutput, 'Pass either --merge or --replace, not both');
+    }
+    const format = resolveFormat(jsonOutput, options.format, file);
+    const layer = findLayer(jsonOutput, options.layer ?? 'user')!;
+    if (!fs.existsSync(file)) {
+      fail(jsonOutput, `File not found: ${file}`);
+    }
+
+    let entries: unknown[];
+    try {
+      entries = parsePatterns(fs.readFileSync(file, 'utf-8'), format, path.resolve(file));
+    } catch (err) {
+      if (err instanceof PlaybookParseError) {
+        fail(jsonOutput, err.message);
+      }
+      throw err;
+    }
+    if (entries.length === 0) {
+      fail(jsonOutput, `No patterns found in ${file}`);
+    }
+
+    // Entries without an id are given one on import
+    const errors = entries.flatMap((entry, index) => {
+      const unnumbered = typeof entry === 'object' && entry !== null && !(entry as Pattern).id;
+      return validatePattern(unnumbered ? { ...entry, id: 'new' } : entry, index);
+    });
+    if (hasValidationErrors(errors)) {
+      failValidation(jsonOutput, errors, `${file} has invalid patterns; nothing was imported`);
+    }
+    const incoming = entries as Pattern[];
+
+    const apply = (playbook: Playbook) => {
+      const result = importPatterns(playbook, incoming, { replace: options.replace });
+      // Replacements may live in any layer
+      const merged = loadPlaybook();
+      const view: Playbook = {
+        patterns: [...playbook.patterns, ...merged.patterns.filter(p => getPatternLayer(p)?.path !== layer.path)],
+        aliases: { ...merged.aliases, ...playbook.aliases },
+      };
+      for (const id of [...result.added, ...result.updated]) {
+        const problem = checkSupersession(view, findPatternById(playbook, id)!);
+        if (problem) {
+          throw new CommandError(`${id}: ${problem}`);
+        }
+      }
+      return { playbook, result };
+    };
+
+    const { playbook, result } = options.dryRun
+      ? reportFailures(jsonOutput, () => apply(loadPlaybookFile(layer.path)))
+      : mutatePlaybook(jsonOutput, apply, layer);
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        layer: layer.name,
+        format,
+        mode: options.replace ? 'replace' : 'merge',
+        dryRun: options.dryRun || false,
+        ...result,
+      }, null, 2));
+      return;
+    }
+
+    const removed = options.replace ? `, ${result.removed.length} removed` : '';
+    console.log(`${options.dryRun ? 'Would import' : 'Imported'} ${incoming.length} pattern(s) into the ${layer.name} playbook: ${result.added.length} added, ${result.updated.length} updated${removed}`);
+    if (result.remapped.length > 0) {
+      console.log();
+      console.log('Assigned new IDs:');
+      for (const change of result.remapped) {
+        const title = findPatternById(playbook, change.to)?.title;
+        console.log(`  ${change.from || '(missing)'} -> ${change.to}: ${title}`);
+      }
+    }
+  });
+
+playbookCommand
+  .command('dedupe')
+  .description('Find patterns that are likely duplicates of each other')
+  .option('--threshold <score>', 'Embedding similarity (0-1) at which patterns count as duplicates', String(DEFAULT_SIMILARITY_THRESHOLD))
+  .option('--no-similarity', 'Only compare fingerprints and regexes')
+  .action(async (options: { threshold: string; similarity: boolean }) => {
+    const jsonOutput = isJsonOutput();
+    const threshold = Number(options.threshold);
+    if (!(threshold > 0 && threshold <= 1)) {
+      fail(jsonOutput, `Invalid threshold: ${options.threshold} (expected a number between 0 and 1)`);
+    }
+
+    const playbook = loadPlaybook();
+    const groups = await findDuplicates(playbook.patterns, { threshold, similarity: options.similarity });
+    const byId = new Map(playbook.patterns.map(p => [p.id, p]));
+    const mergeCommand = (ids: string[]) => `slsm playbook merge ${ids.join(' ')}`;
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        total: groups.length,
+        groups: groups.map(group => ({
+          keep: group.ids[0],
+          patterns: group.ids.map(id => ({ id, title: byId.get(id)?.title, layer: layerName(byId.get(id)!) })),
+          evidence: group.evidence,
+          command: mergeCommand(group.ids),
+        })),
+      }, null, 2));
+      return;
+    }
+
+    if (groups.length === 0) {
+      console.log('No likely duplicates found.');
+      return;
+    }
+
+    groups.forEach((group, i) => {
+      console.log(`Group ${i + 1}:`);
+      for (const id of group.ids) {
+        const pattern = byId.get(id)!;
+        console.log(`  ${id}: ${pattern.title} (${layerName(pattern)}, ${pattern.feedback.helpful} helpful)`);
+      }
+      console.log('  Evidence:');
+      for (const evidence of group.evidence) {
+        console.log(`    - ${evidence.ids.join(' ~ ')}: ${evidence.detail}`);
+      }
+      console.log(`  Merge with: ${mergeCommand(group.ids)}`);
+      console.log();
+    });
+    console.log(`Found ${groups.length} group(s) of likely duplicates. The first pattern in each is the suggested one to keep.`);
+  });
+
+playbookCommand
+  .command('merge')
+  .description('Merge duplicate patterns into one, keeping the dropped IDs as aliases')
+  .argument('<keep>', 'Pattern to keep')
+  .argument('<drop...>', 'Patterns to fold into it and remove')
+  .action(async (keepId: string, dropIds: string[]) => {
+    const jsonOutput = isJsonOutput();
+
+    // Resolve aliases and make sure every pattern can be rewritten together
+    const view = loadPlaybook();
+    const resolve = (id: string): Pattern => {
+      const pattern = findPatternById(view, id);
+      if (!pattern) {
+        fail(jsonOutput, `Pattern ${id} not found`);
+      }
+      return pattern;
+    };
+    const keep = resolve(keepId);
+    const drops = [...new Set(dropIds.map(id => resolve(id)))];
+    if (drops.includes(keep)) {
+      fail(jsonOutput, `Pattern ${keep.id} can't be both kept and dropped`);
+    }
+    const layer = getPatternLayer(keep) ?? getUserLayer();
+    const elsewhere = drops.find(p => getPatternLayer(p)?.path !== layer.path);
+    if (elsewhere) {
+      fail(jsonOutput, `Pattern ${elsewhere.id} is in the ${layerName(elsewhere)} playbook, not the ${layer.name} one; only patterns in the same playbook can be merged`);
+    }
+
+    const ids = drops.map(p => p.id);
+    const note = `Merged ${ids.join(', ')} into ${keep.id}`;
+    const merged = withChangeContext({ note }, () => mutatePlaybook(jsonOutput, playbook => {
+      const pattern = mergeIntoPattern(playbook, keep.id, ids);
+      requireValid(pattern, playbook.patterns.indexOf(pattern));
+      return pattern;
+    }, layer));
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        id: merged.id,
+        merged: ids,
+        layer: layer.name,
+        pattern: merged,
+      }, null, 2));
+    } else {
+      console.log(`Merged ${ids.join(', ')} into ${merged.id}; the old IDs now resolve to it`);
       console.log();
-      console.log('Pattern not found.');
+      printPattern(merged, layer.name);
+    }
+  });
+
+playbookCommand
+  .command('renumber')
+  .alias('repair')
+  .description('Reassign duplicate or missing pattern IDs, keeping aliases for old IDs')
+  .option('--all', 'Also renumber IDs that do not follow the slsm-NNN scheme')
+  .option('--dry-run', 'Show the changes without saving')
+  .option('--layer <layer>', 'Playbook to renumber: project or user (default: user)')
+  .action(async (options: { all?: boolean; dryRun?: boolean; layer?: string }) => {
+    const jsonOutput = isJsonOutput();
+    const layer = findLayer(jsonOutput, options.layer ?? 'user')!;
+
+    let playbook = loadPlaybookFile(layer.path);
+    let changes = renumberPlaybook(playbook, { all: options.all });
+
+    if (!options.dryRun && changes.length > 0) {
+      [playbook, changes] = mutatePlaybook(jsonOutput, latest =>
+        [latest, renumberPlaybook(latest, { all: options.all })] as const
+      , layer);
+    }
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        layer: layer.name,
+        dryRun: options.dryRun || false,
+        changes,
+        aliases: playbook.aliases ?? {},
+      }, null, 2));
+    } else {
+      if (changes.length === 0) {
+        console.log('All pattern IDs are unique. Nothing to do.');
+        return;
+      }
+
+      console.log(`${options.dryRun ? 'Would renumber' : 'Renumbered'} ${changes.length} pattern(s):`);
+      for (const change of changes) {
+        const title = playbook.patterns[change.index].title;
+        console.log(`  ${change.from || '(missing)'} -> ${change.to}: ${title}`);
+      }
+      const aliased = changes.filter(c => playbook.aliases?.[c.from] === c.to);
+      if (aliased.length > 0) {
+        console.log();
+        console.log(`Old IDs kept as aliases: ${aliased.map(c => c.from).join(', ')}`);
+      }
+    }
+  });
+
+playbookCommand
+  .command('override')
+  .description('Copy a pattern into a writable playbook, where it takes precedence over the original')
+  .argument('<id>', 'Pattern ID')
+  .option('--layer <layer>', 'Playbook to copy into: project or user (default: user)')
+  .action(async (id: string, options: { layer?: string }) => {
+    const jsonOutput = isJsonOutput();
+    const layer = findLayer(jsonOutput, options.layer ?? 'user')!;
+
+    const pattern = findPatternById(loadPlaybook(), id);
+    if (!pattern) {
+      fail(jsonOutput, `Pattern ${id} not found`);
+    }
+
+    // The copy only takes effect in a layer above the one it comes from; a
+    // project playbook that doesn't exist yet will be the top layer
+    const source = layerName(pattern);
+    const names = getPlaybookLayers().map(l => l.name);
+    if (names.indexOf(layer.name) >= names.indexOf(source)) {
+      fail(jsonOutput, `Pattern ${pattern.id} comes from the ${source} playbook, which ${layer.name} does not override`);
+    }
+
+    mutatePlaybook(jsonOutput, playbook => {
+      if (playbook.patterns.some(p => p.id === pattern.id)) {
+        throw new CommandError(`Pattern ${pattern.id} is already in the ${layer.name} playbook`);
+      }
+      playbook.patterns.push(structuredClone(pattern));
+    }, layer);
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        id: pattern.id,
+        from: source,
+        to: layer.name,
+      }, null, 2));
+    } else {
+      console.log(`Copied ${pattern.id} from the ${source} playbook to the ${layer.name} playbook (${layer.path})`);
     }
   });
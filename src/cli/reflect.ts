@@ -1,5 +1,5 @@
 /**
- * slsm reflect - Extract new patterns from logs
+ * slsm reflect - Propose new patterns from logs for review
  */
 
 import { Command } from 'commander';
@@ -7,34 +7,73 @@ import { Database } from 'bun:sqlite';
 import * as os from 'os';
 import * as path from 'path';
 import * as fs from 'fs';
-import { loadPlaybook, savePlaybook, createPattern, type Pattern } from '../core/playbook.js';
+import { loadPlaybook, createPattern, PATTERN_STATUSES, type Pattern } from '../core/playbook.js';
+import { enqueueCandidates, loadReviewQueue, updateReviewQueue, type Proposal } from '../core/review.js';
 import { findMatchingPatterns } from '../core/matching.js';
+import { synthesizeRegex } from '../core/synthesis.js';
+import { TemplateMiner, templateText } from '../core/templates.js';
+
+interface LogRow {
+  message: string;
+  count: number;
+  level: string;
+  service: string | null;
+  firstSeen: number;
+  lastSeen: number;
+}
 
 interface RecurringError {
+  /** Mined template shared by every message in the group */
+  template: string;
+  /** Most frequent message of the template */
   message: string;
+  /** Every distinct message of the template, most frequent first */
+  messages: string[];
+  /** Up to three distinct messages, most frequent first */
+  examples: string[];
   count: number;
   level: string;
   service: string | null;
   firstSeen: number;
   lastSeen: number;
-  fingerprint: string | null;
 }
 
+const MAX_EXAMPLES = 3;
+
 function getSlsDbPath(): string {
   return path.join(os.homedir(), '.sls', 'sls.db');
 }
 
-function generateFingerprint(message: string): string {
-  // Normalize common patterns for fingerprinting
-  return message
-    .toLowerCase()
-    .replace(/\d+\.\d+\.\d+\.\d+/g, '<ip>')      // IP addresses
-    .replace(/:\d+/g, ':<port>')                   // Port numbers
-    .replace(/\/[a-f0-9-]{36}/gi, '/<uuid>')       // UUIDs
-    .replace(/\b\d+\b/g, '<n>')                    // Numbers
-    .replace(/\s+/g, ' ')
-    .trim()
-    .slice(0, 100);
+/**
+ * Group distinct messages by mined template. Rows arrive most frequent first,
+ * so the common wording seeds each template.
+ */
+function groupByTemplate(rows: LogRow[]): RecurringError[] {
+  const miner = new TemplateMiner();
+  const groups = new Map<number, LogRow[]>();
+
+  for (const row of rows) {
+    const cluster = miner.add(row.message, row.count);
+    const group = groups.get(cluster.id) ?? [];
+    group.push(row);
+    groups.set(cluster.id, group);
+  }
+
+  // Templates only settle once every message is in, so read them afterwards
+  return miner.clusters.map(cluster => {
+    const group = groups.get(cluster.id)!;
+    return {
+      template: templateText(cluster),
+      message: group[0].message,
+      messages: group.map(row => row.message),
+      examples: group.slice(0, MAX_EXAMPLES).map(row => row.message),
+      count: cluster.count,
+      level: group[0].level,
+      service: group[0].service,
+      firstSeen: group.reduce((min, row) => Math.min(min, row.firstSeen), Infinity),
+      lastSeen: group.reduce((max, row) => Math.max(max, row.lastSeen), -Infinity),
+    };
+  });
 }
 
 function categorizError(message: string): string {
@@ -49,7 +88,7 @@ function categorizError(message: string): string {
 }
 
 export const reflectCommand = new Command('reflect')
-  .description('Extract new patterns from recent logs')
+  .description('Propose new patterns from recent logs for review')
   .option('--days <n>', 'Look back N days', '7')
   .option('--min-count <n>', 'Minimum occurrences to suggest', '3')
   .option('--dry-run', 'Show what would be extracted without saving')
@@ -80,7 +119,7 @@ export const reflectCommand = new Command('reflect')
     const db = new Database(slsDbPath, { readonly: true });
     const cutoffTime = Math.floor(Date.now() / 1000) - (days * 24 * 60 * 60);
 
-    // Query for recurring error-level logs
+    // Distinct error-level messages; --min-count applies to whole templates
     const query = `
       SELECT
         message,
@@ -88,59 +127,69 @@ export const reflectCommand = new Command('reflect')
         level,
         service,
         MIN(timestamp_utc) as firstSeen,
-        MAX(timestamp_utc) as lastSeen,
-        fingerprint
+        MAX(timestamp_utc) as lastSeen
       FROM log_entries
       WHERE timestamp_utc >= ?
         AND (level = 'error' OR level = 'ERROR' OR level = 'err')
-      GROUP BY COALESCE(fingerprint, message)
-      HAVING COUNT(*) >= ?
+      GROUP BY message
       ORDER BY count DESC
-      LIMIT 50
     `;
 
-    const rows = db.prepare(query).all(cutoffTime, minCount) as RecurringError[];
+    const logRows = db.prepare(query).all(cutoffTime) as LogRow[];
     db.close();
 
+    const rows = groupByTemplate(logRows)
+      .filter(row => row.count >= minCount)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 50);
+
     // Load existing playbook to check for known patterns
     const playbook = loadPlaybook();
-    const newPatterns: Pattern[] = [];
-    const suggestions: Array<{ error: RecurringError; pattern: Pattern; isNew: boolean }> = [];
+    const proposals: Proposal[] = [];
+    const known: Array<{ error: RecurringError; pattern: Pattern }> = [];
+    const errorsByFingerprint = new Map<string, RecurringError>();
 
     for (const row of rows) {
-      // Check if this error already matches a known pattern
-      const matches = findMatchingPatterns(playbook, row.message, 1);
-      const isKnown = matches.length > 0 && matches[0].score > 80;
-
-      if (!isKnown) {
-        // Create a new pattern suggestion
-        const fingerprint = row.fingerprint || generateFingerprint(row.message);
-        const pattern = createPattern({
-          fingerprint,
-          pattern: row.message.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').slice(0, 50) + '.*',
-          severity: row.count >= 10 ? 'high' : row.count >= 5 ? 'medium' : 'low',
-          category: categorizError(row.message),
-          title: row.message.slice(0, 60) + (row.message.length > 60 ? '...' : ''),
-          symptoms: [row.message],
-          root_causes: ['Unknown - investigate logs'],
-          fixes: [],
-        });
-
-        suggestions.push({ error: row, pattern, isNew: true });
-        newPatterns.push(pattern);
-      } else {
-        suggestions.push({ error: row, pattern: matches[0].pattern, isNew: false });
+      // Check if this error already matches a known pattern, drafts and
+      // retired patterns included
+      const matches = findMatchingPatterns(playbook, row.message, 1, { includeHarmful: true, statuses: PATTERN_STATUSES });
+      if (matches.length > 0 && matches[0].score > 80) {
+        known.push({ error: row, pattern: matches[0].pattern });
+        continue;
       }
-    }
 
-    // Save new patterns if not dry-run
-    if (!options.dryRun && newPatterns.length > 0) {
-      for (const pattern of newPatterns) {
-        playbook.patterns.push(pattern);
-      }
-      savePlaybook(playbook);
+      // Propose a candidate from the template; root causes and fixes are
+      // filled in during review
+      const pattern = createPattern({
+        fingerprint: row.template,
+        pattern: synthesizeRegex(row.messages),
+        severity: row.count >= 10 ? 'high' : row.count >= 5 ? 'medium' : 'low',
+        category: categorizError(row.message),
+        title: row.template.slice(0, 60) + (row.template.length > 60 ? '...' : ''),
+        symptoms: row.examples,
+        root_causes: [],
+        fixes: [],
+      });
+      errorsByFingerprint.set(pattern.fingerprint, row);
+      proposals.push({
+        pattern,
+        template: row.template,
+        occurrences: row.count,
+        examples: row.examples,
+        first_seen: new Date(row.firstSeen * 1000).toISOString(),
+        last_seen: new Date(row.lastSeen * 1000).toISOString(),
+      });
     }
 
+    // A dry run enqueues into a copy of the queue that is never saved
+    const { queued, rejected } = options.dryRun
+      ? enqueueCandidates(loadReviewQueue(), proposals)
+      : updateReviewQueue(queue => enqueueCandidates(queue, proposals));
+    const candidates = queued.map(candidate => ({
+      candidate,
+      error: errorsByFingerprint.get(candidate.pattern.fingerprint)!,
+    }));
+
     if (jsonOutput) {
       console.log(JSON.stringify({
         success: true,
@@ -148,18 +197,35 @@ export const reflectCommand = new Command('reflect')
         minCount,
         dryRun: options.dryRun || false,
         totalRecurringErrors: rows.length,
-        newPatternsFound: newPatterns.length,
-        knownPatternMatches: suggestions.filter(s => !s.isNew).length,
-        patterns: suggestions.map(s => ({
-          id: s.pattern.id,
-          title: s.pattern.title,
-          category: s.pattern.category,
-          severity: s.pattern.severity,
-          occurrences: s.error.count,
-          isNew: s.isNew,
-          firstSeen: new Date(s.error.firstSeen * 1000).toISOString(),
-          lastSeen: new Date(s.error.lastSeen * 1000).toISOString(),
-        })),
+        newPatternsFound: candidates.length,
+        knownPatternMatches: known.length,
+        previouslyRejected: rejected.length,
+        patterns: [
+          ...known.map(k => ({
+            id: k.pattern.id,
+            title: k.pattern.title,
+            category: k.pattern.category,
+            severity: k.pattern.severity,
+            template: k.error.template,
+            examples: k.error.examples,
+            occurrences: k.error.count,
+            isNew: false,
+            firstSeen: new Date(k.error.firstSeen * 1000).toISOString(),
+            lastSeen: new Date(k.error.lastSeen * 1000).toISOString(),
+          })),
+          ...candidates.map(c => ({
+            id: c.candidate.id,
+            title: c.candidate.pattern.title,
+            category: c.candidate.pattern.category,
+            severity: c.candidate.pattern.severity,
+            template: c.candidate.template,
+            examples: c.candidate.examples,
+            occurrences: c.error.count,
+            isNew: true,
+            firstSeen: new Date(c.error.firstSeen * 1000).toISOString(),
+            lastSeen: new Date(c.error.lastSeen * 1000).toISOString(),
+          })),
+        ],
       }, null, 2));
     } else {
       console.log('Reflecting on logs...');
@@ -177,31 +243,32 @@ export const reflectCommand = new Command('reflect')
 
       console.log(`Found ${rows.length} recurring error patterns:\n`);
 
-      const knownCount = suggestions.filter(s => !s.isNew).length;
-      const newCount = suggestions.filter(s => s.isNew).length;
-
-      if (knownCount > 0) {
-        console.log(`Known patterns (${knownCount}):`);
-        for (const s of suggestions.filter(s => !s.isNew)) {
-          console.log(`  [${s.pattern.id}] ${s.pattern.title}`);
-          console.log(`    Occurrences: ${s.error.count} | Last seen: ${new Date(s.error.lastSeen * 1000).toLocaleString()}`);
+      if (known.length > 0) {
+        console.log(`Known patterns (${known.length}):`);
+        for (const k of known) {
+          console.log(`  [${k.pattern.id}] ${k.pattern.title}`);
+          console.log(`    Occurrences: ${k.error.count} | Last seen: ${new Date(k.error.lastSeen * 1000).toLocaleString()}`);
         }
         console.log();
       }
 
-      if (newCount > 0) {
-        console.log(`New patterns ${options.dryRun ? '(would be added)' : 'added'} (${newCount}):`);
-        for (const s of suggestions.filter(s => s.isNew)) {
-          console.log(`  [${s.pattern.id}] ${s.pattern.title}`);
-          console.log(`    Category: ${s.pattern.category} | Severity: ${s.pattern.severity}`);
-          console.log(`    Occurrences: ${s.error.count}`);
+      if (candidates.length > 0) {
+        console.log(`Candidates ${options.dryRun ? '(would be queued for review)' : 'queued for review'} (${candidates.length}):`);
+        for (const c of candidates) {
+          console.log(`  [${c.candidate.id}] ${c.candidate.pattern.title}`);
+          console.log(`    Template: ${c.candidate.template}`);
+          console.log(`    Category: ${c.candidate.pattern.category} | Severity: ${c.candidate.pattern.severity}`);
+          console.log(`    Occurrences: ${c.error.count}`);
         }
         console.log();
 
         if (!options.dryRun) {
-          console.log(`Added ${newCount} new patterns to playbook.`);
-          console.log('Tip: Edit ~/.sls-memory/playbook.yaml to add root causes and fixes.');
+          console.log('Run "slsm review" to accept, merge or reject them.');
         }
       }
+
+      if (rejected.length > 0) {
+        console.log(`Skipped ${rejected.length} previously rejected template(s).`);
+      }
     }
   });
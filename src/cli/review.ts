@@ -0,0 +1,297 @@
+/**
+ * slsm review - Accept, merge or reject candidate patterns proposed by reflect
+ */
+
+import { Command } from 'commander';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import YAML from 'yaml';
+import {
+  ReadOnlyLayerError,
+  findPatternById,
+  generatePatternId,
+  updateOwningLayer,
+  updatePlaybook,
+  validatePattern,
+  hasValidationErrors,
+  rootCauseText,
+  type Pattern,
+  type ValidationError,
+} from '../core/playbook.js';
+import { resolveLayer, type PlaybookLayer } from '../core/layers.js';
+import {
+  findCandidate,
+  loadReviewQueue,
+  mergeCandidate,
+  rejectCandidate,
+  removeCandidate,
+  updateReviewQueue,
+  type Candidate,
+} from '../core/review.js';
+import { withChangeContext } from '../core/history.js';
+
+function isJsonOutput(): boolean {
+  const parent = reviewCommand.parent;
+  return Boolean(parent?.opts().json || parent?.opts().robot);
+}
+
+function fail(jsonOutput: boolean, error: string, details: Record<string, unknown> = {}): never {
+  if (jsonOutput) {
+    console.log(JSON.stringify({
+      success: false,
+      error,
+      ...details,
+    }, null, 2));
+  } else {
+    console.error(`Error: ${error}`);
+  }
+  process.exit(1);
+}
+
+/**
+ * Raised inside a playbook update to abort it without saving
+ */
+class ReviewError extends Error {
+  constructor(message: string, readonly errors: ValidationError[] = []) {
+    super(message);
+  }
+}
+
+function reportFailures<T>(jsonOutput: boolean, update: () => T): T {
+  try {
+    return update();
+  } catch (err) {
+    if (err instanceof ReviewError) {
+      if (!jsonOutput) {
+        for (const e of err.errors) {
+          console.error(`  ${e.path}: ${e.message}`);
+        }
+      }
+      fail(jsonOutput, err.message, err.errors.length > 0 ? { errors: err.errors } : {});
+    }
+    if (err instanceof ReadOnlyLayerError) {
+      fail(jsonOutput, err.message);
+    }
+    throw err;
+  }
+}
+
+function requireCandidate(jsonOutput: boolean, id: string): Candidate {
+  const candidate = findCandidate(loadReviewQueue(), id);
+  if (!candidate) {
+    fail(jsonOutput, `Candidate ${id} not found`);
+  }
+  return candidate;
+}
+
+/**
+ * Let the user fill in a candidate's causes and fixes in $EDITOR
+ */
+function editCandidate(jsonOutput: boolean, candidate: Candidate): Pattern {
+  const { id: _id, ...editable } = candidate.pattern;
+
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'slsm-review-'));
+  const tmpFile = path.join(tmpDir, `${candidate.id}.yaml`);
+  fs.writeFileSync(tmpFile, YAML.stringify(editable), 'utf-8');
+
+  const result = spawnSync(`${editor} "${tmpFile}"`, { shell: true, stdio: 'inherit' });
+  const content = fs.readFileSync(tmpFile, 'utf-8');
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+
+  if (result.status !== 0) {
+    fail(jsonOutput, `Editor exited with status ${result.status}; candidate left in the queue`);
+  }
+
+  try {
+    return { ...(YAML.parse(content) as Pattern), id: '' };
+  } catch (err) {
+    fail(jsonOutput, `Edited candidate is not valid YAML: ${(err as Error).message}`);
+  }
+}
+
+function printCandidate(candidate: Candidate): void {
+  const { pattern } = candidate;
+  console.log(`[${candidate.id}] ${pattern.title}`);
+  console.log(`  Template: ${candidate.template}`);
+  console.log(`  Pattern: ${pattern.pattern}`);
+  console.log(`  Category: ${pattern.category} | Severity: ${pattern.severity}`);
+  console.log(`  Occurrences: ${candidate.occurrences} | First seen: ${new Date(candidate.first_seen).toLocaleString()} | Last seen: ${new Date(candidate.last_seen).toLocaleString()}`);
+  console.log('  Examples:');
+  for (const example of candidate.examples) {
+    console.log(`    - ${example}`);
+  }
+  if (pattern.root_causes.length > 0) {
+    console.log('  Root causes:');
+    for (const cause of pattern.root_causes) {
+      console.log(`    - ${rootCauseText(cause)}`);
+    }
+  }
+  if (pattern.fixes.length > 0) {
+    console.log('  Fixes:');
+    for (const fix of pattern.fixes) {
+      console.log(`    - ${fix.step}${fix.command ? ` (${fix.command})` : ''}`);
+    }
+  }
+}
+
+export const reviewCommand = new Command('review')
+  .description('Review candidate patterns proposed by reflect');
+
+reviewCommand
+  .command('list', { isDefault: true })
+  .description('List pending candidates')
+  .action(async () => {
+    const jsonOutput = isJsonOutput();
+    const queue = loadReviewQueue();
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        total: queue.candidates.length,
+        rejected: queue.rejected.length,
+        candidates: queue.candidates.map(c => ({
+          id: c.id,
+          title: c.pattern.title,
+          template: c.template,
+          occurrences: c.occurrences,
+          lastSeen: c.last_seen,
+        })),
+      }, null, 2));
+      return;
+    }
+
+    if (queue.candidates.length === 0) {
+      console.log('No candidates waiting for review.');
+      console.log('Run "slsm reflect" to propose patterns from recent logs.');
+      return;
+    }
+
+    for (const c of queue.candidates) {
+      console.log(`[${c.id}] ${c.pattern.title}`);
+      console.log(`    Occurrences: ${c.occurrences} | Last seen: ${new Date(c.last_seen).toLocaleString()}`);
+    }
+    console.log();
+    console.log(`Total: ${queue.candidates.length} candidate(s)`);
+  });
+
+reviewCommand
+  .command('show')
+  .description('Show a candidate with its examples')
+  .argument('<id>', 'Candidate ID')
+  .action(async (id: string) => {
+    const jsonOutput = isJsonOutput();
+    const candidate = requireCandidate(jsonOutput, id);
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({ success: true, candidate }, null, 2));
+    } else {
+      printCandidate(candidate);
+    }
+  });
+
+reviewCommand
+  .command('accept')
+  .description('Add a candidate to the playbook')
+  .argument('<id>', 'Candidate ID')
+  .option('--edit', 'Open the candidate in $EDITOR to fill in root causes and fixes first')
+  .option('--layer <layer>', 'Playbook to add to: project, user or a team layer (default: user)')
+  .action(async (id: string, options: { edit?: boolean; layer?: string }) => {
+    const jsonOutput = isJsonOutput();
+    const candidate = requireCandidate(jsonOutput, id);
+
+    let layer: PlaybookLayer | undefined;
+    if (options.layer !== undefined) {
+      try {
+        layer = resolveLayer(options.layer);
+      } catch (err) {
+        fail(jsonOutput, (err as Error).message);
+      }
+    }
+
+    const pattern = options.edit ? editCandidate(jsonOutput, candidate) : { ...candidate.pattern };
+
+    reportFailures(jsonOutput, () => withChangeContext({ source: 'review', note: `Accepted ${id}` }, () => updatePlaybook(playbook => {
+      pattern.id = generatePatternId(playbook);
+      const errors = validatePattern(pattern, playbook.patterns.length);
+      if (hasValidationErrors(errors)) {
+        throw new ReviewError('Pattern failed validation', errors);
+      }
+      playbook.patterns.push(pattern);
+    }, layer)));
+    updateReviewQueue(queue => removeCandidate(queue, id));
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        candidate: id,
+        id: pattern.id,
+        title: pattern.title,
+        layer: layer?.name ?? 'user',
+      }, null, 2));
+    } else {
+      console.log(`Accepted ${id} as pattern ${pattern.id}: ${pattern.title}`);
+      if (pattern.fixes.length === 0) {
+        console.log(`Tip: add fixes with "slsm playbook update ${pattern.id} --fix ..." or "slsm playbook edit ${pattern.id}".`);
+      }
+    }
+  });
+
+reviewCommand
+  .command('merge')
+  .description('Fold a candidate into an existing pattern')
+  .argument('<id>', 'Candidate ID')
+  .argument('<pattern-id>', 'Pattern to merge into')
+  .action(async (id: string, patternId: string) => {
+    const jsonOutput = isJsonOutput();
+    const candidate = requireCandidate(jsonOutput, id);
+
+    const merged = reportFailures(jsonOutput, () => withChangeContext({ source: 'review', note: `Merged ${id}` }, () => updateOwningLayer(patternId, playbook => {
+      const target = findPatternById(playbook, patternId);
+      if (!target) {
+        throw new ReviewError(`Pattern ${patternId} not found`);
+      }
+      mergeCandidate(candidate, target);
+      return target;
+    })));
+    updateReviewQueue(queue => removeCandidate(queue, id));
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        candidate: id,
+        id: merged.id,
+        pattern: merged.pattern,
+        symptoms: merged.symptoms,
+      }, null, 2));
+    } else {
+      console.log(`Merged ${id} into ${merged.id}: ${merged.title}`);
+      console.log(`  Pattern: ${merged.pattern}`);
+    }
+  });
+
+reviewCommand
+  .command('reject')
+  .description('Drop a candidate and stop proposing its template')
+  .argument('<id>', 'Candidate ID')
+  .option('--reason <text>', 'Why the candidate was rejected')
+  .action(async (id: string, options: { reason?: string }) => {
+    const jsonOutput = isJsonOutput();
+
+    const candidate = updateReviewQueue(queue => rejectCandidate(queue, id, options.reason));
+    if (!candidate) {
+      fail(jsonOutput, `Candidate ${id} not found`);
+    }
+
+    if (jsonOutput) {
+      console.log(JSON.stringify({
+        success: true,
+        candidate: id,
+        fingerprint: candidate.pattern.fingerprint,
+      }, null, 2));
+    } else {
+      console.log(`Rejected ${id}; "${candidate.pattern.fingerprint}" won't be proposed again.`);
+    }
+  });
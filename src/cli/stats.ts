@@ -3,7 +3,8 @@
  */
 
 import { Command } from 'commander';
-import { loadPlaybook, getPlaybookPath } from '../core/playbook.js';
+import { loadPlaybook, getPlaybookPath, getPatternLayer } from '../core/playbook.js';
+import { getPlaybookLayers } from '../core/layers.js';
 
 export const statsCommand = new Command('stats')
   .description('Show playbook statistics')
@@ -20,7 +21,19 @@ export const statsCommand = new Command('stats')
     let totalHelpful = 0;
     let totalHarmful = 0;
 
+    // Patterns each layer contributes after overrides
+    const layers = getPlaybookLayers().map(layer => ({
+      name: layer.name,
+      path: layer.path,
+      readOnly: layer.readOnly,
+      patterns: 0,
+    }));
+
     for (const pattern of playbook.patterns) {
+      const layer = layers.find(l => l.name === getPatternLayer(pattern)?.name);
+      if (layer) {
+        layer.patterns++;
+      }
       patternsByCategory[pattern.category] = (patternsByCategory[pattern.category] || 0) + 1;
       patternsBySeverity[pattern.severity] = (patternsBySeverity[pattern.severity] || 0) + 1;
       totalHelpful += pattern.feedback.helpful;
@@ -37,6 +50,7 @@ export const statsCommand = new Command('stats')
         total: totalHelpful + totalHarmful,
       },
       playbookPath,
+      layers,
     };
 
     if (jsonOutput) {
@@ -75,6 +89,10 @@ export const statsCommand = new Command('stats')
         console.log('Tip: Run "slsm reflect" to extract patterns from logs.');
       }
       console.log();
-      console.log(`Playbook: ${playbookPath}`);
+      console.log('Playbooks:');
+      for (const layer of layers) {
+        const readOnly = layer.readOnly ? ', read-only' : '';
+        console.log(`  ${layer.name}: ${layer.path} (${layer.patterns} pattern(s)${readOnly})`);
+      }
     }
   });
@@ -0,0 +1,289 @@
+/**
+ * Duplicate detection and pattern merging
+ *
+ * The same error tends to be added several times (by reflect, MCP agents and
+ * people) under different ids. Candidate duplicates are found from three
+ * signals: equal fingerprints, regexes that match each other's symptoms, and
+ * high embedding similarity. Merging folds the duplicates into one pattern
+ * and leaves aliases so the dropped ids still resolve.
+ */
+
+import { createEmbeddingProvider, patternToText, type EmbeddingProvider } from './embeddings.js';
+import { matchPattern } from './matcher-index.js';
+import { markPlaybookChanged, removePattern, rootCauseText, widenMatch, type Feedback, type Pattern, type Playbook, type RootCauseEntry } from './playbook.js';
+
+export type DuplicateSignal = 'fingerprint' | 'regex' | 'similarity';
+
+/**
+ * Why two patterns look like the same error
+ */
+export interface DuplicateEvidence {
+  signal: DuplicateSignal;
+  ids: [string, string];
+  detail: string;
+  /** Embedding similarity (0-1), for the similarity signal */
+  score?: number;
+}
+
+/**
+ * Patterns connected by evidence, with the one to keep first
+ */
+export interface DuplicateGroup {
+  ids: string[];
+  evidence: DuplicateEvidence[];
+}
+
+export interface DedupeOptions {
+  /** Embedding similarity at or above which two patterns count as duplicates (default 0.85) */
+  threshold?: number;
+  /** Skip the embedding signal */
+  similarity?: boolean;
+  embeddings?: EmbeddingProvider;
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * The first of `pattern`'s symptoms that `by`'s regexes match
+ */
+function matchedSymptom(by: Pattern, pattern: Pattern): string | undefined {
+  return pattern.symptoms.find(symptom => matchPattern(by, symptom) !== null);
+}
+
+function quote(text: string): string {
+  return JSON.stringify(text.length > 60 ? `${text.slice(0, 57)}...` : text);
+}
+
+/**
+ * Regex evidence: each pattern's regex matches a symptom of the other.
+ * When only one has symptoms, the other's regex matching one is enough.
+ */
+function regexEvidence(a: Pattern, b: Pattern): string | null {
+  if (a.symptoms.length === 0 && b.symptoms.length === 0) {
+    return null;
+  }
+  const ofB = matchedSymptom(a, b);
+  const ofA = matchedSymptom(b, a);
+  if ((b.symptoms.length > 0 && ofB === undefined) || (a.symptoms.length > 0 && ofA === undefined)) {
+    return null;
+  }
+  return [
+    ofB !== undefined ? `${a.id}'s regex matches ${quote(ofB)}` : null,
+    ofA !== undefined ? `${b.id}'s regex matches ${quote(ofA)}` : null,
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * Whether one pattern was deliberately replaced by the other
+ */
+function supersedes(a: Pattern, b: Pattern): boolean {
+  return a.superseded_by === b.id || b.superseded_by === a.id;
+}
+
+/**
+ * Find groups of patterns that are likely duplicates of each other. A
+ * pattern deprecated in favour of another is not reported with it.
+ */
+export async function findDuplicates(patterns: Pattern[], options: DedupeOptions = {}): Promise<DuplicateGroup[]> {
+  const evidence: DuplicateEvidence[] = [];
+  const pairKey = (a: string, b: string) => (a < b ? `${a}\0${b}` : `${b}\0${a}`);
+  const indexOf = new Map(patterns.map((p, i) => [p.id, i]));
+
+  for (let i = 0; i < patterns.length; i++) {
+    for (let j = i + 1; j < patterns.length; j++) {
+      const a = patterns[i];
+      const b = patterns[j];
+      if (supersedes(a, b)) {
+        continue;
+      }
+      const ids: [string, string] = [a.id, b.id];
+      if (a.fingerprint !== '' && a.fingerprint.toLowerCase() === b.fingerprint.toLowerCase()) {
+        evidence.push({ signal: 'fingerprint', ids, detail: `Both have fingerprint ${a.fingerprint}` });
+      }
+      const regex = regexEvidence(a, b);
+      if (regex) {
+        evidence.push({ signal: 'regex', ids, detail: regex });
+      }
+    }
+  }
+
+  if (options.similarity !== false) {
+    const threshold = options.threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    const provider = options.embeddings ?? createEmbeddingProvider();
+    try {
+      await provider.sync(patterns);
+      const scores = new Map<string, number>();
+      for (const pattern of patterns) {
+        for (const match of await provider.findSimilar(patternToText(pattern), patterns.length)) {
+          const other = patterns[indexOf.get(match.patternId) ?? -1];
+          if (!other || other.id === pattern.id || match.score < threshold || supersedes(pattern, other)) {
+            continue;
+          }
+          const key = pairKey(pattern.id, other.id);
+          scores.set(key, Math.max(scores.get(key) ?? 0, match.score));
+        }
+      }
+      for (const [key, score] of scores) {
+        const [a, b] = key.split('\0').sort((x, y) => indexOf.get(x)! - indexOf.get(y)!);
+        evidence.push({
+          signal: 'similarity',
+          ids: [a, b],
+          detail: `Similarity ${(score * 100).toFixed(0)}%`,
+          score: Math.round(score * 1000) / 1000,
+        });
+      }
+    } finally {
+      if (!options.embeddings) {
+        provider.close();
+      }
+    }
+  }
+
+  // Connect patterns that share evidence
+  const parent = patterns.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+  for (const { ids } of evidence) {
+    parent[root(indexOf.get(ids[1])!)] = root(indexOf.get(ids[0])!);
+  }
+
+  const groups = new Map<number, Pattern[]>();
+  patterns.forEach((pattern, i) => {
+    if (evidence.some(e => e.ids.includes(pattern.id))) {
+      groups.set(root(i), [...(groups.get(root(i)) ?? []), pattern]);
+    }
+  });
+
+  return [...groups.values()].map(members => {
+    const keep = keeper(members);
+    const ids = new Set(members.map(p => p.id));
+    return {
+      ids: [keep.id, ...members.filter(p => p !== keep).map(p => p.id)],
+      evidence: evidence.filter(e => ids.has(e.ids[0])),
+    };
+  });
+}
+
+/**
+ * The pattern to keep from a group: the most helpful, then the oldest
+ */
+function keeper(members: Pattern[]): Pattern {
+  return members.reduce((best, p) => (p.feedback.helpful > best.feedback.helpful ? p : best));
+}
+
+function addFeedback(a: Feedback | undefined, b: Feedback | undefined): Feedback | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return { helpful: a.helpful + b.helpful, harmful: a.harmful + b.harmful };
+}
+
+/**
+ * Union of two scope lists, where unset means any value
+ */
+function unionScope(a: string[] | undefined, b: string[] | undefined): string[] | undefined {
+  return a && b ? [...new Set([...a, ...b])] : undefined;
+}
+
+/**
+ * Fold duplicates into `keep`: symptoms, root causes and fixes are unioned
+ * (votes on the same cause or fix step are added up), feedback is summed,
+ * scope widens to cover every pattern, and the regexes are widened (see
+ * widenMatch) when they don't match a duplicate's symptoms. Other fields
+ * are `keep`'s.
+ */
+export function mergePatterns(keep: Pattern, duplicates: Pattern[]): Pattern {
+  const merged = structuredClone(keep);
+
+  for (const duplicate of duplicates) {
+    for (const symptom of duplicate.symptoms) {
+      if (!merged.symptoms.includes(symptom)) {
+        merged.symptoms.push(symptom);
+      }
+    }
+
+    for (const entry of duplicate.root_causes) {
+      const cause = rootCauseText(entry);
+      const index = merged.root_causes.findIndex(existing => rootCauseText(existing) === cause);
+      if (index === -1) {
+        merged.root_causes.push(structuredClone(entry));
+        continue;
+      }
+      const existing = merged.root_causes[index];
+      const feedback = addFeedback(
+        typeof existing === 'string' ? undefined : existing.feedback,
+        typeof entry === 'string' ? undefined : entry.feedback
+      );
+      merged.root_causes[index] = (feedback ? { cause, feedback } : cause) as RootCauseEntry;
+    }
+
+    for (const fix of duplicate.fixes) {
+      const existing = merged.fixes.find(f => f.step === fix.step);
+      if (!existing) {
+        merged.fixes.push(structuredClone(fix));
+        continue;
+      }
+      existing.command ??= fix.command;
+      const feedback = addFeedback(existing.feedback, fix.feedback);
+      if (feedback) {
+        existing.feedback = feedback;
+      }
+    }
+
+    merged.feedback = addFeedback(merged.feedback, duplicate.feedback)!;
+
+    for (const field of ['services', 'workspaces', 'hosts'] as const) {
+      const scope = unionScope(merged[field], duplicate[field]);
+      if (scope) {
+        merged[field] = scope;
+      } else {
+        delete merged[field];
+      }
+    }
+
+    const covered = duplicate.symptoms.length > 0 && duplicate.symptoms.every(s => matchPattern(merged, s) !== null);
+    if (!covered) {
+      widenMatch(merged, duplicate);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge patterns `dropIds` of a playbook into pattern `keepId`, removing them
+ * and aliasing their ids (and any aliases of them) to `keepId`. Patterns
+ * superseded by a dropped one point at `keepId` instead.
+ */
+export function mergeIntoPattern(playbook: Playbook, keepId: string, dropIds: string[]): Pattern {
+  const index = playbook.patterns.findIndex(p => p.id === keepId);
+  const duplicates = dropIds.map(id => playbook.patterns.find(p => p.id === id));
+  if (index === -1 || duplicates.some(p => p === undefined)) {
+    throw new Error(`Pattern ${index === -1 ? keepId : dropIds[duplicates.indexOf(undefined)]} not found`);
+  }
+
+  const merged = mergePatterns(playbook.patterns[index], duplicates as Pattern[]);
+  playbook.patterns[index] = merged;
+  markPlaybookChanged(playbook);
+
+  const dropped = new Set(dropIds);
+  for (const id of dropIds) {
+    removePattern(playbook, id);
+  }
+  for (const pattern of playbook.patterns) {
+    if (pattern.superseded_by !== undefined && dropped.has(pattern.superseded_by)) {
+      pattern.superseded_by = keepId;
+    }
+  }
+
+  const aliases = { ...playbook.aliases };
+  for (const [from, to] of Object.entries(aliases)) {
+    if (dropped.has(to)) {
+      aliases[from] = keepId;
+    }
+  }
+  for (const id of dropIds) {
+    aliases[id] = keepId;
+  }
+  playbook.aliases = aliases;
+  return merged;
+}
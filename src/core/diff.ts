@@ -0,0 +1,62 @@
+/**
+ * Line diffs for previewing file rewrites
+ */
+
+/**
+ * Unified diff of two texts, with `context` unchanged lines around each
+ * change. Empty when the texts are equal.
+ */
+export function unifiedDiff(before: string, after: string, context: number = 2): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Longest common subsequence table, filled from the end
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  // Each line with its position in the old and new text
+  const lines: Array<{ op: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i], oldLine: i++, newLine: j++ });
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ op: '-', text: a[i], oldLine: i++, newLine: j });
+    } else {
+      lines.push({ op: '+', text: b[j], oldLine: i, newLine: j++ });
+    }
+  }
+
+  const changed = lines.flatMap((line, k) => (line.op === ' ' ? [] : [k]));
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context overlaps into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const k of changed) {
+    const start = Math.max(0, k - context);
+    const end = Math.min(lines.length, k + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const out: string[] = [];
+  for (const [start, end] of hunks) {
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(l => l.op !== '+').length;
+    const newCount = hunk.filter(l => l.op !== '-').length;
+    out.push(`@@ -${hunk[0].oldLine + 1},${oldCount} +${hunk[0].newLine + 1},${newCount} @@`);
+    out.push(...hunk.map(l => `${l.op}${l.text}`));
+  }
+  return out.join('\n');
+}
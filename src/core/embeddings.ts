@@ -1,69 +1,170 @@
 /**
  * Embeddings module for semantic similarity matching
  *
- * Uses TF-IDF based embeddings as a baseline. Can be enhanced with
- * neural embeddings (e.g., from a local model or API) in the future.
+ * Similarity comes from an EmbeddingProvider. TF-IDF is the default; the
+ * `openai` provider uses dense vectors from an OpenAI-compatible
+ * `/v1/embeddings` endpoint (such as a local Ollama or llama.cpp server)
+ * and falls back to TF-IDF while the endpoint is unavailable.
+ *
+ * Both indexes are kept in SQLite and updated incrementally: each pattern is
+ * stored with a hash of its text, so only added, changed or removed
+ * patterns are re-indexed. For TF-IDF, document frequencies are maintained
+ * per term, and queries walk an inverted index (term -> patterns) instead of
+ * scanning every vector.
  */
 
 import { Database } from 'bun:sqlite';
-import * as os from 'os';
+import { createHash } from 'crypto';
 import * as path from 'path';
 import * as fs from 'fs';
-import type { Pattern } from './playbook.js';
+import { rootCauseText, type Pattern } from './playbook.js';
+import { getDataDir, loadConfig } from './layers.js';
+
+/**
+ * Every posting weight is recomputed once the number of indexed patterns
+ * drifts this far from when they were last computed
+ */
+const NORM_REFRESH_DRIFT = 0.25;
+
+/** Inputs per request to an embeddings endpoint */
+const EMBED_BATCH_SIZE = 64;
+
+/** How long to wait for an embeddings endpoint before falling back */
+const DEFAULT_TIMEOUT_MS = 5000;
 
 /**
- * TF-IDF document representation
+ * Bytes per entry in a stored vector or posting list: a uint32 id (term or
+ * document) and a float32 weight
  */
-interface TfIdfVector {
-  terms: Map<string, number>;
-  magnitude: number;
+const ENTRY_BYTES = 8;
+
+/**
+ * Changes made by EmbeddingsManager.sync
+ */
+export interface SyncStats {
+  added: number;
+  removed: number;
+  total: number;
 }
 
 /**
- * Stored embedding for a pattern
+ * A pattern's similarity to a query (0-1)
  */
-export interface StoredEmbedding {
+export interface SimilarMatch {
   patternId: string;
-  vector: number[];
-  text: string;
-  updatedAt: number;
+  score: number;
+}
+
+/**
+ * A source of pattern similarity
+ */
+export interface EmbeddingProvider {
+  /** `tfidf` or `openai` */
+  readonly name: string;
+  /** Model the vectors come from; stored vectors are kept per provider and model */
+  readonly model: string;
+  /** Why the last sync or lookup fell back to TF-IDF, or null if it didn't */
+  readonly fallbackReason: string | null;
+  /** Index new and changed patterns and forget removed ones */
+  sync(patterns: Pattern[]): Promise<SyncStats>;
+  /** Patterns closest to `query`, best first */
+  findSimilar(query: string, limit?: number): Promise<SimilarMatch[]>;
+  /** Drop the stored vectors so the next sync rebuilds them */
+  clear(): void;
+  close(): void;
+}
+
+/**
+ * The `embeddings` section of ~/.sls-memory/config.yaml
+ */
+export interface EmbeddingsConfig {
+  /** `tfidf` (default) or `openai` */
+  provider?: 'tfidf' | 'openai';
+  /** Base URL of an OpenAI-compatible API, e.g. `http://localhost:11434/v1` */
+  url?: string;
+  model?: string;
+  /** Environment variable holding the API key, for endpoints that need one */
+  api_key_env?: string;
+  /** Request timeout in milliseconds */
+  timeout_ms?: number;
 }
 
 /**
  * Get the embeddings database path
  */
 export function getEmbeddingsDbPath(): string {
-  return path.join(os.homedir(), '.sls-memory', 'embeddings.db');
+  return path.join(getDataDir(), 'embeddings.db');
 }
 
 /**
  * Initialize the embeddings database
  */
-export function initEmbeddingsDb(): Database {
-  const dbPath = getEmbeddingsDbPath();
-  const dir = path.dirname(dbPath);
-
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
+export function initEmbeddingsDb(dbPath: string = getEmbeddingsDbPath()): Database {
+  if (dbPath !== ':memory:') {
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
   }
 
   const db = new Database(dbPath);
 
-  // Create tables
+  // The CLI and MCP server may sync the index at the same time
+  db.run('PRAGMA busy_timeout = 5000');
+  db.run('PRAGMA journal_mode = WAL');
+
+  // The old full-rebuild index stored JSON vectors keyed by pattern id; it is
+  // only a cache, so drop it and index from scratch
+  const columns = (db.prepare('PRAGMA table_info(embeddings)').all() as Array<{ name: string }>).map(c => c.name);
+  if (columns.length > 0 && !columns.includes('doc_id')) {
+    for (const table of ['embeddings', 'vocabulary', 'terms', 'postings', 'index_meta', 'dense_embeddings']) {
+      db.run(`DROP TABLE IF EXISTS ${table}`);
+    }
+  }
+
   db.run(`
     CREATE TABLE IF NOT EXISTS embeddings (
-      pattern_id TEXT PRIMARY KEY,
+      doc_id INTEGER PRIMARY KEY,
+      pattern_id TEXT NOT NULL UNIQUE,
+      content_hash TEXT NOT NULL,
+      vector BLOB NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS terms (
+      id INTEGER PRIMARY KEY,
+      term TEXT NOT NULL UNIQUE,
+      doc_count INTEGER NOT NULL
+    )
+  `);
+
+  // One row per term: the documents containing it and their normalized
+  // weights, so a query term costs a single read
+  db.run(`
+    CREATE TABLE IF NOT EXISTS postings (
+      term_id INTEGER PRIMARY KEY,
+      entries BLOB NOT NULL
+    )
+  `);
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS dense_embeddings (
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      pattern_id TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
       vector BLOB NOT NULL,
-      text TEXT NOT NULL,
-      updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (provider, model, pattern_id)
     )
   `);
 
   db.run(`
-    CREATE TABLE IF NOT EXISTS vocabulary (
-      term TEXT PRIMARY KEY,
-      doc_count INTEGER NOT NULL DEFAULT 1,
-      idf REAL
+    CREATE TABLE IF NOT EXISTS index_meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
     )
   `);
 
@@ -98,193 +199,553 @@ function computeTf(terms: string[]): Map<string, number> {
 }
 
 /**
- * Compute IDF values for vocabulary
+ * IDF with smoothing
  */
-function computeIdf(documents: string[][], vocabulary: Set<string>): Map<string, number> {
-  const docCount = documents.length;
-  const idf = new Map<string, number>();
-
-  for (const term of vocabulary) {
-    let termDocCount = 0;
-    for (const doc of documents) {
-      if (doc.includes(term)) {
-        termDocCount++;
-      }
-    }
-    // IDF with smoothing
-    idf.set(term, Math.log((docCount + 1) / (termDocCount + 1)) + 1);
-  }
-
-  return idf;
+function idf(docCount: number, termDocCount: number): number {
+  return Math.log((docCount + 1) / (termDocCount + 1)) + 1;
 }
 
 /**
- * Convert TF-IDF to vector and compute magnitude
+ * Pack (id, weight) pairs into a compact little-endian blob
  */
-function toVector(tf: Map<string, number>, idf: Map<string, number>): TfIdfVector {
-  const terms = new Map<string, number>();
-  let sumSquares = 0;
-
-  for (const [term, tfValue] of tf) {
-    const idfValue = idf.get(term) || 1;
-    const tfidf = tfValue * idfValue;
-    terms.set(term, tfidf);
-    sumSquares += tfidf * tfidf;
-  }
+function encodeVector(entries: Array<[number, number]>): Uint8Array {
+  const bytes = new Uint8Array(entries.length * ENTRY_BYTES);
+  const view = new DataView(bytes.buffer);
+  entries.forEach(([termId, tf], i) => {
+    view.setUint32(i * ENTRY_BYTES, termId, true);
+    view.setFloat32(i * ENTRY_BYTES + 4, tf, true);
+  });
+  return bytes;
+}
 
-  return {
-    terms,
-    magnitude: Math.sqrt(sumSquares),
-  };
+function decodeVector(bytes: Uint8Array): Array<[number, number]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries: Array<[number, number]> = [];
+  for (let offset = 0; offset + ENTRY_BYTES <= bytes.byteLength; offset += ENTRY_BYTES) {
+    entries.push([view.getUint32(offset, true), view.getFloat32(offset + 4, true)]);
+  }
+  return entries;
 }
 
 /**
- * Compute cosine similarity between two TF-IDF vectors
+ * Convert pattern to searchable text
  */
-function cosineSimilarity(v1: TfIdfVector, v2: TfIdfVector): number {
-  if (v1.magnitude === 0 || v2.magnitude === 0) {
-    return 0;
-  }
+export function patternToText(pattern: Pattern): string {
+  return [
+    pattern.title,
+    pattern.category,
+    ...pattern.symptoms,
+    ...pattern.root_causes.map(rootCauseText),
+    pattern.fixes.map(f => f.step).join(' '),
+  ].join(' ');
+}
 
-  let dotProduct = 0;
-  for (const [term, value1] of v1.terms) {
-    const value2 = v2.terms.get(term);
-    if (value2 !== undefined) {
-      dotProduct += value1 * value2;
+function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+/**
+ * Text and content hash of each pattern to index, by id
+ */
+function documentsOf(patterns: Pattern[]): Map<string, { text: string; hash: string }> {
+  const documents = new Map<string, { text: string; hash: string }>();
+  for (const pattern of patterns) {
+    if (!pattern?.id || documents.has(pattern.id)) {
+      continue;
     }
+    const text = patternToText(pattern);
+    documents.set(pattern.id, { text, hash: hashText(text) });
   }
+  return documents;
+}
 
-  return dotProduct / (v1.magnitude * v2.magnitude);
+/**
+ * Stored ids whose rows must go, and documents that must be (re)indexed
+ */
+function diffDocuments(
+  stored: Map<string, string>,
+  wanted: Map<string, { text: string; hash: string }>
+): { stale: string[]; fresh: Array<[string, { text: string; hash: string }]> } {
+  return {
+    stale: [...stored].filter(([id, hash]) => wanted.get(id)?.hash !== hash).map(([id]) => id),
+    fresh: [...wanted].filter(([id, doc]) => stored.get(id) !== doc.hash),
+  };
 }
 
 /**
- * Embeddings manager for pattern similarity
+ * TF-IDF embeddings, the default provider
  */
-export class EmbeddingsManager {
+export class EmbeddingsManager implements EmbeddingProvider {
+  readonly name = 'tfidf';
+  readonly model = 'tfidf';
+  readonly fallbackReason = null;
   private db: Database;
-  private idf: Map<string, number> = new Map();
-  private vectors: Map<string, TfIdfVector> = new Map();
 
-  constructor() {
-    this.db = initEmbeddingsDb();
+  constructor(dbPath?: string) {
+    this.db = initEmbeddingsDb(dbPath);
   }
 
   /**
-   * Build embeddings from patterns
+   * Bring the index in line with `patterns`: index new and changed
+   * patterns and remove rows for patterns that no longer exist
    */
-  buildFromPatterns(patterns: Pattern[]): void {
-    if (patterns.length === 0) return;
+  async sync(patterns: Pattern[]): Promise<SyncStats> {
+    const wanted = documentsOf(patterns);
+    let { stale, fresh } = diffDocuments(this.storedHashes(), wanted);
+
+    if (stale.length > 0 || fresh.length > 0) {
+      // Another process may be indexing the same changes; diff again under
+      // the write lock so each pattern is indexed once
+      this.db.transaction(() => {
+        ({ stale, fresh } = diffDocuments(this.storedHashes(), wanted));
+        if (stale.length === 0 && fresh.length === 0) {
+          return;
+        }
+        const removed = new Map<number, Set<number>>();
+        for (const id of stale) {
+          this.removeDocument(id, removed);
+        }
 
-    // Tokenize all patterns
-    const documents: string[][] = [];
-    const vocabulary = new Set<string>();
+        const added = new Map<number, Array<[number, number]>>();
+        for (const [id, doc] of fresh) {
+          const { docId, vector } = this.addDocument(id, doc.text, doc.hash);
+          added.set(docId, vector);
+        }
 
-    for (const pattern of patterns) {
-      const text = this.patternToText(pattern);
-      const terms = tokenize(text);
-      documents.push(terms);
-      for (const term of terms) {
-        vocabulary.add(term);
-      }
+        this.db.run('DELETE FROM terms WHERE doc_count <= 0');
+        this.writePostings(removed, added);
+      }).immediate();
     }
 
-    // Compute IDF
-    this.idf = computeIdf(documents, vocabulary);
+    return {
+      added: fresh.length,
+      removed: stale.filter(id => !wanted.has(id)).length,
+      total: wanted.size,
+    };
+  }
 
-    // Compute and store vectors
-    const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO embeddings (pattern_id, vector, text, updated_at)
-      VALUES (?, ?, ?, ?)
-    `);
+  /**
+   * Content hash of each indexed pattern, by id
+   */
+  private storedHashes(): Map<string, string> {
+    return new Map(
+      this.db.prepare('SELECT pattern_id, content_hash FROM embeddings').values() as Array<[string, string]>
+    );
+  }
 
-    for (let i = 0; i < patterns.length; i++) {
-      const pattern = patterns[i];
-      const text = this.patternToText(pattern);
-      const terms = tokenize(text);
-      const tf = computeTf(terms);
-      const vector = toVector(tf, this.idf);
+  /**
+   * Drop the whole index so the next sync rebuilds it
+   */
+  clear(): void {
+    this.db.transaction(() => {
+      for (const table of ['embeddings', 'terms', 'postings', 'index_meta']) {
+        this.db.run(`DELETE FROM ${table}`);
+      }
+    })();
+  }
 
-      this.vectors.set(pattern.id, vector);
+  /**
+   * Delete a document and its term counts, noting which posting lists it
+   * has to be dropped from
+   */
+  private removeDocument(patternId: string, removed: Map<number, Set<number>>): void {
+    const row = this.db.prepare('SELECT doc_id, vector FROM embeddings WHERE pattern_id = ?').get(patternId) as { doc_id: number; vector: Uint8Array } | null;
+    if (!row) {
+      return;
+    }
 
-      // Serialize vector for storage
-      const vectorData = JSON.stringify(Array.from(vector.terms.entries()));
-      stmt.run(pattern.id, vectorData, text, Math.floor(Date.now() / 1000));
+    const decrement = this.db.prepare('UPDATE terms SET doc_count = doc_count - 1 WHERE id = ?');
+    for (const [termId] of decodeVector(row.vector)) {
+      decrement.run(termId);
+      const docs = removed.get(termId) ?? new Set<number>();
+      docs.add(row.doc_id);
+      removed.set(termId, docs);
     }
+    this.db.prepare('DELETE FROM embeddings WHERE doc_id = ?').run(row.doc_id);
+  }
 
-    // Store vocabulary IDF values
-    const vocabStmt = this.db.prepare(`
-      INSERT OR REPLACE INTO vocabulary (term, doc_count, idf)
-      VALUES (?, ?, ?)
+  /**
+   * Store a document's term frequencies and count its terms; its postings
+   * are written once every document in the sync is known
+   */
+  private addDocument(patternId: string, text: string, hash: string): { docId: number; vector: Array<[number, number]> } {
+    const upsertTerm = this.db.prepare(`
+      INSERT INTO terms (term, doc_count) VALUES (?, 1)
+      ON CONFLICT (term) DO UPDATE SET doc_count = doc_count + 1
+      RETURNING id
     `);
-    for (const [term, idfValue] of this.idf) {
-      vocabStmt.run(term, 1, idfValue);
+
+    const vector: Array<[number, number]> = [];
+    for (const [term, tf] of computeTf(tokenize(text))) {
+      const { id } = upsertTerm.get(term) as { id: number };
+      vector.push([id, tf]);
     }
+
+    const { doc_id } = this.db.prepare(`
+      INSERT INTO embeddings (pattern_id, content_hash, vector, updated_at)
+      VALUES (?, ?, ?, ?)
+      RETURNING doc_id
+    `).get(patternId, hash, encodeVector(vector), Math.floor(Date.now() / 1000)) as { doc_id: number };
+
+    return { docId: doc_id, vector };
   }
 
   /**
-   * Convert pattern to searchable text
+   * Update the posting lists touched by a sync. Postings hold TF-IDF weights
+   * divided by the document's norm, using the IDF at the time they are
+   * written; once the collection has grown or shrunk enough for that to
+   * matter, every list is rebuilt.
    */
-  private patternToText(pattern: Pattern): string {
-    return [
-      pattern.title,
-      pattern.category,
-      ...pattern.symptoms,
-      ...pattern.root_causes,
-      pattern.fixes.map(f => f.step).join(' '),
-    ].join(' ');
+  private writePostings(removed: Map<number, Set<number>>, added: Map<number, Array<[number, number]>>): void {
+    const docCount = (this.db.prepare('SELECT COUNT(*) AS n FROM embeddings').get() as { n: number }).n;
+    const meta = this.db.prepare("SELECT value FROM index_meta WHERE key = 'norm_doc_count'").get() as { value: string } | null;
+    const normDocCount = meta ? Number(meta.value) : 0;
+    const refreshAll = normDocCount === 0 || Math.abs(docCount - normDocCount) / normDocCount > NORM_REFRESH_DRIFT;
+
+    const docCounts = new Map(
+      this.db.prepare('SELECT id, doc_count FROM terms').values() as Array<[number, number]>
+    );
+
+    const documents = refreshAll
+      ? new Map(
+        (this.db.prepare('SELECT doc_id, vector FROM embeddings').values() as Array<[number, Uint8Array]>)
+          .map(([docId, vector]) => [docId, decodeVector(vector)])
+      )
+      : added;
+
+    // Normalized weights of the documents being (re)written, grouped by term
+    const additions = new Map<number, Array<[number, number]>>();
+    for (const [docId, vector] of documents) {
+      const weights = vector.map(([termId, tf]) => [termId, tf * idf(docCount, docCounts.get(termId) ?? 0)] as [number, number]);
+      const norm = Math.sqrt(weights.reduce((sum, [, weight]) => sum + weight * weight, 0));
+      for (const [termId, weight] of weights) {
+        const entries = additions.get(termId) ?? [];
+        entries.push([docId, norm > 0 ? weight / norm : 0]);
+        additions.set(termId, entries);
+      }
+    }
+
+    const readPostings = this.db.prepare('SELECT entries FROM postings WHERE term_id = ?');
+    const writePostings = this.db.prepare(`
+      INSERT INTO postings (term_id, entries) VALUES (?, ?)
+      ON CONFLICT (term_id) DO UPDATE SET entries = excluded.entries
+    `);
+    const deletePostings = this.db.prepare('DELETE FROM postings WHERE term_id = ?');
+
+    if (refreshAll) {
+      this.db.run('DELETE FROM postings');
+    }
+
+    const touched = refreshAll ? additions.keys() : new Set([...removed.keys(), ...additions.keys()]);
+    for (const termId of touched) {
+      let entries: Array<[number, number]> = [];
+      if (!refreshAll) {
+        const row = readPostings.get(termId) as { entries: Uint8Array } | null;
+        const drop = removed.get(termId);
+        entries = row ? decodeVector(row.entries).filter(([docId]) => !drop?.has(docId)) : [];
+      }
+      entries.push(...(additions.get(termId) ?? []));
+
+      if (entries.length > 0) {
+        writePostings.run(termId, encodeVector(entries));
+      } else {
+        deletePostings.run(termId);
+      }
+    }
+
+    if (refreshAll) {
+      this.db.prepare(`
+        INSERT INTO index_meta (key, value) VALUES ('norm_doc_count', ?)
+        ON CONFLICT (key) DO UPDATE SET value = excluded.value
+      `).run(String(docCount));
+    }
   }
 
   /**
    * Find similar patterns using embeddings
    */
-  findSimilar(query: string, limit: number = 5): Array<{ patternId: string; score: number }> {
-    // Load IDF from database if not in memory
-    if (this.idf.size === 0) {
-      const rows = this.db.prepare('SELECT term, idf FROM vocabulary').all() as Array<{term: string; idf: number}>;
-      for (const row of rows) {
-        this.idf.set(row.term, row.idf);
+  async findSimilar(query: string, limit: number = 5): Promise<SimilarMatch[]> {
+    const queryTf = computeTf(tokenize(query));
+    if (queryTf.size === 0) {
+      return [];
+    }
+
+    const docCount = (this.db.prepare('SELECT COUNT(*) AS n FROM embeddings').get() as { n: number }).n;
+    const lookupTerm = this.db.prepare('SELECT id, doc_count FROM terms WHERE term = ?');
+    const readPostings = this.db.prepare('SELECT entries FROM postings WHERE term_id = ?');
+
+    // Accumulate dot products only for patterns sharing a term with the query
+    const dots = new Map<number, number>();
+    let querySumSquares = 0;
+    for (const [term, tf] of queryTf) {
+      const row = lookupTerm.get(term) as { id: number; doc_count: number } | null;
+      const termIdf = idf(docCount, row?.doc_count ?? 0);
+      const queryWeight = tf * termIdf;
+      querySumSquares += queryWeight * queryWeight;
+
+      const postings = row ? readPostings.get(row.id) as { entries: Uint8Array } | null : null;
+      if (!postings) {
+        continue;
+      }
+      const view = new DataView(postings.entries.buffer, postings.entries.byteOffset, postings.entries.byteLength);
+      for (let offset = 0; offset + ENTRY_BYTES <= view.byteLength; offset += ENTRY_BYTES) {
+        const docId = view.getUint32(offset, true);
+        dots.set(docId, (dots.get(docId) || 0) + queryWeight * view.getFloat32(offset + 4, true));
       }
     }
 
-    // Load vectors from database if not in memory
-    if (this.vectors.size === 0) {
-      const rows = this.db.prepare('SELECT pattern_id, vector FROM embeddings').all() as Array<{pattern_id: string; vector: string}>;
-      for (const row of rows) {
-        const entries = JSON.parse(row.vector) as Array<[string, number]>;
-        const terms = new Map(entries);
-        let sumSquares = 0;
-        for (const value of terms.values()) {
-          sumSquares += value * value;
-        }
-        this.vectors.set(row.pattern_id, { terms, magnitude: Math.sqrt(sumSquares) });
+    const queryMagnitude = Math.sqrt(querySumSquares);
+    const ranked = [...dots]
+      .filter(([, dot]) => dot > 0)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit);
+
+    const patternId = this.db.prepare('SELECT pattern_id FROM embeddings WHERE doc_id = ?');
+    return ranked.map(([docId, dot]) => ({
+      patternId: (patternId.get(docId) as { pattern_id: string }).pattern_id,
+      score: Math.min(1, dot / queryMagnitude),
+    }));
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Scale a vector to unit length so cosine similarity is a dot product
+ */
+function normalize(vector: number[]): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return Float32Array.from(vector, x => (norm > 0 ? x / norm : 0));
+}
+
+export interface OpenAIProviderOptions {
+  /** Base URL of the API; requests go to `<url>/embeddings` */
+  url: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  dbPath?: string;
+}
+
+/**
+ * Dense embeddings from an OpenAI-compatible `/v1/embeddings` endpoint.
+ * A TF-IDF index is kept alongside and used whenever the endpoint can't be
+ * reached, so lookups keep working while a local model server is down.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  fallbackReason: string | null = null;
+  private db: Database;
+  private fallback: EmbeddingsManager;
+  private url: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.model = options.model;
+    this.url = options.url.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.db = initEmbeddingsDb(options.dbPath);
+    this.fallback = new EmbeddingsManager(options.dbPath);
+  }
+
+  async sync(patterns: Pattern[]): Promise<SyncStats> {
+    // The fallback is cheap to keep current and must be ready when needed
+    const fallbackStats = await this.fallback.sync(patterns);
+
+    const wanted = documentsOf(patterns);
+    // Vectors from another model can't be compared with this one's
+    this.db.prepare('DELETE FROM dense_embeddings WHERE provider = ? AND model != ?').run(this.name, this.model);
+    const stored = new Map(
+      this.db.prepare('SELECT pattern_id, content_hash FROM dense_embeddings WHERE provider = ? AND model = ?')
+        .values(this.name, this.model) as Array<[string, string]>
+    );
+    const { stale, fresh } = diffDocuments(stored, wanted);
+
+    let vectors: Float32Array[];
+    try {
+      vectors = await this.embed(fresh.map(([, doc]) => doc.text));
+      this.fallbackReason = null;
+    } catch (err) {
+      this.fallbackReason = (err as Error).message;
+      return fallbackStats;
+    }
+
+    this.db.transaction(() => {
+      const remove = this.db.prepare('DELETE FROM dense_embeddings WHERE provider = ? AND model = ? AND pattern_id = ?');
+      for (const id of stale) {
+        remove.run(this.name, this.model, id);
+      }
+      const insert = this.db.prepare(`
+        INSERT OR REPLACE INTO dense_embeddings (provider, model, pattern_id, content_hash, vector, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      const now = Math.floor(Date.now() / 1000);
+      fresh.forEach(([id, doc], i) => {
+        insert.run(this.name, this.model, id, doc.hash, new Uint8Array(vectors[i].buffer), now);
+      });
+    })();
+
+    return {
+      added: fresh.length,
+      removed: stale.filter(id => !wanted.has(id)).length,
+      total: wanted.size,
+    };
+  }
+
+  async findSimilar(query: string, limit: number = 5): Promise<SimilarMatch[]> {
+    if (this.fallbackReason === null) {
+      try {
+        const [queryVector] = await this.embed([query]);
+        return this.nearest(queryVector, limit);
+      } catch (err) {
+        this.fallbackReason = (err as Error).message;
       }
     }
+    return this.fallback.findSimilar(query, limit);
+  }
+
+  clear(): void {
+    this.db.prepare('DELETE FROM dense_embeddings WHERE provider = ?').run(this.name);
+    this.fallback.clear();
+  }
 
-    // Compute query vector
-    const queryTerms = tokenize(query);
-    const queryTf = computeTf(queryTerms);
-    const queryVector = toVector(queryTf, this.idf);
+  close(): void {
+    this.fallback.close();
+    this.db.close();
+  }
 
-    // Find similar patterns
-    const results: Array<{ patternId: string; score: number }> = [];
+  private nearest(queryVector: Float32Array, limit: number): SimilarMatch[] {
+    const rows = this.db.prepare('SELECT pattern_id, vector FROM dense_embeddings WHERE provider = ? AND model = ?')
+      .values(this.name, this.model) as Array<[string, Uint8Array]>;
 
-    for (const [patternId, patternVector] of this.vectors) {
-      const score = cosineSimilarity(queryVector, patternVector);
-      if (score > 0) {
-        results.push({ patternId, score });
+    const results: SimilarMatch[] = [];
+    for (const [patternId, blob] of rows) {
+      // Copy out of the row buffer, which need not be 4-byte aligned
+      const vector = new Float32Array(blob.slice().buffer);
+      if (vector.length !== queryVector.length) {
+        continue;
+      }
+      let dot = 0;
+      for (let i = 0; i < vector.length; i++) {
+        dot += vector[i] * queryVector[i];
+      }
+      if (dot > 0) {
+        results.push({ patternId, score: Math.min(1, dot) });
       }
     }
 
-    // Sort by score and return top matches
     return results
       .sort((a, b) => b.score - a.score)
       .slice(0, limit);
   }
 
   /**
-   * Close the database connection
+   * Embed texts in batches; any failure rejects so callers can fall back
    */
-  close(): void {
-    this.db.close();
+  private async embed(texts: string[]): Promise<Float32Array[]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+
+      let response: Response;
+      try {
+        response = await fetch(`${this.url}/embeddings`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ model: this.model, input: batch }),
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+      } catch (err) {
+        throw new Error(`Embedding endpoint ${this.url} is unreachable: ${(err as Error).message}`);
+      }
+      if (!response.ok) {
+        throw new Error(`Embedding endpoint ${this.url} returned HTTP ${response.status}`);
+      }
+
+      const body = await response.json() as { data?: Array<{ embedding: number[]; index?: number }> };
+      if (!Array.isArray(body.data) || body.data.length !== batch.length) {
+        throw new Error(`Embedding endpoint ${this.url} returned ${body.data?.length ?? 0} embeddings for ${batch.length} inputs`);
+      }
+      const ordered = [...body.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      vectors.push(...ordered.map(item => normalize(item.embedding)));
+    }
+    return vectors;
+  }
+}
+
+/**
+ * The provider configured under `embeddings` in ~/.sls-memory/config.yaml
+ */
+export function createEmbeddingProvider(
+  config: EmbeddingsConfig = loadConfig().embeddings ?? {},
+  dbPath?: string
+): EmbeddingProvider {
+  const provider = config.provider ?? 'tfidf';
+
+  if (provider === 'tfidf') {
+    return new EmbeddingsManager(dbPath);
+  }
+  if (provider === 'openai') {
+    if (!config.url || !config.model) {
+      throw new Error('The openai embeddings provider needs a url and a model in config.yaml');
+    }
+    return new OpenAIEmbeddingProvider({
+      url: config.url,
+      model: config.model,
+      apiKey: config.api_key_env ? process.env[config.api_key_env] : undefined,
+      timeoutMs: config.timeout_ms,
+      dbPath,
+    });
+  }
+  throw new Error(`Unknown embeddings provider "${provider}" (expected tfidf or openai)`);
+}
+
+/**
+ * Cosine similarity (0-1) of each pattern to a query, from the configured
+ * provider. The index is synced with `patterns` first, so pass the whole
+ * playbook. Patterns with no similarity are left out.
+ */
+export async function semanticScores(
+  patterns: Pattern[],
+  query: string,
+  embeddings?: EmbeddingProvider
+): Promise<Map<Pattern, number>> {
+  const provider = embeddings ?? createEmbeddingProvider();
+  try {
+    await provider.sync(patterns);
+
+    const byId = new Map<string, Pattern>();
+    for (const pattern of patterns) {
+      if (pattern?.id && !byId.has(pattern.id)) {
+        byId.set(pattern.id, pattern);
+      }
+    }
+
+    const scores = new Map<Pattern, number>();
+    for (const match of await provider.findSimilar(query, byId.size)) {
+      // Another process may have synced a different playbook in between
+      const pattern = byId.get(match.patternId);
+      if (pattern) {
+        scores.set(pattern, match.score);
+      }
+    }
+    return scores;
+  } finally {
+    if (!embeddings) {
+      provider.close();
+    }
   }
 }
@@ -0,0 +1,498 @@
+/**
+ * Feedback event log
+ *
+ * Every vote is stored as an event in a SQLite file next to embeddings.db,
+ * so the reason behind a verdict survives and the playbook's feedback
+ * counters can be rebuilt from the log. The first time the log sees a
+ * counter it also keeps the counter's value from before the vote, so votes
+ * cast before the log existed aren't lost by a rebuild.
+ */
+
+import { Database } from 'bun:sqlite';
+import * as path from 'path';
+import * as fs from 'fs';
+import { getDataDir } from './layers.js';
+import {
+  patternIds,
+  rootCauseText,
+  type Feedback,
+  type FeedbackTarget,
+  type Pattern,
+  type Playbook,
+} from './playbook.js';
+
+export type FeedbackVerdict = 'helpful' | 'harmful';
+export type FeedbackSource = 'cli' | 'mcp';
+
+/** What a counter counts votes on */
+export type CounterKind = 'pattern' | 'fix' | 'cause';
+
+/**
+ * A single recorded vote
+ */
+export interface FeedbackEvent {
+  /** Row id, assigned when the event is stored */
+  id: number;
+  patternId: string;
+  verdict: FeedbackVerdict;
+  /** Why the voter reached this verdict */
+  reason: string | null;
+  /** The query that surfaced the pattern */
+  query: string | null;
+  /** 1-based fix the vote was about, if any */
+  fix: number | null;
+  /** 1-based root cause the vote was about, if any */
+  cause: number | null;
+  /** Step of the fix voted on, as it read then; null for votes logged without it */
+  fixStep: string | null;
+  /** Text of the root cause voted on, as it read then */
+  causeText: string | null;
+  source: FeedbackSource;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+}
+
+export type NewFeedbackEvent = Omit<FeedbackEvent, 'id' | 'timestamp' | 'reason' | 'query' | 'fix' | 'cause' | 'fixStep' | 'causeText'> & {
+  reason?: string | null;
+  query?: string | null;
+  fix?: number | null;
+  cause?: number | null;
+  timestamp?: number;
+};
+
+interface FeedbackRow {
+  id: number;
+  pattern_id: string;
+  verdict: FeedbackVerdict;
+  reason: string | null;
+  query: string | null;
+  fix_index: number | null;
+  cause_index: number | null;
+  fix_step: string | null;
+  cause_text: string | null;
+  source: FeedbackSource;
+  created_at: number;
+}
+
+/**
+ * The counters a vote changes, as they were before it, and the ids that
+ * resolve to its pattern. The log keeps these the first time it sees a
+ * counter; see FeedbackLog.record.
+ */
+export interface VoteBaseline {
+  /** The pattern's id first, then aliases of it */
+  ids: string[];
+  pattern: Feedback;
+  fix?: { step: string; feedback: Feedback };
+  cause?: { text: string; feedback: Feedback };
+}
+
+/**
+ * What the log holds for each counter, keyed by counterKey
+ */
+export interface FeedbackTotals {
+  /** Votes logged on each counter */
+  logged: Map<string, Feedback>;
+  /** Each counter's value before its first logged vote */
+  baselines: Map<string, Feedback>;
+  /**
+   * Votes on fixes and root causes logged by position only, before their
+   * text was logged; keyed with the 1-based position as the text
+   */
+  positional: Map<string, Feedback>;
+}
+
+const NO_VOTES: Feedback = { helpful: 0, harmful: 0 };
+
+/**
+ * Key of a counter in FeedbackTotals: the pattern's own counter has an
+ * empty text, a fix's is its step and a root cause's its text
+ */
+export function counterKey(patternId: string, kind: CounterKind, text: string = ''): string {
+  return `${patternId}\0${kind}\0${text}`;
+}
+
+function addVotes(a: Feedback, b: Feedback | undefined): Feedback {
+  return b ? { helpful: a.helpful + b.helpful, harmful: a.harmful + b.harmful } : a;
+}
+
+/**
+ * The counters a vote on `pattern` (and `target`) will change, read before
+ * recordFeedback changes them
+ */
+export function voteBaseline(playbook: Playbook, pattern: Pattern, target: FeedbackTarget = {}): VoteBaseline {
+  const baseline: VoteBaseline = { ids: patternIds(playbook, pattern), pattern: { ...pattern.feedback } };
+  if (target.fix !== undefined) {
+    const fix = pattern.fixes[target.fix - 1];
+    baseline.fix = { step: fix.step, feedback: { ...(fix.feedback ?? NO_VOTES) } };
+  }
+  if (target.cause !== undefined) {
+    const entry = pattern.root_causes[target.cause - 1];
+    const feedback = typeof entry === 'string' ? undefined : entry.feedback;
+    baseline.cause = { text: rootCauseText(entry), feedback: { ...(feedback ?? NO_VOTES) } };
+  }
+  return baseline;
+}
+
+/**
+ * Get the feedback log database path
+ */
+export function getFeedbackDbPath(): string {
+  return path.join(getDataDir(), 'feedback.db');
+}
+
+/**
+ * Initialize the feedback log database
+ */
+export function initFeedbackDb(dbPath: string = getFeedbackDbPath()): Database {
+  const dir = path.dirname(dbPath);
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+
+  // Several agents may vote at once; wait for the writer instead of failing
+  db.run('PRAGMA busy_timeout = 5000');
+  db.run('PRAGMA journal_mode = WAL');
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS feedback_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      pattern_id TEXT NOT NULL,
+      verdict TEXT NOT NULL CHECK (verdict IN ('helpful', 'harmful')),
+      reason TEXT,
+      query TEXT,
+      fix_index INTEGER,
+      cause_index INTEGER,
+      source TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `);
+
+  // Logs created before per-fix feedback lack the target columns
+  const columns = new Set(
+    (db.prepare('PRAGMA table_info(feedback_events)').all() as Array<{ name: string }>).map(c => c.name)
+  );
+  for (const [column, type] of [['fix_index', 'INTEGER'], ['cause_index', 'INTEGER'], ['fix_step', 'TEXT'], ['cause_text', 'TEXT']]) {
+    if (!columns.has(column)) {
+      db.run(`ALTER TABLE feedback_events ADD COLUMN ${column} ${type}`);
+    }
+  }
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS feedback_baselines (
+      pattern_id TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('pattern', 'fix', 'cause')),
+      target TEXT NOT NULL,
+      helpful INTEGER NOT NULL,
+      harmful INTEGER NOT NULL,
+      PRIMARY KEY (pattern_id, kind, target)
+    )
+  `);
+
+  db.run(`
+    CREATE INDEX IF NOT EXISTS idx_feedback_events_pattern
+    ON feedback_events (pattern_id, created_at)
+  `);
+
+  return db;
+}
+
+function toEvent(row: FeedbackRow): FeedbackEvent {
+  return {
+    id: row.id,
+    patternId: row.pattern_id,
+    verdict: row.verdict,
+    reason: row.reason,
+    query: row.query,
+    fix: row.fix_index,
+    cause: row.cause_index,
+    fixStep: row.fix_step,
+    causeText: row.cause_text,
+    source: row.source,
+    timestamp: row.created_at,
+  };
+}
+
+/**
+ * Append-only store of feedback events
+ */
+export class FeedbackLog {
+  private db: Database;
+
+  constructor(dbPath?: string) {
+    this.db = initFeedbackDb(dbPath);
+  }
+
+  /**
+   * Store a vote and return it with its assigned id. With a baseline, the
+   * fix step and root cause text voted on are stored too, and the counters
+   * the log sees for the first time keep their values from before the vote.
+   */
+  record(event: NewFeedbackEvent, baseline?: VoteBaseline): FeedbackEvent {
+    const timestamp = event.timestamp ?? Math.floor(Date.now() / 1000);
+    return this.db.transaction(() => {
+      if (baseline) {
+        this.keepBaseline(baseline.ids, 'pattern', '', baseline.pattern);
+        if (baseline.fix) {
+          this.keepBaseline(baseline.ids, 'fix', baseline.fix.step, baseline.fix.feedback);
+        }
+        if (baseline.cause) {
+          this.keepBaseline(baseline.ids, 'cause', baseline.cause.text, baseline.cause.feedback);
+        }
+      }
+
+      const row = this.db.prepare(`
+        INSERT INTO feedback_events
+          (pattern_id, verdict, reason, query, fix_index, cause_index, fix_step, cause_text, source, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `).get(
+        event.patternId,
+        event.verdict,
+        event.reason ?? null,
+        event.query ?? null,
+        event.fix ?? null,
+        event.cause ?? null,
+        baseline?.fix?.step ?? null,
+        baseline?.cause?.text ?? null,
+        event.source,
+        timestamp
+      ) as FeedbackRow;
+      return toEvent(row);
+    })();
+  }
+
+  /**
+   * Give the ids without a baseline for a counter one. The first of them
+   * gets what the log can't account for: `before` less the votes and
+   * baselines already logged under any of the ids, such as the pattern's
+   * votes before a renumber, or those of a pattern merged into it. The
+   * rest get zero.
+   */
+  private keepBaseline(ids: string[], kind: CounterKind, target: string, before: Feedback): void {
+    const placeholders = ids.map(() => '?').join(', ');
+    const known = this.db.prepare(`
+      SELECT pattern_id, helpful, harmful FROM feedback_baselines
+      WHERE kind = ? AND target = ? AND pattern_id IN (${placeholders})
+    `).all(kind, target, ...ids) as Array<{ pattern_id: string; helpful: number; harmful: number }>;
+    const missing = ids.filter(id => !known.some(row => row.pattern_id === id));
+    if (missing.length === 0) {
+      return;
+    }
+
+    const column = kind === 'fix' ? 'fix_step' : 'cause_text';
+    const logged = this.db.prepare(`
+      SELECT
+        COALESCE(SUM(CASE WHEN verdict = 'helpful' THEN 1 ELSE 0 END), 0) as helpful,
+        COALESCE(SUM(CASE WHEN verdict = 'harmful' THEN 1 ELSE 0 END), 0) as harmful
+      FROM feedback_events
+      WHERE pattern_id IN (${placeholders})${kind === 'pattern' ? '' : ` AND ${column} = ?`}
+    `).get(...ids, ...(kind === 'pattern' ? [] : [target])) as Feedback;
+    const accounted = known.reduce((sum, row) => addVotes(sum, row), logged);
+
+    const insert = this.db.prepare(`
+      INSERT INTO feedback_baselines (pattern_id, kind, target, helpful, harmful) VALUES (?, ?, ?, ?, ?)
+    `);
+    missing.forEach((id, i) => {
+      const helpful = i === 0 ? Math.max(0, before.helpful - accounted.helpful) : 0;
+      const harmful = i === 0 ? Math.max(0, before.harmful - accounted.harmful) : 0;
+      insert.run(id, kind, target, helpful, harmful);
+    });
+  }
+
+  /**
+   * Events for one pattern, newest first
+   */
+  history(patternId: string, limit: number = 50): FeedbackEvent[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM feedback_events
+      WHERE pattern_id = ?
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `).all(patternId, limit) as FeedbackRow[];
+
+    return rows.map(toEvent);
+  }
+
+  /**
+   * Most recent events across all patterns, newest first
+   */
+  recent(limit: number = 20): FeedbackEvent[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM feedback_events
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `).all(limit) as FeedbackRow[];
+
+    return rows.map(toEvent);
+  }
+
+  /**
+   * Helpful/harmful totals per pattern id
+   */
+  counts(): Map<string, Feedback> {
+    const rows = this.db.prepare(`
+      SELECT
+        pattern_id,
+        SUM(CASE WHEN verdict = 'helpful' THEN 1 ELSE 0 END) as helpful,
+        SUM(CASE WHEN verdict = 'harmful' THEN 1 ELSE 0 END) as harmful
+      FROM feedback_events
+      GROUP BY pattern_id
+    `).all() as Array<{ pattern_id: string; helpful: number; harmful: number }>;
+
+    return new Map(rows.map(r => [r.pattern_id, { helpful: r.helpful, harmful: r.harmful }]));
+  }
+
+  /**
+   * Votes and baselines per counter, for rebuildFeedbackCounters
+   */
+  totals(): FeedbackTotals {
+    const totals: FeedbackTotals = { logged: new Map(), baselines: new Map(), positional: new Map() };
+    const sum = (group: string, where: string) => this.db.prepare(`
+      SELECT
+        pattern_id,
+        ${group} as target,
+        SUM(CASE WHEN verdict = 'helpful' THEN 1 ELSE 0 END) as helpful,
+        SUM(CASE WHEN verdict = 'harmful' THEN 1 ELSE 0 END) as harmful
+      FROM feedback_events
+      WHERE ${where}
+      GROUP BY pattern_id, ${group}
+    `).all() as Array<{ pattern_id: string; target: string | number; helpful: number; harmful: number }>;
+    const collect = (into: Map<string, Feedback>, kind: CounterKind, rows: ReturnType<typeof sum>) => {
+      for (const row of rows) {
+        into.set(counterKey(row.pattern_id, kind, String(row.target)), { helpful: row.helpful, harmful: row.harmful });
+      }
+    };
+
+    collect(totals.logged, 'pattern', sum("''", '1 = 1'));
+    collect(totals.logged, 'fix', sum('fix_step', 'fix_step IS NOT NULL'));
+    collect(totals.logged, 'cause', sum('cause_text', 'cause_text IS NOT NULL'));
+    collect(totals.positional, 'fix', sum('fix_index', 'fix_step IS NULL AND fix_index IS NOT NULL'));
+    collect(totals.positional, 'cause', sum('cause_index', 'cause_text IS NULL AND cause_index IS NOT NULL'));
+
+    const baselines = this.db.prepare('SELECT * FROM feedback_baselines').all() as Array<{
+      pattern_id: string;
+      kind: CounterKind;
+      target: string;
+      helpful: number;
+      harmful: number;
+    }>;
+    for (const row of baselines) {
+      totals.baselines.set(counterKey(row.pattern_id, row.kind, row.target), { helpful: row.helpful, harmful: row.harmful });
+    }
+    return totals;
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * A pattern's own counter, or one of its fixes' or root causes' (1-based)
+ */
+export interface CounterRef {
+  patternId: string;
+  fix?: number;
+  cause?: number;
+}
+
+/**
+ * Change made to a counter by rebuildFeedbackCounters
+ */
+export interface CounterChange extends CounterRef {
+  before: Feedback;
+  after: Feedback;
+}
+
+/**
+ * Outcome of rebuildFeedbackCounters
+ */
+export interface RebuildResult {
+  changes: CounterChange[];
+  /**
+   * Counters left alone because the log can't say what they held before
+   * its votes, such as those of a pattern merged in before anyone voted
+   * on it
+   */
+  uncovered: CounterRef[];
+}
+
+/**
+ * Reset feedback counters (patterns', fixes' and root causes') to their
+ * baselines plus the votes logged since. Votes logged under an id that now
+ * aliases a pattern count for that pattern, and fix and root cause votes
+ * follow the step or text they were cast on. Counters the log knows
+ * nothing about keep their values, and so do those it doesn't fully cover,
+ * unless `all` is set: then they are reset to what the log holds, zero if
+ * nothing.
+ */
+export function rebuildFeedbackCounters(
+  playbook: Playbook,
+  totals: FeedbackTotals,
+  options: { all?: boolean } = {}
+): RebuildResult {
+  const result: RebuildResult = { changes: [], uncovered: [] };
+
+  for (const pattern of playbook.patterns) {
+    const ids = patternIds(playbook, pattern);
+
+    const rebuild = (
+      ref: CounterRef,
+      kind: CounterKind,
+      text: string,
+      current: Feedback | undefined,
+      update: (feedback: Feedback) => void
+    ) => {
+      const keys = ids.map(id => counterKey(id, kind, text));
+      const baselines = keys.map(key => totals.baselines.get(key));
+      let after = keys.reduce((sum, key, i) => addVotes(addVotes(sum, totals.logged.get(key)), baselines[i]), NO_VOTES);
+      let known = keys.some(key => totals.logged.has(key)) || baselines.some(Boolean);
+
+      // Votes logged by position, before their text was, predate every
+      // baseline of the counter
+      const position = ref.fix ?? ref.cause;
+      if (position !== undefined && !baselines.some(Boolean)) {
+        const positional = totals.positional.get(counterKey(pattern.id, kind, String(position)));
+        after = addVotes(after, positional);
+        known ||= positional !== undefined;
+      }
+
+      if (!options.all && (!known || baselines.some(b => !b))) {
+        if (known) {
+          result.uncovered.push(ref);
+        }
+        return;
+      }
+
+      const before = current ?? NO_VOTES;
+      if (after.helpful !== before.helpful || after.harmful !== before.harmful) {
+        result.changes.push({ ...ref, before: { ...before }, after: { ...after } });
+        update(after);
+      }
+    };
+
+    rebuild({ patternId: pattern.id }, 'pattern', '', pattern.feedback, after => {
+      pattern.feedback = { ...pattern.feedback, ...after };
+    });
+    pattern.fixes.forEach((fix, i) => {
+      rebuild({ patternId: pattern.id, fix: i + 1 }, 'fix', fix.step, fix.feedback, after => {
+        fix.feedback = after;
+      });
+    });
+    pattern.root_causes.forEach((entry, i) => {
+      const cause = rootCauseText(entry);
+      rebuild({ patternId: pattern.id, cause: i + 1 }, 'cause', cause, typeof entry === 'string' ? undefined : entry.feedback, after => {
+        pattern.root_causes[i] = { cause, feedback: after };
+      });
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,605 @@
+/**
+ * Playbook import and export formats
+ *
+ * Besides YAML and JSON, patterns can be written as a Markdown runbook (one
+ * section per pattern, fixes as fenced shell blocks) and as CSV (one row per
+ * pattern). Both are parsed back in, so a wiki runbook or a spreadsheet can
+ * be edited and imported again.
+ */
+
+import * as path from 'path';
+import YAML from 'yaml';
+import {
+  createPattern,
+  fingerprintFromTitle,
+  formatMatchRegex,
+  MATCH_CLAUSE_KINDS,
+  migratePlaybook,
+  parseMatchRegex,
+  PlaybookParseError,
+  PLAYBOOK_VERSION,
+  type Feedback,
+  type Fix,
+  type MatchClauseKind,
+  type Pattern,
+  type PatternMatch,
+  type RootCauseEntry,
+} from './playbook.js';
+
+export type PlaybookFormat = 'yaml' | 'json' | 'markdown' | 'csv';
+
+export const PLAYBOOK_FORMATS: PlaybookFormat[] = ['yaml', 'json', 'markdown', 'csv'];
+
+const EXTENSIONS: Record<string, PlaybookFormat> = {
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.json': 'json',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.csv': 'csv',
+};
+
+/**
+ * The format a file's extension stands for, if any
+ */
+export function formatForPath(filePath: string): PlaybookFormat | undefined {
+  return EXTENSIONS[path.extname(filePath).toLowerCase()];
+}
+
+/**
+ * Serialize patterns in the given format
+ */
+export function exportPatterns(patterns: Pattern[], format: PlaybookFormat): string {
+  switch (format) {
+    case 'yaml':
+      return YAML.stringify({ version: PLAYBOOK_VERSION, patterns });
+    case 'json':
+      return `${JSON.stringify({ version: PLAYBOOK_VERSION, patterns }, null, 2)}\n`;
+    case 'markdown':
+      return toMarkdown(patterns);
+    case 'csv':
+      return toCsv(patterns);
+  }
+}
+
+/**
+ * Read the patterns in a file's content. Entries are not validated; run
+ * them through validatePattern before use. YAML and JSON may hold a playbook
+ * of any supported version or a bare list of patterns.
+ */
+export function parsePatterns(content: string, format: PlaybookFormat, filePath: string): unknown[] {
+  switch (format) {
+    case 'yaml':
+    case 'json':
+      return parseStructured(content, format, filePath);
+    case 'markdown':
+      return fromMarkdown(content);
+    case 'csv':
+      return fromCsv(content, filePath);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseStructured(content: string, format: 'yaml' | 'json', filePath: string): unknown[] {
+  let data: unknown;
+  try {
+    data = format === 'json' ? JSON.parse(content) : YAML.parse(content);
+  } catch (err) {
+    if (err instanceof SyntaxError || err instanceof YAML.YAMLParseError) {
+      throw new PlaybookParseError(filePath, err.message.split('\n')[0]);
+    }
+    throw err;
+  }
+
+  if (data === null || data === undefined) {
+    return [];
+  }
+  const playbook = Array.isArray(data) ? { patterns: data } : data;
+  if (!isRecord(playbook) || !Array.isArray(playbook.patterns)) {
+    throw new PlaybookParseError(filePath, 'expected a playbook or a list of patterns');
+  }
+  migratePlaybook(playbook, filePath);
+  return playbook.patterns as unknown[];
+}
+
+/** Longest run of backticks in `text` */
+function longestRun(text: string): number {
+  return Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+}
+
+/**
+ * Inline code that survives any backticks in `text`. Text starting or ending
+ * with a backtick or space is padded with one space on each side.
+ */
+function codeSpan(text: string): string {
+  const fence = '`'.repeat(longestRun(text) + 1);
+  const pad = /^[` ]|[` ]$/.test(text) ? ' ' : '';
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+/**
+ * Contents of the code spans in a line of Markdown
+ */
+function codeSpans(text: string): string[] {
+  const spans: string[] = [];
+  const opener = /`+/g;
+  let open: RegExpExecArray | null;
+  while ((open = opener.exec(text))) {
+    const closer = new RegExp(`(?<!\`)\`{${open[0].length}}(?!\`)`, 'g');
+    closer.lastIndex = opener.lastIndex;
+    const close = closer.exec(text);
+    if (!close) {
+      break;
+    }
+    const inner = text.slice(opener.lastIndex, close.index);
+    spans.push(inner.length >= 2 && inner.startsWith(' ') && inner.endsWith(' ') ? inner.slice(1, -1) : inner);
+    opener.lastIndex = closer.lastIndex;
+  }
+  return spans;
+}
+
+function fencedBlock(code: string, info: string, indent: string): string[] {
+  const fence = '`'.repeat(Math.max(3, longestRun(code) + 1));
+  return [
+    `${indent}${fence}${info}`,
+    ...code.split('\n').map(line => (line === '' ? '' : `${indent}${line}`)),
+    `${indent}${fence}`,
+  ];
+}
+
+/** Votes on a fix or root cause, kept out of the rendered runbook */
+function feedbackComment(feedback: Feedback | undefined): string {
+  return feedback ? ` <!-- feedback: ${feedback.helpful} helpful, ${feedback.harmful} harmful -->` : '';
+}
+
+const FEEDBACK_COMMENT = /\s*<!--\s*feedback:\s*(\d+) helpful, (\d+) harmful\s*-->\s*$/;
+
+/** A list item; continuation lines are indented to line up with the first */
+function listItem(marker: string, text: string): string[] {
+  const indent = ' '.repeat(marker.length);
+  const [first, ...rest] = text.split('\n');
+  return [`${marker}${first}`, ...rest.map(line => `${indent}${line}`)];
+}
+
+/**
+ * Metadata shown as `- **Label:** value` lines under a pattern's heading.
+ * Code values are inline code; lists are inline code separated by commas.
+ */
+const MARKDOWN_FIELDS: Array<{ label: string; field: keyof Pattern; kind: 'text' | 'code' | 'list' }> = [
+  { label: 'ID', field: 'id', kind: 'text' },
+  { label: 'Pattern', field: 'pattern', kind: 'code' },
+  { label: 'Fingerprint', field: 'fingerprint', kind: 'text' },
+  { label: 'Severity', field: 'severity', kind: 'text' },
+  { label: 'Category', field: 'category', kind: 'text' },
+  { label: 'Status', field: 'status', kind: 'text' },
+  { label: 'Superseded by', field: 'superseded_by', kind: 'text' },
+  { label: 'Services', field: 'services', kind: 'list' },
+  { label: 'Workspaces', field: 'workspaces', kind: 'list' },
+  { label: 'Hosts', field: 'hosts', kind: 'list' },
+  { label: 'Exception type', field: 'exception_type', kind: 'code' },
+  { label: 'Frame', field: 'frame', kind: 'code' },
+];
+
+/**
+ * `match` clauses, shown like list fields with flags written inline (see
+ * formatMatchRegex)
+ */
+const MATCH_LABELS: Record<MatchClauseKind, string> = { any: 'Match any', all: 'Match all', none: 'Match none' };
+
+function markdownSection(p: Pattern): string[] {
+  const lines = [`## ${p.title}`, ''];
+
+  for (const { label, field, kind } of MARKDOWN_FIELDS) {
+    const value = p[field];
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    const text = kind === 'list'
+      ? (value as string[]).map(codeSpan).join(', ')
+      : kind === 'code' ? codeSpan(String(value)) : String(value);
+    lines.push(`- **${label}:** ${text}`);
+  }
+  for (const kind of MATCH_CLAUSE_KINDS) {
+    const entries = p.match?.[kind] ?? [];
+    if (entries.length > 0) {
+      lines.push(`- **${MATCH_LABELS[kind]}:** ${entries.map(entry => codeSpan(formatMatchRegex(entry))).join(', ')}`);
+    }
+  }
+  if (p.feedback.helpful > 0 || p.feedback.harmful > 0) {
+    lines.push(`- **Feedback:** ${p.feedback.helpful} helpful, ${p.feedback.harmful} harmful`);
+  }
+
+  if (p.symptoms.length > 0) {
+    lines.push('', '### Symptoms', '');
+    for (const symptom of p.symptoms) {
+      if (symptom.includes('\n')) {
+        const [open, ...block] = fencedBlock(symptom, '', '  ');
+        lines.push(`- ${open.trimStart()}`, ...block);
+      } else {
+        lines.push(`- ${codeSpan(symptom)}`);
+      }
+    }
+  }
+
+  if (p.root_causes.length > 0) {
+    lines.push('', '### Root causes', '');
+    for (const entry of p.root_causes) {
+      const text = typeof entry === 'string' ? entry : `${entry.cause}${feedbackComment(entry.feedback)}`;
+      lines.push(...listItem('- ', text));
+    }
+  }
+
+  if (p.fixes.length > 0) {
+    lines.push('', '### Fixes');
+    p.fixes.forEach((fix, i) => {
+      const marker = `${i + 1}. `;
+      lines.push('', ...listItem(marker, `${fix.step}${feedbackComment(fix.feedback)}`));
+      if (fix.command !== undefined) {
+        lines.push('', ...fencedBlock(fix.command, 'sh', ' '.repeat(marker.length)));
+      }
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Render patterns as a Markdown runbook: a `##` section per pattern with its
+ * metadata, then symptoms, root causes and numbered fixes, each fix command
+ * in a fenced `sh` block
+ */
+function toMarkdown(patterns: Pattern[]): string {
+  const sections = patterns.map(p => markdownSection(p).join('\n'));
+  return `${['# Playbook', ...sections].join('\n\n')}\n`;
+}
+
+interface MarkdownItem {
+  text: string;
+  code?: string;
+  feedback?: Feedback;
+}
+
+/**
+ * List items in a section of Markdown. An item runs until the next item or
+ * an unindented line; the first fenced block in it is its code.
+ */
+function parseListItems(lines: string[]): MarkdownItem[] {
+  const items: Array<{ text: string[]; code?: string }> = [];
+  let current: { text: string[]; code?: string; indent: number } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const marker = /^(?:[-*+]|\d+[.)])\s+/.exec(line);
+    let body: string;
+    if (marker) {
+      current = { text: [], indent: marker[0].length };
+      items.push(current);
+      body = line.slice(marker[0].length);
+    } else if (current && (line.trim() === '' || /^\s*/.exec(line)![0].length >= current.indent)) {
+      body = line.slice(current.indent);
+    } else {
+      current = null;
+      continue;
+    }
+
+    const fence = /^(`{3,})/.exec(body);
+    if (fence) {
+      const close = new RegExp(`^\\s*\`{${fence[1].length},}\\s*$`);
+      const code: string[] = [];
+      for (i++; i < lines.length && !close.test(lines[i]); i++) {
+        code.push(lines[i].slice(Math.min(current.indent, /^\s*/.exec(lines[i])![0].length)));
+      }
+      current.code ??= code.join('\n');
+    } else if (body.trim() !== '') {
+      current.text.push(body.trim());
+    }
+  }
+
+  return items.map(item => {
+    const text = item.text.join('\n');
+    const votes = FEEDBACK_COMMENT.exec(text);
+    return {
+      text: votes ? text.slice(0, votes.index) : text,
+      ...(item.code !== undefined ? { code: item.code } : {}),
+      ...(votes ? { feedback: { helpful: Number(votes[1]), harmful: Number(votes[2]) } } : {}),
+    };
+  });
+}
+
+function codeOrText(value: string): string {
+  return value.startsWith('`') ? (codeSpans(value)[0] ?? value) : value;
+}
+
+function patternFromMarkdown(title: string, lines: string[]): Pattern {
+  const pattern = createPattern({ title });
+  const sections = new Map<string, string[]>();
+  let section = '';
+
+  for (const line of lines) {
+    const heading = /^###\s+(.*)$/.exec(line);
+    if (heading) {
+      section = heading[1].trim().toLowerCase();
+      sections.set(section, []);
+      continue;
+    }
+    if (section !== '') {
+      sections.get(section)!.push(line);
+      continue;
+    }
+
+    const meta = /^[-*+]\s+\*\*(.+?):\*\*\s*(.*)$/.exec(line);
+    if (!meta) {
+      continue;
+    }
+    const label = meta[1].trim().toLowerCase();
+    const value = meta[2].trim();
+    if (label === 'feedback') {
+      const votes = /(\d+) helpful, (\d+) harmful/.exec(value);
+      if (votes) {
+        pattern.feedback = { helpful: Number(votes[1]), harmful: Number(votes[2]) };
+      }
+      continue;
+    }
+    const kind = MATCH_CLAUSE_KINDS.find(k => MATCH_LABELS[k].toLowerCase() === label);
+    if (kind) {
+      (pattern.match ??= {})[kind] = codeSpans(value).map(parseMatchRegex);
+      continue;
+    }
+    const field = MARKDOWN_FIELDS.find(f => f.label.toLowerCase() === label);
+    if (!field) {
+      continue;
+    }
+    const parsed = field.kind === 'list'
+      ? (value.includes('`') ? codeSpans(value) : value.split(',').map(v => v.trim()).filter(Boolean))
+      : field.kind === 'code' ? codeOrText(value) : value;
+    (pattern as unknown as Record<string, unknown>)[field.field] = parsed;
+  }
+
+  pattern.symptoms = parseListItems(sections.get('symptoms') ?? [])
+    .map(item => (item.text === '' && item.code !== undefined ? item.code : codeOrText(item.text)));
+  pattern.root_causes = parseListItems(sections.get('root causes') ?? [])
+    .map((item): RootCauseEntry => (item.feedback ? { cause: item.text, feedback: item.feedback } : item.text));
+  pattern.fixes = parseListItems(sections.get('fixes') ?? []).map((item): Fix => ({
+    step: item.text,
+    ...(item.code !== undefined ? { command: item.code } : {}),
+    ...(item.feedback ? { feedback: item.feedback } : {}),
+  }));
+  if (pattern.fingerprint === '') {
+    pattern.fingerprint = fingerprintFromTitle(title);
+  }
+  return pattern;
+}
+
+/**
+ * Read a Markdown runbook. Every `##` heading starts a pattern; text outside
+ * the metadata list and the Symptoms, Root causes and Fixes subsections is
+ * ignored, so runbooks can carry notes of their own.
+ */
+function fromMarkdown(content: string): Pattern[] {
+  const patterns: Pattern[] = [];
+  let current: { title: string; lines: string[] } | null = null;
+  let fence: RegExp | null = null;
+
+  const flush = () => {
+    if (current) {
+      patterns.push(patternFromMarkdown(current.title, current.lines));
+    }
+  };
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    // Headings inside fenced blocks are content
+    if (fence) {
+      fence = fence.test(line) ? null : fence;
+    } else {
+      const open = /^\s*(`{3,})/.exec(line);
+      if (open) {
+        fence = new RegExp(`^\\s*\`{${open[1].length},}\\s*$`);
+      } else {
+        const heading = /^##(?:\s+(.*))?$/.exec(line);
+        if (heading) {
+          flush();
+          current = { title: (heading[1] ?? '').trim(), lines: [] };
+          continue;
+        }
+        if (/^#\s/.test(line)) {
+          flush();
+          current = null;
+          continue;
+        }
+      }
+    }
+    current?.lines.push(line);
+  }
+  flush();
+  return patterns;
+}
+
+/**
+ * CSV columns, one row per pattern. List cells hold one item per line, or
+ * a JSON array of strings when an item has line breaks of its own;
+ * fix_commands lines up with fixes, and match_* cells hold one regex per
+ * item with flags written inline (see formatMatchRegex). Feedback on
+ * individual fixes and root causes is not kept.
+ */
+const CSV_COLUMNS = [
+  'id', 'title', 'pattern', 'fingerprint', 'severity', 'category', 'status', 'superseded_by',
+  'services', 'workspaces', 'hosts', 'exception_type', 'frame', 'match_any', 'match_all', 'match_none',
+  'symptoms', 'root_causes', 'fixes', 'fix_commands', 'helpful', 'harmful',
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+function csvCell(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * A list as a cell. A first item starting with `[` also takes the JSON
+ * form, so a cell that starts with `[` and parses is always a JSON list.
+ */
+function csvList(values: string[] = []): string {
+  return values.some(value => /[\r\n]/.test(value)) || values[0]?.startsWith('[')
+    ? JSON.stringify(values)
+    : values.join('\n');
+}
+
+function parseCsvList(cell: string): string[] {
+  if (cell === '') {
+    return [];
+  }
+  if (cell.startsWith('[')) {
+    try {
+      const values: unknown = JSON.parse(cell);
+      if (Array.isArray(values) && values.every(value => typeof value === 'string')) {
+        return values;
+      }
+    } catch {
+      // A hand-written cell whose first line starts with "["
+    }
+  }
+  return cell.split(/\r?\n/);
+}
+
+function csvRow(p: Pattern): Record<CsvColumn, string> {
+  return {
+    id: p.id,
+    title: p.title,
+    pattern: p.pattern,
+    fingerprint: p.fingerprint,
+    severity: p.severity,
+    category: p.category,
+    status: p.status ?? '',
+    superseded_by: p.superseded_by ?? '',
+    services: csvList(p.services),
+    workspaces: csvList(p.workspaces),
+    hosts: csvList(p.hosts),
+    exception_type: p.exception_type ?? '',
+    frame: p.frame ?? '',
+    match_any: csvList(p.match?.any?.map(formatMatchRegex)),
+    match_all: csvList(p.match?.all?.map(formatMatchRegex)),
+    match_none: csvList(p.match?.none?.map(formatMatchRegex)),
+    symptoms: csvList(p.symptoms),
+    root_causes: csvList(p.root_causes.map(entry => (typeof entry === 'string' ? entry : entry.cause))),
+    fixes: csvList(p.fixes.map(fix => fix.step)),
+    fix_commands: p.fixes.some(fix => fix.command !== undefined) ? csvList(p.fixes.map(fix => fix.command ?? '')) : '',
+    helpful: String(p.feedback.helpful),
+    harmful: String(p.feedback.harmful),
+  };
+}
+
+function toCsv(patterns: Pattern[]): string {
+  const rows = patterns.map(p => {
+    const row = csvRow(p);
+    return CSV_COLUMNS.map(column => csvCell(row[column])).join(',');
+  });
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\n')}\n`;
+}
+
+/**
+ * Split CSV into rows of cells (RFC 4180: quoted cells may hold commas,
+ * doubled quotes and line breaks)
+ */
+function parseCsv(content: string, filePath: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quotedFrom: number | null = null;
+  let line = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (c === '\n') {
+      line++;
+    }
+    if (quotedFrom !== null) {
+      if (c !== '"') {
+        cell += c;
+      } else if (content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quotedFrom = null;
+      }
+    } else if (c === '"') {
+      quotedFrom = line;
+    } else if (c === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && content[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+
+  if (quotedFrom !== null) {
+    throw new PlaybookParseError(filePath, 'unterminated quoted cell', quotedFrom, 1);
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value !== ''));
+}
+
+/**
+ * Read CSV with a header row naming the columns. Unknown columns are
+ * ignored; missing ones take the defaults `playbook add` uses.
+ */
+function fromCsv(content: string, filePath: string): Pattern[] {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''), filePath);
+  if (!header) {
+    return [];
+  }
+  const columns = header.map(name => name.trim().toLowerCase());
+
+  return rows.map(values => {
+    const get = (column: CsvColumn) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? '' : (values[index] ?? '');
+    };
+    const lines = (column: CsvColumn) => parseCsvList(get(column));
+    const optional = (column: CsvColumn) => (get(column) === '' ? {} : { [column]: get(column) });
+    const scope = (column: 'services' | 'workspaces' | 'hosts') => (get(column) === '' ? {} : { [column]: lines(column) });
+    const count = (column: CsvColumn) => (get(column).trim() === '' ? 0 : Number(get(column)));
+
+    const commands = lines('fix_commands');
+    const title = get('title');
+    const match: PatternMatch = {};
+    for (const kind of MATCH_CLAUSE_KINDS) {
+      if (get(`match_${kind}`) !== '') {
+        match[kind] = lines(`match_${kind}`).map(parseMatchRegex);
+      }
+    }
+    return createPattern({
+      id: get('id'),
+      title,
+      pattern: get('pattern'),
+      fingerprint: get('fingerprint') || fingerprintFromTitle(title),
+      severity: (get('severity') || 'medium') as Pattern['severity'],
+      category: get('category') || 'general',
+      ...optional('status'),
+      ...optional('superseded_by'),
+      ...scope('services'),
+      ...scope('workspaces'),
+      ...scope('hosts'),
+      ...optional('exception_type'),
+      ...optional('frame'),
+      ...(Object.keys(match).length > 0 ? { match } : {}),
+      symptoms: lines('symptoms'),
+      root_causes: lines('root_causes'),
+      fixes: lines('fixes').map((step, i) => (commands[i] ? { step, command: commands[i] } : { step })),
+      feedback: { helpful: count('helpful'), harmful: count('harmful') },
+    });
+  });
+}
@@ -0,0 +1,403 @@
+/**
+ * Pattern change history
+ *
+ * Every save through savePlaybook is compared with the file it replaces, and
+ * each pattern created, changed or removed gets a new version in a SQLite
+ * log next to feedback.db: who made the change and through which interface,
+ * a field-level diff and a snapshot of the pattern afterwards. Feedback
+ * counters are not versioned; votes have their own log in feedback.db.
+ */
+
+import { Database } from 'bun:sqlite';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { getDataDir } from './layers.js';
+import type { Pattern, Playbook } from './playbook.js';
+
+export type ChangeSource = 'cli' | 'mcp' | 'review';
+
+/**
+ * `baseline` records a pattern as found on disk before a tracked change,
+ * when that differs from its last version: patterns that predate the
+ * history log or were edited by hand
+ */
+export type ChangeAction = 'baseline' | 'create' | 'update' | 'delete';
+
+/**
+ * Who is making the changes saved in this process
+ */
+export interface ChangeContext {
+  source: ChangeSource;
+  actor: string;
+  /** Free-form explanation stored with each change (e.g. "Reverted to version 2") */
+  note?: string;
+}
+
+/**
+ * One field that differs between two versions of a pattern
+ */
+export interface FieldChange {
+  field: string;
+  /** Unset when the field was added */
+  before?: unknown;
+  /** Unset when the field was removed */
+  after?: unknown;
+}
+
+/**
+ * A recorded version of a pattern
+ */
+export interface PatternChange {
+  /** Row id, assigned when the change is stored */
+  id: number;
+  patternId: string;
+  /** 1-based, counted per pattern id */
+  version: number;
+  action: ChangeAction;
+  source: ChangeSource;
+  actor: string;
+  note: string | null;
+  /** Playbook file the change was saved to */
+  playbook: string;
+  changes: FieldChange[];
+  /** The pattern as of this version; null once deleted */
+  snapshot: Pattern | null;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+}
+
+export type NewPatternChange = Omit<PatternChange, 'id' | 'version' | 'note' | 'timestamp'> & {
+  note?: string | null;
+  timestamp?: number;
+};
+
+interface ChangeRow {
+  id: number;
+  pattern_id: string;
+  version: number;
+  action: ChangeAction;
+  source: ChangeSource;
+  actor: string;
+  note: string | null;
+  playbook: string;
+  changes: string;
+  snapshot: string | null;
+  created_at: number;
+}
+
+/** Context set by withChangeContext; the CLI run by the current user otherwise */
+let activeContext: ChangeContext | null = null;
+
+function currentUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || 'unknown';
+  }
+}
+
+/**
+ * The context changes saved right now are attributed to
+ */
+export function getChangeContext(): ChangeContext {
+  return activeContext ?? { source: 'cli', actor: currentUser() };
+}
+
+/**
+ * Run `fn` with changes attributed to a different source, actor or note
+ */
+export function withChangeContext<T>(context: Partial<ChangeContext>, fn: () => T): T {
+  const previous = activeContext;
+  activeContext = { ...getChangeContext(), ...context };
+  try {
+    return fn();
+  } finally {
+    activeContext = previous;
+  }
+}
+
+/**
+ * Get the change history database path
+ */
+export function getHistoryDbPath(): string {
+  return path.join(getDataDir(), 'history.db');
+}
+
+/**
+ * Initialize the change history database
+ */
+export function initHistoryDb(dbPath: string = getHistoryDbPath()): Database {
+  const dir = path.dirname(dbPath);
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+
+  // Writers to different layers don't share a playbook lock
+  db.run('PRAGMA busy_timeout = 5000');
+  db.run('PRAGMA journal_mode = WAL');
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS pattern_changes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      pattern_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      action TEXT NOT NULL CHECK (action IN ('baseline', 'create', 'update', 'delete')),
+      source TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      note TEXT,
+      playbook TEXT NOT NULL,
+      changes TEXT NOT NULL,
+      snapshot TEXT,
+      created_at INTEGER NOT NULL,
+      UNIQUE (pattern_id, version)
+    )
+  `);
+
+  return db;
+}
+
+function toChange(row: ChangeRow): PatternChange {
+  return {
+    id: row.id,
+    patternId: row.pattern_id,
+    version: row.version,
+    action: row.action,
+    source: row.source,
+    actor: row.actor,
+    note: row.note,
+    playbook: row.playbook,
+    changes: JSON.parse(row.changes) as FieldChange[],
+    snapshot: row.snapshot === null ? null : JSON.parse(row.snapshot) as Pattern,
+    timestamp: row.created_at,
+  };
+}
+
+/**
+ * Append-only log of pattern versions
+ */
+export class ChangeLog {
+  private db: Database;
+
+  constructor(dbPath?: string) {
+    this.db = initHistoryDb(dbPath);
+  }
+
+  /**
+   * Store a change as the pattern's next version and return it
+   */
+  record(change: NewPatternChange): PatternChange {
+    const timestamp = change.timestamp ?? Math.floor(Date.now() / 1000);
+    const insert = this.db.transaction(() => {
+      const { latest } = this.db.prepare(
+        'SELECT MAX(version) as latest FROM pattern_changes WHERE pattern_id = ?'
+      ).get(change.patternId) as { latest: number | null };
+
+      return this.db.prepare(`
+        INSERT INTO pattern_changes (pattern_id, version, action, source, actor, note, playbook, changes, snapshot, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `).get(
+        change.patternId,
+        (latest ?? 0) + 1,
+        change.action,
+        change.source,
+        change.actor,
+        change.note ?? null,
+        change.playbook,
+        JSON.stringify(change.changes),
+        change.snapshot === null ? null : JSON.stringify(change.snapshot),
+        timestamp
+      ) as ChangeRow;
+    });
+
+    return toChange(insert.immediate());
+  }
+
+  /**
+   * Versions of one pattern, newest first
+   */
+  history(patternId: string, limit: number = 50): PatternChange[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM pattern_changes
+      WHERE pattern_id = ?
+      ORDER BY version DESC
+      LIMIT ?
+    `).all(patternId, limit) as ChangeRow[];
+
+    return rows.map(toChange);
+  }
+
+  /**
+   * One version of a pattern
+   */
+  version(patternId: string, version: number): PatternChange | undefined {
+    const row = this.db.prepare(
+      'SELECT * FROM pattern_changes WHERE pattern_id = ? AND version = ?'
+    ).get(patternId, version) as ChangeRow | null;
+
+    return row ? toChange(row) : undefined;
+  }
+
+  /**
+   * The pattern's most recent version
+   */
+  latest(patternId: string): PatternChange | undefined {
+    return this.history(patternId, 1)[0];
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A pattern's content without feedback counters, which change with every vote
+ */
+function content(pattern: Pattern): Record<string, unknown> {
+  const { feedback: _feedback, ...rest } = pattern;
+  return {
+    ...rest,
+    ...(Array.isArray(pattern.fixes)
+      ? { fixes: pattern.fixes.map(fix => (isPlainObject(fix) ? { ...fix, feedback: undefined } : fix)) }
+      : {}),
+    ...(Array.isArray(pattern.root_causes)
+      ? { root_causes: pattern.root_causes.map(entry => (isPlainObject(entry) ? entry.cause : entry)) }
+      : {}),
+  };
+}
+
+/**
+ * JSON with object keys sorted, so reordered keys don't count as a change
+ */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    isPlainObject(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) : v
+  ) ?? 'undefined';
+}
+
+/**
+ * Field-level differences between two versions of a pattern, ignoring
+ * feedback counters. Either side may be missing (created or deleted).
+ */
+export function diffPatterns(before: Pattern | undefined, after: Pattern | undefined): FieldChange[] {
+  const from = before ? content(before) : {};
+  const to = after ? content(after) : {};
+  const fields = [...new Set([...Object.keys(from), ...Object.keys(to)])];
+
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const a = from[field];
+    const b = to[field];
+    if (canonical(a) === canonical(b)) {
+      continue;
+    }
+    changes.push({
+      field,
+      ...(a !== undefined ? { before: a } : {}),
+      ...(b !== undefined ? { after: b } : {}),
+    });
+  }
+  return changes;
+}
+
+function patternsById(playbook: Playbook): Map<string, Pattern> {
+  const byId = new Map<string, Pattern>();
+  for (const pattern of playbook.patterns) {
+    if (isPlainObject(pattern) && typeof pattern.id === 'string' && !byId.has(pattern.id)) {
+      byId.set(pattern.id, pattern);
+    }
+  }
+  return byId;
+}
+
+/**
+ * Record a version for each pattern that differs between the playbook file
+ * before and after a save. A pattern whose previous state isn't its last
+ * recorded version first gets a baseline version holding that state.
+ */
+export function recordPlaybookChanges(
+  before: Playbook,
+  after: Playbook,
+  playbookPath: string,
+  dbPath?: string
+): PatternChange[] {
+  const old = patternsById(before);
+  const saved = patternsById(after);
+
+  const pending: Array<{ id: string; action: ChangeAction; changes: FieldChange[] }> = [];
+  for (const id of new Set([...old.keys(), ...saved.keys()])) {
+    const changes = diffPatterns(old.get(id), saved.get(id));
+    if (changes.length === 0) {
+      continue;
+    }
+    const action = !old.has(id) ? 'create' : !saved.has(id) ? 'delete' : 'update';
+    pending.push({ id, action, changes });
+  }
+  if (pending.length === 0) {
+    return [];
+  }
+
+  const context = getChangeContext();
+  const log = new ChangeLog(dbPath);
+  try {
+    const recorded: PatternChange[] = [];
+    for (const { id, action, changes } of pending) {
+      const attribution = { patternId: id, source: context.source, actor: context.actor, playbook: playbookPath };
+      const previous = old.get(id);
+      const latest = log.latest(id);
+      if (previous && (!latest || diffPatterns(latest.snapshot ?? undefined, previous).length > 0)) {
+        recorded.push(log.record({
+          ...attribution,
+          action: 'baseline',
+          changes: [],
+          snapshot: previous,
+        }));
+      }
+      recorded.push(log.record({
+        ...attribution,
+        action,
+        note: context.note,
+        changes,
+        snapshot: saved.get(id) ?? null,
+      }));
+    }
+    return recorded;
+  } finally {
+    log.close();
+  }
+}
+
+/**
+ * A pattern's content as of a snapshot, keeping the feedback counters it has
+ * now: the pattern's own, and those of fixes and causes that still exist
+ */
+export function restoreSnapshot(snapshot: Pattern, current?: Pattern): Pattern {
+  const restored = structuredClone(snapshot);
+  if (!current) {
+    return restored;
+  }
+
+  restored.feedback = { ...current.feedback };
+  restored.fixes = restored.fixes.map(fix => {
+    const { feedback: _feedback, ...rest } = fix;
+    const counters = current.fixes.find(f => f.step === fix.step)?.feedback;
+    return counters ? { ...rest, feedback: { ...counters } } : rest;
+  });
+  restored.root_causes = restored.root_causes.map(entry => {
+    const cause = typeof entry === 'string' ? entry : entry.cause;
+    const match = current.root_causes.find(c => typeof c !== 'string' && c.cause === cause);
+    return match && typeof match !== 'string' && match.feedback ? { cause, feedback: { ...match.feedback } } : cause;
+  });
+  return restored;
+}
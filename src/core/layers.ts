@@ -0,0 +1,186 @@
+/**
+ * Playbook layers
+ *
+ * Patterns can come from several playbooks, listed here from highest to
+ * lowest precedence:
+ *
+ * 1. project - `.sls-memory/playbook.yaml` in the current directory or the
+ *    nearest parent that has one
+ * 2. user - `~/.sls-memory/playbook.yaml`
+ * 3. team - read-only playbooks listed under `team_playbooks` in
+ *    `~/.sls-memory/config.yaml`, in the order given
+ *
+ * When several layers define the same pattern id, the highest layer wins and
+ * the others are hidden.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import YAML from 'yaml';
+import type { EmbeddingsConfig } from './embeddings.js';
+
+export type LayerKind = 'project' | 'user' | 'team';
+
+export interface PlaybookLayer {
+  /** `project`, `user` or `team:<name>` */
+  name: string;
+  kind: LayerKind;
+  /** Absolute path of the playbook file (which may not exist yet) */
+  path: string;
+  readOnly: boolean;
+}
+
+/**
+ * A team playbook entry in config.yaml: a path, or a name and a path
+ */
+export type TeamPlaybookConfig = string | { name?: string; path: string };
+
+export interface SlsmConfig {
+  team_playbooks?: TeamPlaybookConfig[];
+  embeddings?: EmbeddingsConfig;
+}
+
+const PLAYBOOK_DIR = '.sls-memory';
+const PLAYBOOK_FILE = 'playbook.yaml';
+
+function getUserDir(): string {
+  return path.join(os.homedir(), PLAYBOOK_DIR);
+}
+
+function getUserPlaybookPath(): string {
+  return path.join(getUserDir(), PLAYBOOK_FILE);
+}
+
+/**
+ * Where the history, feedback and embeddings databases live:
+ * `$SLSM_DATA_DIR` if set, else ~/.sls-memory
+ */
+export function getDataDir(): string {
+  return process.env.SLSM_DATA_DIR || getUserDir();
+}
+
+export function getConfigPath(): string {
+  return path.join(getUserDir(), 'config.yaml');
+}
+
+/**
+ * Read ~/.sls-memory/config.yaml; a missing file is an empty config
+ */
+export function loadConfig(): SlsmConfig {
+  const configPath = getConfigPath();
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = YAML.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Invalid config ${configPath}: ${(err as Error).message}`);
+  }
+  return (data ?? {}) as SlsmConfig;
+}
+
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~') ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
+
+/**
+ * Walk up from `cwd` to the nearest `.sls-memory/playbook.yaml`, ignoring
+ * the user-global one
+ */
+export function findProjectPlaybook(cwd: string = process.cwd()): string | null {
+  const userPath = getUserPlaybookPath();
+  let dir = path.resolve(cwd);
+
+  for (;;) {
+    const candidate = path.join(dir, PLAYBOOK_DIR, PLAYBOOK_FILE);
+    if (candidate !== userPath && fs.existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Where a new project playbook goes: the enclosing git repository's root,
+ * or `cwd` outside a repository
+ */
+function newProjectPlaybookPath(cwd: string): string {
+  let dir = path.resolve(cwd);
+
+  for (;;) {
+    if (fs.existsSync(path.join(dir, '.git'))) {
+      break;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      dir = path.resolve(cwd);
+      break;
+    }
+    dir = parent;
+  }
+
+  const playbookPath = path.join(dir, PLAYBOOK_DIR, PLAYBOOK_FILE);
+  if (playbookPath === getUserPlaybookPath()) {
+    throw new Error('No project directory found for a project playbook');
+  }
+  return playbookPath;
+}
+
+function teamLayers(config: SlsmConfig): PlaybookLayer[] {
+  const baseDir = path.dirname(getConfigPath());
+
+  return (config.team_playbooks ?? []).map(entry => {
+    const filePath = path.resolve(baseDir, expandHome(typeof entry === 'string' ? entry : entry.path));
+    const name = (typeof entry === 'object' && entry.name) || path.basename(filePath, path.extname(filePath));
+    return { name: `team:${name}`, kind: 'team' as const, path: filePath, readOnly: true };
+  });
+}
+
+/**
+ * The user-global layer, where patterns are written by default
+ */
+export function getUserLayer(): PlaybookLayer {
+  return { name: 'user', kind: 'user', path: getUserPlaybookPath(), readOnly: false };
+}
+
+/**
+ * All layers visible from `cwd`, highest precedence first. The user layer is
+ * always present; the project layer only when a project playbook exists.
+ */
+export function getPlaybookLayers(cwd: string = process.cwd()): PlaybookLayer[] {
+  const layers: PlaybookLayer[] = [];
+
+  const projectPath = findProjectPlaybook(cwd);
+  if (projectPath) {
+    layers.push({ name: 'project', kind: 'project', path: projectPath, readOnly: false });
+  }
+  layers.push(getUserLayer());
+  layers.push(...teamLayers(loadConfig()));
+
+  return layers;
+}
+
+/**
+ * Look up a layer by name (`project`, `user` or `team:<name>`). `project`
+ * resolves to a new project playbook when none exists yet.
+ */
+export function resolveLayer(name: string, cwd: string = process.cwd()): PlaybookLayer {
+  const layers = getPlaybookLayers(cwd);
+  const found = layers.find(layer => layer.name === name);
+  if (found) {
+    return found;
+  }
+
+  if (name === 'project') {
+    return { name: 'project', kind: 'project', path: newProjectPlaybookPath(cwd), readOnly: false };
+  }
+
+  throw new Error(`Unknown playbook layer "${name}" (available: ${layers.map(l => l.name).join(', ')})`);
+}
@@ -0,0 +1,432 @@
+/**
+ * Prebuilt index for matching messages against a playbook
+ *
+ * Imported packs can hold tens of thousands of patterns, so lookups don't
+ * scan them all. The index keeps each pattern's compiled regex and keyword
+ * set, and narrows the patterns to evaluate for a message:
+ *
+ * - regexes: each pattern's required literals (text every match contains,
+ *   such as `econnrefused` in `connect ECONNREFUSED .*:5432`) go into an
+ *   Aho-Corasick automaton, and one pass over the message finds the patterns
+ *   whose regexes can match. Those without a required literal are always
+ *   tried.
+ * - keywords: an inverted index from keyword to patterns, so only patterns
+ *   sharing a keyword with the message are scored.
+ *
+ * getMatcherIndex keeps one index per playbook and rebuilds it when
+ * patterns are added or removed, or markPlaybookChanged says they changed.
+ */
+
+import { extractKeywords } from './matching.js';
+import { patternClauses, playbookRevision, type MatchClause, type Pattern, type Playbook } from './playbook.js';
+import { compileRegex, MAX_REGEX_INPUT, parseRegex, type RegexNode, type SafeRegex } from './safe-regex.js';
+
+/**
+ * Longest literal kept per regex. Any part of a required literal is
+ * required too, so a prefix filters as well and keeps the automaton small.
+ */
+const MAX_LITERAL = 32;
+
+/**
+ * How a message satisfied a pattern's regexes
+ */
+export interface ClauseMatch {
+  /** Clauses that matched, by path: the first matching `any` regex and every `all` regex */
+  clauses: string[];
+  /** Length of the longest of their matches */
+  length: number;
+}
+
+/** A clause with its regex; invalid regexes are null and never match */
+type CompiledClause = MatchClause & { compiled: SafeRegex | null };
+
+interface IndexEntry {
+  pattern: Pattern;
+  /** Position in the indexed list */
+  position: number;
+  clauses: CompiledClause[];
+  keywords: Set<string>;
+}
+
+function compileClauses(pattern: Pattern): CompiledClause[] {
+  return patternClauses(pattern).map(clause => ({ ...clause, compiled: compileRegex(clause.regex, clause.flags) }));
+}
+
+/**
+ * Which clauses `text` satisfies, or null if it doesn't satisfy them all.
+ * A pattern without `any` or `all` regexes matches nothing.
+ */
+function evaluateClauses(clauses: CompiledClause[], text: string): ClauseMatch | null {
+  const matched: string[] = [];
+  let length = 0;
+  let positive = false;
+  let anyMatched = false;
+  let hasAny = false;
+
+  for (const clause of clauses) {
+    if (clause.kind === 'none') {
+      if (clause.compiled?.test(text)) {
+        return null;
+      }
+      continue;
+    }
+    positive = true;
+    if (clause.kind === 'any') {
+      hasAny = true;
+      if (anyMatched) {
+        continue;
+      }
+    }
+    const match = clause.compiled?.exec(text);
+    if (match) {
+      anyMatched ||= clause.kind === 'any';
+      matched.push(clause.path);
+      length = Math.max(length, match.length);
+    } else if (clause.kind === 'all') {
+      return null;
+    }
+  }
+
+  return positive && (anyMatched || !hasAny) ? { clauses: matched, length } : null;
+}
+
+/**
+ * Match a pattern's regexes against `text`, without an index
+ */
+export function matchPattern(pattern: Pattern, text: string): ClauseMatch | null {
+  return evaluateClauses(compileClauses(pattern), text);
+}
+
+/**
+ * Literals one of which every message a pattern matches contains, or null
+ * when there are none. An empty list means it can't match anything.
+ */
+function patternLiterals(clauses: CompiledClause[]): string[] | null {
+  const literalsOf = (clause: CompiledClause) =>
+    (clause.compiled ? requiredLiterals(parseRegex(clause.regex), clause.regex) : []);
+
+  // One of the `any` regexes has to match, and each `all` regex
+  const any = clauses.filter(c => c.kind === 'any').map(literalsOf);
+  const options = [
+    ...(any.length > 0 ? [any.some(l => l === null) ? null : [...new Set(any.flat() as string[])]] : []),
+    ...clauses.filter(c => c.kind === 'all').map(literalsOf),
+  ];
+  if (options.length === 0) {
+    return [];
+  }
+  return mostSelective(options);
+}
+
+/**
+ * The character a node matches literally, lowercased, or null. Only ASCII
+ * counts: case-insensitive regexes don't fold other characters onto ASCII,
+ * so a lowercased message still contains every ASCII literal a match does.
+ */
+function literalChar(node: RegexNode, source: string): string | null {
+  if (node.type === 'char') {
+    return node.code < 128 ? String.fromCharCode(node.code).toLowerCase() : null;
+  }
+  if (node.type === 'set' && node.end - node.start === 2 && source[node.start] === '\\') {
+    const c = source[node.start + 1];
+    return /[^\w\s]/.test(c) && c.charCodeAt(0) < 128 ? c : null;
+  }
+  return null;
+}
+
+/**
+ * Literals one of which every match of `alternatives` contains, or null
+ * when there are none
+ */
+function requiredLiterals(alternatives: RegexNode[][], source: string): string[] | null {
+  const options = alternatives.map(seq => sequenceLiterals(seq, source));
+  return options.some(option => option === null) ? null : [...new Set(options.flat() as string[])];
+}
+
+/**
+ * The most selective set of required literals in a sequence: the one whose
+ * shortest literal is longest
+ */
+function sequenceLiterals(seq: RegexNode[], source: string): string[] | null {
+  const options: Array<string[] | null> = [];
+  let run = '';
+  const endRun = () => {
+    if (run !== '') {
+      options.push([run.slice(0, MAX_LITERAL)]);
+      run = '';
+    }
+  };
+
+  for (const node of seq) {
+    const c = literalChar(node, source);
+    if (c !== null) {
+      run += c;
+      continue;
+    }
+    endRun();
+    if (node.type === 'group') {
+      options.push(requiredLiterals(node.alternatives, source));
+    } else if (node.type === 'repeat' && node.min > 0) {
+      options.push(requiredLiterals([[node.node]], source));
+    }
+  }
+  endRun();
+  return mostSelective(options);
+}
+
+/**
+ * Of several sets of literals that are each required, the one whose
+ * shortest literal is longest, then the smallest
+ */
+function mostSelective(options: Array<string[] | null>): string[] | null {
+  const shortest = (literals: string[]) => Math.min(...literals.map(l => l.length));
+  let best: string[] | null = null;
+  for (const option of options) {
+    if (option && (best === null || shortest(option) > shortest(best)
+      || (shortest(option) === shortest(best) && option.length < best.length))) {
+      best = option;
+    }
+  }
+  return best;
+}
+
+/**
+ * Aho-Corasick automaton over lowercase ASCII literals
+ */
+class LiteralSet {
+  /** Trie edges, keyed by node * 128 + character code */
+  private edges = new Map<number, number>();
+  private children: number[][] = [[]];
+  private fail: number[] = [0];
+  /** Literals ending at each node */
+  private ends: number[][] = [[]];
+  /** Nearest node down the failure chain where a literal ends */
+  private nextEnd: number[] = [-1];
+
+  add(literal: string, id: number): void {
+    let node = 0;
+    for (let i = 0; i < literal.length; i++) {
+      const key = node * 128 + literal.charCodeAt(i);
+      let child = this.edges.get(key);
+      if (child === undefined) {
+        child = this.fail.length;
+        this.edges.set(key, child);
+        this.children[node].push(literal.charCodeAt(i));
+        this.children.push([]);
+        this.fail.push(0);
+        this.ends.push([]);
+        this.nextEnd.push(-1);
+      }
+      node = child;
+    }
+    this.ends[node].push(id);
+  }
+
+  /** Link each node to the longest proper suffix of its string in the trie */
+  build(): void {
+    const queue = this.children[0].map(code => this.edges.get(code)!);
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      for (const code of this.children[node]) {
+        const child = this.edges.get(node * 128 + code)!;
+        let fallback = this.fail[node];
+        while (fallback !== 0 && !this.edges.has(fallback * 128 + code)) {
+          fallback = this.fail[fallback];
+        }
+        const target = this.edges.get(fallback * 128 + code);
+        this.fail[child] = target !== undefined && target !== child ? target : 0;
+        const suffix = this.fail[child];
+        this.nextEnd[child] = this.ends[suffix].length > 0 ? suffix : this.nextEnd[suffix];
+        queue.push(child);
+      }
+    }
+  }
+
+  /** Ids of the literals occurring in `text`, which must be lowercase */
+  search(text: string): Set<number> {
+    const found = new Set<number>();
+    const visited = new Set<number>();
+    let node = 0;
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if (code >= 128) {
+        node = 0;
+        continue;
+      }
+      while (node !== 0 && !this.edges.has(node * 128 + code)) {
+        node = this.fail[node];
+      }
+      node = this.edges.get(node * 128 + code) ?? 0;
+      // Each end node's literals are reported once
+      for (let end = this.ends[node].length > 0 ? node : this.nextEnd[node]; end > 0 && !visited.has(end); end = this.nextEnd[end]) {
+        visited.add(end);
+        for (const id of this.ends[end]) {
+          found.add(id);
+        }
+      }
+    }
+    return found;
+  }
+}
+
+/**
+ * Compiled regexes, literal prefilter and keyword sets for a list of patterns
+ */
+export class MatcherIndex {
+  private entries: IndexEntry[];
+  private byPattern = new Map<Pattern, IndexEntry>();
+  private literals = new LiteralSet();
+  /** Patterns (by position) with each literal */
+  private literalPatterns: number[][] = [];
+  /** Patterns that may match but have no required literal */
+  private unfiltered: number[] = [];
+  /** Patterns (by position) with each keyword */
+  private postings = new Map<string, number[]>();
+
+  constructor(patterns: Pattern[]) {
+    const literalIds = new Map<string, number>();
+
+    this.entries = patterns.map((pattern, i) => {
+      const entry: IndexEntry = {
+        pattern,
+        position: i,
+        clauses: compileClauses(pattern),
+        keywords: new Set(extractKeywords(pattern.title + ' ' + pattern.symptoms.join(' '))),
+      };
+      this.byPattern.set(pattern, entry);
+
+      const literals = patternLiterals(entry.clauses);
+      if (!literals) {
+        this.unfiltered.push(i);
+      }
+      for (const literal of literals ?? []) {
+        let id = literalIds.get(literal);
+        if (id === undefined) {
+          id = literalIds.size;
+          literalIds.set(literal, id);
+          this.literals.add(literal, id);
+          this.literalPatterns.push([]);
+        }
+        this.literalPatterns[id].push(i);
+      }
+
+      for (const keyword of entry.keywords) {
+        const list = this.postings.get(keyword);
+        if (list) {
+          list.push(i);
+        } else {
+          this.postings.set(keyword, [i]);
+        }
+      }
+      return entry;
+    });
+
+    this.literals.build();
+  }
+
+  /** Number of patterns indexed */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** Which of the pattern's regex clauses `text` satisfies, or null if it doesn't */
+  match(pattern: Pattern, text: string): ClauseMatch | null {
+    return evaluateClauses(this.entry(pattern).clauses, text);
+  }
+
+  /** Whether one of the pattern's `none` regexes matches `text` */
+  excludes(pattern: Pattern, text: string): boolean {
+    return this.entry(pattern).clauses.some(clause => clause.kind === 'none' && clause.compiled?.test(text));
+  }
+
+  /** Indexed patterns among `patterns`, in the order they were indexed */
+  inOrder(patterns: Iterable<Pattern>): Pattern[] {
+    return [...new Set(patterns)].sort((a, b) => this.entry(a).position - this.entry(b).position);
+  }
+
+  /** Keywords of the pattern's title and symptoms */
+  keywords(pattern: Pattern): Set<string> {
+    return this.entry(pattern).keywords;
+  }
+
+  /**
+   * Patterns whose regex may match `text`. Patterns left out cannot match
+   * it; those included still have to be tested.
+   */
+  regexCandidates(text: string): Set<Pattern> {
+    const candidates = new Set(this.unfiltered.map(i => this.entries[i].pattern));
+    // Regexes only see the start of long input (see safe-regex.ts)
+    for (const id of this.literals.search(text.slice(0, MAX_REGEX_INPUT).toLowerCase())) {
+      for (const i of this.literalPatterns[id]) {
+        candidates.add(this.entries[i].pattern);
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Keyword similarity (as calculateScore) of each pattern sharing a
+   * keyword with `keywords`, or only of those scoring above `minScore`
+   */
+  keywordScores(keywords: string[], minScore: number = 0): Map<Pattern, number> {
+    const query = [...new Set(keywords)];
+    // Similarity is at most shared / query size, so a pattern above
+    // minScore shares `needed` keywords, and with them at least one of
+    // the rarest query.length - needed + 1
+    const needed = Math.floor((minScore / 100) * query.length) + 1;
+    const rarest = query
+      .map(keyword => this.postings.get(keyword) ?? [])
+      .sort((a, b) => a.length - b.length)
+      .slice(0, Math.max(0, query.length - needed + 1));
+
+    const scores = new Map<Pattern, number>();
+    const seen = new Uint8Array(this.entries.length);
+    for (const postings of rarest) {
+      for (const i of postings) {
+        if (seen[i]) {
+          continue;
+        }
+        seen[i] = 1;
+        const entry = this.entries[i];
+        const matches = query.filter(keyword => entry.keywords.has(keyword)).length;
+        const score = (matches / (query.length + entry.keywords.size - matches)) * 100;
+        if (score > minScore) {
+          scores.set(entry.pattern, score);
+        }
+      }
+    }
+    return scores;
+  }
+
+  private entry(pattern: Pattern): IndexEntry {
+    const entry = this.byPattern.get(pattern);
+    if (!entry) {
+      throw new Error(`Pattern ${pattern.id} is not in the index`);
+    }
+    return entry;
+  }
+}
+
+interface CachedIndex {
+  index: MatcherIndex;
+  /** The playbook's patterns array and revision when the index was built */
+  patterns: Pattern[];
+  revision: number;
+}
+
+const indexes = new WeakMap<Playbook, CachedIndex>();
+
+/**
+ * The matcher index for a playbook, built on first use and rebuilt when its
+ * patterns array is replaced, grows or shrinks, or its revision moves on
+ */
+export function getMatcherIndex(playbook: Playbook): MatcherIndex {
+  const cached = indexes.get(playbook);
+  const revision = playbookRevision(playbook);
+  if (cached && cached.patterns === playbook.patterns && cached.index.size === playbook.patterns.length
+    && cached.revision === revision) {
+    return cached.index;
+  }
+  const index = new MatcherIndex(playbook.patterns);
+  indexes.set(playbook, { index, patterns: playbook.patterns, revision });
+  return index;
+}
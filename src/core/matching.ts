@@ -2,12 +2,93 @@
  * Pattern matching module
  */
 
-import type { Pattern, Playbook } from './playbook.js';
+import {
+  getPatternLayer,
+  patternStatus,
+  rootCauseText,
+  type Feedback,
+  type Fix,
+  type Pattern,
+  type PatternStatus,
+  type Playbook,
+} from './playbook.js';
+import { rankByFeedback, rankResults, successRate, type RankOptions } from './ranking.js';
+import { matchScope, type QueryScope, type ScopeDimension } from './scope.js';
+import { getMatcherIndex } from './matcher-index.js';
 
 export interface MatchResult {
   pattern: Pattern;
+  /** How well the pattern matches the message (0-100) */
   score: number;
+  /** Match score blended with feedback; results are ordered by this */
+  rankScore: number;
   matchedKeywords: string[];
+  /** Regex clauses that matched (`pattern`, `match.any[0]`, ...); empty for keyword matches */
+  matchedClauses: string[];
+  /** Scope dimensions the pattern is restricted to that matched the query */
+  matchedScope: ScopeDimension[];
+}
+
+export interface MatchOptions extends RankOptions {
+  /** Where the error came from; scoped patterns for elsewhere are skipped */
+  scope?: QueryScope;
+  /** Lifecycle states to match (default: active and deprecated) */
+  statuses?: PatternStatus[];
+}
+
+/** Keyword similarity a pattern needs to match without its regex */
+const KEYWORD_THRESHOLD = 20;
+
+/** Drafts aren't ready and archived patterns are retired */
+export const DEFAULT_MATCH_STATUSES: PatternStatus[] = ['active', 'deprecated'];
+
+/**
+ * A fix with its playbook position and how often it has worked
+ */
+export interface RankedFix extends Fix {
+  /** 1-based position in the pattern, as used by `mark --fix` */
+  index: number;
+  successRate: number | null;
+}
+
+/**
+ * A root cause with its playbook position and how often it was right
+ */
+export interface RankedRootCause {
+  /** 1-based position in the pattern, as used by `mark --cause` */
+  index: number;
+  cause: string;
+  feedback?: Feedback;
+  successRate: number | null;
+}
+
+/**
+ * JSON shape of a match, shared by the CLI and the MCP server
+ */
+export interface MatchSummary {
+  id: string;
+  title: string;
+  score: number;
+  rankScore: number;
+  severity: Pattern['severity'];
+  category: string;
+  symptoms: string[];
+  root_causes: RankedRootCause[];
+  fixes: RankedFix[];
+  feedback: Pattern['feedback'];
+  matchedScope: ScopeDimension[];
+  /** Playbook layer the pattern came from (see layers.ts) */
+  layer: string | null;
+  status: PatternStatus;
+  /** Pattern that replaces this one, if it is deprecated or archived */
+  superseded_by: string | null;
+}
+
+/**
+ * Whether a pattern's lifecycle state lets it match
+ */
+export function isMatchable(pattern: Pattern, options: MatchOptions = {}): boolean {
+  return (options.statuses ?? DEFAULT_MATCH_STATUSES).includes(patternStatus(pattern));
 }
 
 /**
@@ -56,48 +137,119 @@ export function calculateScore(keywords1: string[], keywords2: string[]): number
 }
 
 /**
- * Find patterns matching an error message
+ * Find patterns matching an error message. Only patterns the playbook's
+ * matcher index picks out as candidates are evaluated.
  */
 export function findMatchingPatterns(
   playbook: Playbook,
   errorMessage: string,
-  limit: number = 10
+  limit: number = 10,
+  options: MatchOptions = {}
 ): MatchResult[] {
   const keywords = extractKeywords(errorMessage);
-  const results: MatchResult[] = [];
-
-  for (const pattern of playbook.patterns) {
-    // Try regex match first
-    try {
-      const regex = new RegExp(pattern.pattern, 'i');
-      if (regex.test(errorMessage)) {
-        results.push({
-          pattern,
-          score: 100,
-          matchedKeywords: keywords,
-        });
-        continue;
-      }
-    } catch {
-      // Invalid regex, fall through to keyword matching
+  const results: Array<Omit<MatchResult, 'rankScore'> & { boost: number }> = [];
+  const index = getMatcherIndex(playbook);
+  const regexCandidates = index.regexCandidates(errorMessage);
+  const keywordScores = index.keywordScores(keywords, KEYWORD_THRESHOLD);
+
+  for (const pattern of index.inOrder([...regexCandidates, ...keywordScores.keys()])) {
+    if (!isMatchable(pattern, options)) {
+      continue;
+    }
+
+    // Scope is applied before ranking so patterns for other services or
+    // workspaces can't push relevant ones past the limit
+    const scope = matchScope(pattern, options.scope ?? {});
+    if (scope.excluded) {
+      continue;
+    }
+    const scoped = { matchedScope: scope.matched, boost: scope.boost };
+
+    // A `none` regex rules the pattern out, keyword matches included
+    if (index.excludes(pattern, errorMessage)) {
+      continue;
+    }
+
+    // Try regex match first; an invalid regex falls through to keywords
+    const match = regexCandidates.has(pattern) ? index.match(pattern, errorMessage) : null;
+    if (match) {
+      results.push({
+        pattern,
+        score: 100,
+        matchedKeywords: keywords,
+        matchedClauses: match.clauses,
+        ...scoped,
+      });
+      continue;
     }
 
     // Keyword-based matching
-    const patternKeywords = extractKeywords(pattern.title + ' ' + pattern.symptoms.join(' '));
-    const score = calculateScore(keywords, patternKeywords);
-    
-    if (score > 20) {
-      const matchedKeywords = keywords.filter(k => patternKeywords.includes(k));
+    const score = keywordScores.get(pattern);
+    if (score !== undefined) {
+      const patternKeywords = index.keywords(pattern);
+      const matchedKeywords = keywords.filter(k => patternKeywords.has(k));
       results.push({
         pattern,
         score,
         matchedKeywords,
+        matchedClauses: [],
+        ...scoped,
       });
     }
   }
 
-  // Sort by score and return top matches
-  return results
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit);
+  // Rank by score, scope and feedback, then return top matches
+  return rankResults(results, options)
+    .slice(0, limit)
+    .map(({ boost: _boost, ...result }) => result);
+}
+
+/**
+ * Convert a match result to its JSON output shape
+ */
+export function toMatchSummary(result: MatchResult): MatchSummary {
+  const p = result.pattern;
+  return {
+    id: p.id,
+    title: p.title,
+    score: result.score,
+    rankScore: Math.round(result.rankScore * 10) / 10,
+    severity: p.severity,
+    category: p.category,
+    symptoms: p.symptoms,
+    root_causes: rankRootCauses(p),
+    fixes: rankFixes(p),
+    feedback: p.feedback,
+    matchedScope: result.matchedScope,
+    layer: getPatternLayer(p)?.name ?? null,
+    status: patternStatus(p),
+    superseded_by: p.superseded_by ?? null,
+  };
+}
+
+/**
+ * A pattern's fixes, best-working first
+ */
+export function rankFixes(pattern: Pattern): RankedFix[] {
+  return rankByFeedback(pattern.fixes, fix => fix.feedback).map(({ item, index }) => ({
+    ...item,
+    index,
+    successRate: successRate(item.feedback),
+  }));
+}
+
+/**
+ * A pattern's root causes, most often confirmed first
+ */
+export function rankRootCauses(pattern: Pattern): RankedRootCause[] {
+  return rankByFeedback(pattern.root_causes, entry => (typeof entry === 'string' ? undefined : entry.feedback))
+    .map(({ item, index }) => {
+      const feedback = typeof item === 'string' ? undefined : item.feedback;
+      return {
+        index,
+        cause: rootCauseText(item),
+        ...(feedback ? { feedback } : {}),
+        successRate: successRate(feedback),
+      };
+    });
 }
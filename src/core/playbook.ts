@@ -2,13 +2,16 @@
  * Playbook management module
  *
  * The playbook stores error patterns with known fixes.
- * Format: YAML file at ~/.sls-memory/playbook.yaml
+ * Format: YAML files, one per layer (see layers.ts); the user-global one is
+ * ~/.sls-memory/playbook.yaml
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import YAML from 'yaml';
+import { getPlaybookLayers, getUserLayer, type PlaybookLayer } from './layers.js';
+import { recordPlaybookChanges, restoreSnapshot, withChangeContext } from './history.js';
+import { analyzeRegex } from './safe-regex.js';
 
 /**
  * A single error pattern in the playbook
@@ -18,8 +21,10 @@ export interface Pattern {
   id: string;
   /** Fingerprint for deduplication (e.g., "connection-refused-postgres") */
   fingerprint: string;
-  /** Regex pattern to match error messages */
+  /** Regex pattern to match error messages, as one more `match.any` regex; may be empty when `match` has any or all regexes */
   pattern: string;
+  /** Regex clauses beyond `pattern`, with per-regex flags */
+  match?: PatternMatch;
   /** Severity level */
   severity: 'low' | 'medium' | 'high';
   /** Category (e.g., "database", "network", "filesystem") */
@@ -29,11 +34,78 @@ export interface Pattern {
   /** List of symptom strings that match this pattern */
   symptoms: string[];
   /** Known root causes */
-  root_causes: string[];
+  root_causes: RootCauseEntry[];
   /** Fix steps */
   fixes: Fix[];
   /** User feedback counts */
   feedback: Feedback;
+  /** Services this pattern applies to (globs); unset means any service */
+  services?: string[];
+  /** Workspace paths this pattern applies to (globs, `~` allowed); unset means any workspace */
+  workspaces?: string[];
+  /** Hosts this pattern applies to (globs); unset means any host */
+  hosts?: string[];
+  /** Exception type a stack trace must raise (e.g. "TypeError"); package prefixes may be left out */
+  exception_type?: string;
+  /** Regex matched against the top in-project frames of a stack trace */
+  frame?: string;
+  /** Lifecycle state; unset means active */
+  status?: PatternStatus;
+  /** Id of the pattern that replaces this one */
+  superseded_by?: string;
+}
+
+/**
+ * Lifecycle of a pattern. Drafts and archived patterns are kept (with their
+ * feedback) but not matched by default; deprecated ones still match and
+ * point at their replacement.
+ */
+export type PatternStatus = 'draft' | 'active' | 'deprecated' | 'archived';
+
+export const PATTERN_STATUSES: PatternStatus[] = ['draft', 'active', 'deprecated', 'archived'];
+
+/**
+ * A regex in a pattern's match clauses, with the flags to compile it with
+ */
+export interface MatchRegex {
+  regex: string;
+  /** Match letter case exactly; regexes ignore case by default */
+  case_sensitive?: boolean;
+  /** `^` and `$` also match at line breaks */
+  multiline?: boolean;
+  /** `.` also matches line breaks */
+  dotall?: boolean;
+}
+
+/**
+ * Match regexes are plain strings unless they set flags
+ */
+export type MatchRegexEntry = string | MatchRegex;
+
+/**
+ * Regex clauses for a pattern: a message must match at least one `any`
+ * regex (`pattern` counts as one), every `all` regex and no `none` regex
+ */
+export interface PatternMatch {
+  any?: MatchRegexEntry[];
+  all?: MatchRegexEntry[];
+  none?: MatchRegexEntry[];
+}
+
+export type MatchClauseKind = keyof PatternMatch;
+
+export const MATCH_CLAUSE_KINDS: MatchClauseKind[] = ['any', 'all', 'none'];
+
+/**
+ * One of a pattern's regexes, from `pattern` or `match`
+ */
+export interface MatchClause {
+  kind: MatchClauseKind;
+  /** Where the regex is in the pattern, such as `pattern` or `match.none[0]` */
+  path: string;
+  regex: string;
+  /** RegExp flags to compile it with */
+  flags: string;
 }
 
 /**
@@ -44,8 +116,24 @@ export interface Fix {
   step: string;
   /** Optional command to run */
   command?: string;
+  /** Votes on whether this particular fix worked */
+  feedback?: Feedback;
 }
 
+/**
+ * A root cause that has received feedback of its own
+ */
+export interface RootCause {
+  cause: string;
+  /** Votes on whether this was the actual cause */
+  feedback?: Feedback;
+}
+
+/**
+ * Root causes are plain strings until they are voted on
+ */
+export type RootCauseEntry = string | RootCause;
+
 /**
  * Feedback tracking for a pattern
  */
@@ -57,85 +145,1023 @@ export interface Feedback {
 }
 
 /**
- * The complete playbook structure
+ * The complete playbook structure
+ */
+export interface Playbook {
+  /** Schema version the file was written with; unset means version 1 */
+  version?: number;
+  patterns: Pattern[];
+  /** Next numeric id to allocate; ids below it are never handed out again */
+  next_id?: number;
+  /** Old pattern ids mapped to the id that replaced them */
+  aliases?: Record<string, string>;
+}
+
+/**
+ * Schema version this build reads and writes
+ */
+export const PLAYBOOK_VERSION = 3;
+
+/**
+ * Upgrades a playbook from version `from` to `from + 1`, in place
+ */
+interface Migration {
+  from: number;
+  description: string;
+  migrate: (data: Record<string, unknown>) => void;
+}
+
+/**
+ * Registered migrations, one per version step. Add one whenever a change to
+ * the format would be misread by older code or needs older files rewritten,
+ * and bump PLAYBOOK_VERSION with it.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    description: 'Fill in lists, severity, category and feedback counters that older playbooks left out; plain-string fixes become { step }',
+    migrate: data => {
+      if (!Array.isArray(data.patterns)) {
+        return;
+      }
+      for (const pattern of data.patterns) {
+        if (typeof pattern !== 'object' || pattern === null || Array.isArray(pattern)) {
+          continue;
+        }
+        pattern.severity ??= 'medium';
+        pattern.category ??= 'general';
+        pattern.symptoms ??= [];
+        pattern.root_causes ??= [];
+        pattern.fixes ??= [];
+        if (Array.isArray(pattern.fixes)) {
+          pattern.fixes = pattern.fixes.map((fix: unknown) => (typeof fix === 'string' ? { step: fix } : fix));
+        }
+        pattern.feedback ??= { helpful: 0, harmful: 0 };
+      }
+    },
+  },
+  {
+    from: 2,
+    description: 'Patterns may have match.any, match.all and match.none regexes, which older releases would ignore',
+    migrate: () => {},
+  },
+];
+
+/**
+ * Result of upgrading a playbook to PLAYBOOK_VERSION
+ */
+export interface MigrationResult {
+  from: number;
+  to: number;
+  /** Descriptions of the migrations applied, oldest first */
+  applied: string[];
+}
+
+/**
+ * Validation errors
+ */
+export interface ValidationError {
+  path: string;
+  message: string;
+  /** Warnings (such as unknown fields) don't make a playbook invalid */
+  level?: 'error' | 'warning';
+  /** 1-based position in the YAML source, when validated from a file */
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Path of the user-global playbook
+ */
+export function getPlaybookPath(): string {
+  return getUserLayer().path;
+}
+
+export function getPlaybookLockPath(filePath: string = getPlaybookPath()): string {
+  return `${filePath}.lock`;
+}
+
+/**
+ * Raised when a write targets a read-only (team) layer
+ */
+export class ReadOnlyLayerError extends Error {
+  constructor(readonly layer: PlaybookLayer) {
+    super(`Playbook layer ${layer.name} is read-only (${layer.path})`);
+  }
+}
+
+/**
+ * Raised when a playbook file can't be read as a playbook at all
+ */
+export class PlaybookParseError extends Error {
+  constructor(readonly filePath: string, reason: string, readonly line?: number, readonly column?: number) {
+    super(`${filePath}${line !== undefined ? `:${line}:${column}` : ''}: ${reason}`);
+  }
+}
+
+/**
+ * A YAML error's message without the position and source excerpt the yaml
+ * package appends
+ */
+function yamlErrorReason(err: YAML.YAMLError): string {
+  return err.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+}
+
+/** How long to wait for another writer before giving up */
+const LOCK_TIMEOUT_MS = 10_000;
+/** Locks older than this are assumed to belong to a crashed writer */
+const STALE_LOCK_MS = 30_000;
+
+/** Feedback counters as they were when each playbook was loaded */
+const loadedFeedback = new WeakMap<Playbook, Map<string, Feedback>>();
+
+/** File each playbook was loaded from, so it is saved back there */
+const loadedFrom = new WeakMap<Playbook, string>();
+
+/** Layer each pattern of a merged playbook came from */
+const patternLayers = new WeakMap<Pattern, PlaybookLayer>();
+
+/** Merged views across layers, which can't be saved as a whole */
+const mergedViews = new WeakSet<Playbook>();
+
+/** Ids used by other layers, which new ids in this playbook must avoid */
+const reservedIds = new WeakMap<Playbook, string[]>();
+
+/** Nesting depth of withPlaybookLock in this process, per lock file */
+const lockDepths = new Map<string, number>();
+
+/** Version a playbook had on disk, for playbooks loaded from an older one */
+const migratedFrom = new WeakMap<Playbook, number>();
+
+/** Where savePlaybook kept the older file it upgraded */
+const backupPaths = new WeakMap<Playbook, string>();
+
+/** Skipped entries already warned about in this process */
+const warnedEntries = new Set<string>();
+
+/** Bumped by markPlaybookChanged, so indexes over a playbook know to rebuild */
+const revisions = new WeakMap<Playbook, number>();
+
+function parsePlaybook(content: string): Playbook {
+  const data = YAML.parse(content);
+  if (!data) {
+    return { patterns: [] };
+  }
+  return { ...data, patterns: data.patterns ?? [] };
+}
+
+/**
+ * Every feedback counter in the playbook, keyed by pattern id and, for fix
+ * and root cause counters, by the fix step or cause text
+ */
+function feedbackCounters(playbook: Playbook): Map<string, Feedback> {
+  const counters = new Map<string, Feedback>();
+  const add = (key: string, feedback: Feedback | undefined) => {
+    if (feedback && !counters.has(key)) {
+      counters.set(key, feedback);
+    }
+  };
+
+  for (const pattern of playbook.patterns) {
+    if (!pattern) continue;
+    add(pattern.id, pattern.feedback);
+    for (const fix of pattern.fixes ?? []) {
+      add(`${pattern.id}\0fix\0${fix?.step}`, fix?.feedback);
+    }
+    for (const entry of pattern.root_causes ?? []) {
+      if (typeof entry === 'object' && entry !== null) {
+        add(`${pattern.id}\0cause\0${entry.cause}`, entry.feedback);
+      }
+    }
+  }
+  return counters;
+}
+
+function snapshotFeedback(playbook: Playbook): void {
+  const snapshot = new Map<string, Feedback>();
+  for (const [key, feedback] of feedbackCounters(playbook)) {
+    snapshot.set(key, { ...feedback });
+  }
+  loadedFeedback.set(playbook, snapshot);
+}
+
+/**
+ * Load a single playbook file; a missing file is an empty playbook
+ */
+export function loadPlaybookFile(filePath: string): Playbook {
+  let playbook: Playbook = { patterns: [] };
+  if (fs.existsSync(filePath)) {
+    try {
+      playbook = parsePlaybook(fs.readFileSync(filePath, 'utf-8'));
+    } catch (err) {
+      if (err instanceof YAML.YAMLParseError) {
+        const [start] = err.linePos ?? [];
+        throw new PlaybookParseError(filePath, yamlErrorReason(err), start?.line, start?.col);
+      }
+      throw err;
+    }
+    if (!Array.isArray(playbook.patterns)) {
+      throw new PlaybookParseError(filePath, 'patterns must be a list');
+    }
+    const { from } = migratePlaybook(playbook, filePath);
+    if (from < PLAYBOOK_VERSION) {
+      migratedFrom.set(playbook, from);
+    }
+  }
+
+  loadedFrom.set(playbook, filePath);
+  snapshotFeedback(playbook);
+  return playbook;
+}
+
+/**
+ * Load the patterns of every layer visible from `cwd` into one playbook.
+ * A pattern id defined by a higher layer hides the same id in lower layers.
+ * The result is read-only: write through updatePlaybook or
+ * updateOwningLayer instead.
+ */
+export function loadPlaybook(cwd: string = process.cwd()): Playbook {
+  const merged: Playbook = { patterns: [], aliases: {} };
+  const seen = new Set<string>();
+
+  for (const layer of getPlaybookLayers(cwd)) {
+    const layerPlaybook = loadPlaybookFile(layer.path);
+    const ids: string[] = [];
+
+    // Older files we may write are upgraded on disk; team files only in memory
+    if (migratedFrom.has(layerPlaybook) && !layer.readOnly) {
+      migratePlaybookFile(layer.path);
+    }
+
+    for (const [index, pattern] of layerPlaybook.patterns.entries()) {
+      // An entry that would break matching is left out of lookups, but kept
+      // in the file for the user to fix
+      const problems = checkPatternShape(pattern, index);
+      if (problems.length > 0) {
+        warnSkippedEntry(layer.path, pattern, index, problems);
+        continue;
+      }
+      if (pattern?.id && seen.has(pattern.id)) {
+        continue;
+      }
+      if (pattern?.id) {
+        ids.push(pattern.id);
+      }
+      patternLayers.set(pattern, layer);
+      merged.patterns.push(pattern);
+    }
+
+    for (const [from, to] of Object.entries(layerPlaybook.aliases ?? {})) {
+      if (!(from in merged.aliases!) && !seen.has(from)) {
+        merged.aliases![from] = to;
+      }
+    }
+
+    for (const id of ids) {
+      seen.add(id);
+    }
+  }
+
+  if (Object.keys(merged.aliases!).length === 0) {
+    delete merged.aliases;
+  }
+
+  mergedViews.add(merged);
+  return merged;
+}
+
+function warnSkippedEntry(filePath: string, pattern: unknown, index: number, problems: ValidationError[]): void {
+  const id = (pattern as Partial<Pattern> | null)?.id;
+  const label = typeof id === 'string' && id !== '' ? id : `#${index + 1}`;
+  const key = `${filePath}\0${index}\0${label}`;
+  if (warnedEntries.has(key)) {
+    return;
+  }
+  warnedEntries.add(key);
+
+  const [problem] = locateErrors(fs.readFileSync(filePath, 'utf-8'), problems);
+  const position = problem.line !== undefined ? `:${problem.line}:${problem.column}` : '';
+  console.warn(
+    `Warning: skipping invalid pattern ${label} (${filePath}${position}: ${problem.path}: ${problem.message}); ` +
+    'run "slsm playbook validate" for details'
+  );
+}
+
+/**
+ * The layer a pattern returned by loadPlaybook came from
+ */
+export function getPatternLayer(pattern: Pattern): PlaybookLayer | undefined {
+  return patternLayers.get(pattern);
+}
+
+/**
+ * Save a playbook to the file it was loaded from (the user-global playbook
+ * by default)
+ */
+export function savePlaybook(playbook: Playbook, filePath?: string): void {
+  if (mergedViews.has(playbook)) {
+    throw new Error('Cannot save a merged playbook view; update its layers instead');
+  }
+
+  const playbookPath = filePath ?? loadedFrom.get(playbook) ?? getPlaybookPath();
+  const dir = path.dirname(playbookPath);
+  
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  
+  withPlaybookLock(() => {
+    const existing = fs.existsSync(playbookPath) ? fs.readFileSync(playbookPath, 'utf-8') : '';
+    let onDisk: Playbook | null = null;
+    try {
+      onDisk = parsePlaybook(existing);
+    } catch {
+      // An unparseable file is replaced as a whole
+    }
+    // Never overwrite a file written by a newer version; keep older ones
+    // around before they are rewritten in the current format
+    const diskVersion = onDisk && existing !== '' ? playbookVersion(onDisk, playbookPath) : PLAYBOOK_VERSION;
+    if (diskVersion > PLAYBOOK_VERSION) {
+      throw newerVersionError(playbookPath, diskVersion);
+    }
+    if (diskVersion < PLAYBOOK_VERSION) {
+      backupPaths.set(playbook, writeBackup(playbookPath, diskVersion, existing));
+    }
+
+    mergeFeedback(playbook, onDisk);
+    playbook.version = PLAYBOOK_VERSION;
+    const content = stringifyPlaybook(playbook, existing);
+    writeFileAtomic(playbookPath, content);
+    migratedFrom.delete(playbook);
+    loadedFrom.set(playbook, playbookPath);
+    snapshotFeedback(playbook);
+    recordPlaybookChanges(onDisk ?? { patterns: [] }, playbook, playbookPath);
+  }, playbookPath);
+}
+
+function playbookVersion(data: Record<string, unknown> | Playbook, filePath: string): number {
+  const version = data.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new PlaybookParseError(filePath, 'version must be a positive integer');
+  }
+  return version;
+}
+
+function newerVersionError(filePath: string, version: number): PlaybookParseError {
+  return new PlaybookParseError(
+    filePath,
+    `playbook version ${version} is newer than this slsm supports (${PLAYBOOK_VERSION}); upgrade slsm to use it`
+  );
+}
+
+/**
+ * Copy a file about to be upgraded to `<file>.v<version>.bak`. An earlier
+ * backup is never replaced: a different original gets a numbered copy, and
+ * the same original reuses its backup.
+ */
+function writeBackup(filePath: string, version: number, content: string): string {
+  let backupPath = `${filePath}.v${version}.bak`;
+  for (let n = 1; fs.existsSync(backupPath); n++) {
+    if (fs.readFileSync(backupPath, 'utf-8') === content) {
+      return backupPath;
+    }
+    backupPath = `${filePath}.v${version}.${n}.bak`;
+  }
+  fs.writeFileSync(backupPath, content, 'utf-8');
+  return backupPath;
+}
+
+/**
+ * Upgrade parsed playbook data to PLAYBOOK_VERSION in place. Throws a
+ * PlaybookParseError for files written by a newer version.
+ */
+export function migratePlaybook(data: Record<string, unknown> | Playbook, filePath: string): MigrationResult {
+  const from = playbookVersion(data, filePath);
+  if (from > PLAYBOOK_VERSION) {
+    throw newerVersionError(filePath, from);
+  }
+
+  for (const migration of pendingMigrations(from)) {
+    migration.migrate(data as Record<string, unknown>);
+  }
+  if (from < PLAYBOOK_VERSION) {
+    data.version = PLAYBOOK_VERSION;
+  }
+  return { from, to: PLAYBOOK_VERSION, applied: migrationSteps(from) };
+}
+
+function pendingMigrations(from: number): Migration[] {
+  return MIGRATIONS.filter(m => m.from >= from && m.from < PLAYBOOK_VERSION);
+}
+
+function migrationSteps(from: number): string[] {
+  return pendingMigrations(from).map(m => m.description);
+}
+
+/**
+ * Upgrade a playbook file on disk, backing up the original first. Returns
+ * null when the file is missing or already current.
+ */
+export function migratePlaybookFile(filePath: string): (MigrationResult & { backup: string }) | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  return withPlaybookLock(() => {
+    const playbook = loadPlaybookFile(filePath);
+    const from = migratedFrom.get(playbook);
+    if (from === undefined) {
+      return null;
+    }
+    withChangeContext({ note: `Migrated playbook from version ${from} to ${PLAYBOOK_VERSION}` }, () =>
+      savePlaybook(playbook, filePath)
+    );
+    return { from, to: PLAYBOOK_VERSION, applied: migrationSteps(from), backup: backupPaths.get(playbook)! };
+  }, filePath);
+}
+
+/**
+ * What migratePlaybookFile would write, without writing it. Returns null
+ * when the file is missing or already current.
+ */
+export function previewMigration(filePath: string): (MigrationResult & { before: string; after: string }) | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const before = fs.readFileSync(filePath, 'utf-8');
+  const playbook = loadPlaybookFile(filePath);
+  const from = migratedFrom.get(playbook);
+  if (from === undefined) {
+    return null;
+  }
+  return { from, to: PLAYBOOK_VERSION, applied: migrationSteps(from), before, after: stringifyPlaybook(playbook, before) };
+}
+
+/**
+ * Load one layer's playbook, apply `mutate` and save it while holding that
+ * layer's lock, so concurrent writers cannot interleave. Nothing is saved if
+ * `mutate` throws. Writes go to the user-global layer by default; new ids
+ * are allocated clear of the ids used in other layers.
+ */
+export function updatePlaybook<T>(mutate: (playbook: Playbook) => T, layer: PlaybookLayer = getUserLayer()): T {
+  if (layer.readOnly) {
+    throw new ReadOnlyLayerError(layer);
+  }
+
+  return withPlaybookLock(() => {
+    const playbook = loadPlaybookFile(layer.path);
+    reservedIds.set(playbook, idsOutsideLayer(layer));
+    const result = mutate(playbook);
+    savePlaybook(playbook, layer.path);
+    return result;
+  }, layer.path);
+}
+
+/**
+ * The layer that owns pattern `id` (following aliases); unknown ids belong
+ * to the user-global layer
+ */
+export function getOwningLayer(id: string): PlaybookLayer {
+  const pattern = findPatternById(loadPlaybook(), id);
+  return (pattern && getPatternLayer(pattern)) || getUserLayer();
+}
+
+/**
+ * Like updatePlaybook, but writes to the layer that owns pattern `id`.
+ * Unknown ids go to the user-global layer, where `mutate` will not find
+ * them either.
+ */
+export function updateOwningLayer<T>(id: string, mutate: (playbook: Playbook) => T): T {
+  return updatePlaybook(mutate, getOwningLayer(id));
+}
+
+function idsOutsideLayer(layer: PlaybookLayer): string[] {
+  const ids: string[] = [];
+  for (const other of getPlaybookLayers()) {
+    if (other.path === layer.path) {
+      continue;
+    }
+    const playbook = loadPlaybookFile(other.path);
+    ids.push(...playbook.patterns.map(p => p?.id), ...Object.keys(playbook.aliases ?? {}));
+  }
+  return ids;
+}
+
+/**
+ * Run `fn` while holding the advisory lock of a playbook file (the
+ * user-global one by default). Re-entrant within a process.
+ */
+export function withPlaybookLock<T>(fn: () => T, filePath: string = getPlaybookPath()): T {
+  const lockPath = getPlaybookLockPath(filePath);
+  const depth = lockDepths.get(lockPath) ?? 0;
+
+  if (depth > 0) {
+    lockDepths.set(lockPath, depth + 1);
+    try {
+      return fn();
+    } finally {
+      lockDepths.set(lockPath, depth);
+    }
+  }
+
+  acquireLock(lockPath);
+  lockDepths.set(lockPath, 1);
+  try {
+    return fn();
+  } finally {
+    lockDepths.delete(lockPath);
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function acquireLock(lockPath: string): void {
+  const dir = path.dirname(lockPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let delay = 5;
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, `${process.pid}\n${Date.now()}\n`);
+      fs.closeSync(fd);
+      return;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw err;
+      }
+    }
+
+    if (isStaleLock(lockPath)) {
+      fs.rmSync(lockPath, { force: true });
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for playbook lock: ${lockPath}`);
+    }
+
+    // Back off with jitter so waiting writers don't retry in lockstep
+    sleepSync(delay + Math.random() * delay);
+    delay = Math.min(delay * 2, 100);
+  }
+}
+
+function isStaleLock(lockPath: string): boolean {
+  let content: string;
+  let mtime: number;
+  try {
+    content = fs.readFileSync(lockPath, 'utf-8');
+    mtime = fs.statSync(lockPath).mtimeMs;
+  } catch {
+    // Released between our open and read; just retry
+    return false;
+  }
+
+  if (Date.now() - mtime > STALE_LOCK_MS) {
+    return true;
+  }
+
+  const pid = parseInt(content.split('\n')[0], 10);
+  if (Number.isNaN(pid)) {
+    return false;
+  }
+  if (pid === process.pid) {
+    // Left behind by this process outside withPlaybookLock
+    return !lockDepths.has(lockPath);
+  }
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'ESRCH';
+  }
+}
+
+/**
+ * Write via a temp file and rename, so readers never see a partial file
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    fs.writeFileSync(tmpPath, content, 'utf-8');
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    fs.rmSync(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Rebase feedback counters onto the file on disk. Votes recorded since this
+ * playbook was loaded are applied as deltas, so votes saved concurrently by
+ * other writers are kept rather than overwritten.
+ */
+function mergeFeedback(playbook: Playbook, current: Playbook | null): void {
+  const base = loadedFeedback.get(playbook);
+  if (!base || !current) {
+    return;
+  }
+
+  const onDisk = feedbackCounters(current);
+
+  for (const [key, feedback] of feedbackCounters(playbook)) {
+    const latest = onDisk.get(key);
+    if (!latest) {
+      continue;
+    }
+    // Counters created since loading (e.g. a first vote on a fix) start at zero
+    const before = base.get(key) ?? { helpful: 0, harmful: 0 };
+    feedback.helpful = latest.helpful + (feedback.helpful - before.helpful);
+    feedback.harmful = latest.harmful + (feedback.harmful - before.harmful);
+  }
+}
+
+/**
+ * Serialize a playbook to YAML, reusing the nodes of an existing document
+ * so that comments, key ordering and quoting survive a load/save cycle.
+ */
+export function stringifyPlaybook(playbook: Playbook, existing: string = ''): string {
+  const doc = YAML.parseDocument(existing);
+  if (doc.errors.length > 0 || !YAML.isMap(doc.contents)) {
+    return YAML.stringify(playbook);
+  }
+
+  doc.contents = syncNode(doc, doc.contents, playbook, true) as typeof doc.contents;
+  moveVersionFirst(doc.contents as YAML.YAMLMap);
+  return doc.toString();
+}
+
+/**
+ * A version added to an older file goes above its other keys, taking over
+ * the comment that headed the file
+ */
+function moveVersionFirst(root: YAML.YAMLMap): void {
+  const index = root.items.findIndex(pair => (YAML.isScalar(pair.key) ? pair.key.value : pair.key) === 'version');
+  if (index <= 0) {
+    return;
+  }
+  const [pair] = root.items.splice(index, 1);
+  const key = YAML.isScalar(pair.key) ? pair.key : new YAML.Scalar('version');
+  const first = root.items[0]?.key;
+  if (YAML.isNode(first) && first.commentBefore) {
+    key.commentBefore = first.commentBefore;
+    first.commentBefore = undefined;
+  }
+  pair.key = key;
+  root.items.unshift(pair);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Update a YAML node in place to hold `value`, keeping untouched nodes (and
+ * their comments) as they are. Returns the node to store in the parent.
+ */
+function syncNode(doc: YAML.Document, node: unknown, value: unknown, isRoot: boolean = false): unknown {
+  if (isPlainObject(value) && YAML.isMap(node)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (child === undefined) {
+        node.delete(key);
+        continue;
+      }
+      const existing = node.get(key, true);
+      const synced = isRoot && key === 'patterns'
+        ? syncPatterns(doc, existing, child)
+        : syncNode(doc, existing, child);
+      if (synced !== existing) {
+        node.set(key, synced);
+      }
+    }
+    for (const pair of [...node.items]) {
+      const key = YAML.isScalar(pair.key) ? pair.key.value : pair.key;
+      if (typeof key === 'string' && !(key in value)) {
+        node.delete(key);
+      }
+    }
+    return node;
+  }
+
+  if (Array.isArray(value) && YAML.isSeq(node)) {
+    node.items = value.map((item, i) => syncNode(doc, node.items[i], item));
+    return node;
+  }
+
+  if (YAML.isScalar(node) && node.value === value) {
+    return node;
+  }
+
+  return doc.createNode(value);
+}
+
+/**
+ * Patterns are matched to their existing nodes by id rather than position,
+ * so removing or reordering patterns keeps the comments of the others.
+ */
+function syncPatterns(doc: YAML.Document, node: unknown, value: unknown): unknown {
+  if (!Array.isArray(value) || !YAML.isSeq(node)) {
+    return syncNode(doc, node, value);
+  }
+
+  const byId = new Map<string, unknown[]>();
+  for (const item of node.items) {
+    const id = YAML.isMap(item) ? item.get('id') : undefined;
+    if (typeof id === 'string') {
+      byId.set(id, [...(byId.get(id) ?? []), item]);
+    }
+  }
+
+  node.items = value.map(pattern => {
+    const id = isPlainObject(pattern) ? pattern.id : undefined;
+    const existing = typeof id === 'string' ? byId.get(id)?.shift() : undefined;
+    return syncNode(doc, existing, pattern);
+  });
+  return node;
+}
+
+export function findPatternById(playbook: Playbook, id: string): Pattern | undefined {
+  const seen = new Set<string>();
+  let current: string | undefined = id;
+
+  // Follow aliases left behind by renumbering, guarding against cycles
+  while (current !== undefined && !seen.has(current)) {
+    const pattern = playbook.patterns.find(p => p.id === current);
+    if (pattern) {
+      return pattern;
+    }
+    seen.add(current);
+    current = playbook.aliases?.[current];
+  }
+  return undefined;
+}
+
+/**
+ * Ids that resolve to a pattern: its own, then the aliases leading to it
+ */
+export function patternIds(playbook: Playbook, pattern: Pattern): string[] {
+  const aliases = Object.keys(playbook.aliases ?? {})
+    .filter(alias => alias !== pattern.id && findPatternById(playbook, alias) === pattern);
+  return [pattern.id, ...aliases];
+}
+
+const ID_PATTERN = /^slsm-(\d+)$/;
+
+function formatPatternId(num: number): string {
+  return `slsm-${num.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Lowest id number that is safe to allocate: above the stored counter and
+ * above every id still referenced by a pattern or alias.
+ */
+function nextIdNumber(playbook: Playbook): number {
+  let next = playbook.next_id ?? 1;
+  const ids = [
+    ...playbook.patterns.map(p => p.id),
+    ...Object.keys(playbook.aliases ?? {}),
+    ...Object.values(playbook.aliases ?? {}),
+    ...(reservedIds.get(playbook) ?? []),
+  ];
+  for (const id of ids) {
+    const match = typeof id === 'string' ? ID_PATTERN.exec(id) : null;
+    if (match) {
+      next = Math.max(next, parseInt(match[1], 10) + 1);
+    }
+  }
+  return next;
+}
+
+/**
+ * Allocate a new pattern id. The playbook's counter is advanced so that the
+ * id is never handed out again, even after the pattern is removed.
+ */
+export function generatePatternId(playbook: Playbook): string {
+  const num = nextIdNumber(playbook);
+  playbook.next_id = num + 1;
+  return formatPatternId(num);
+}
+
+/**
+ * Reassignment made by renumberPlaybook
+ */
+export interface IdChange {
+  index: number;
+  from: string;
+  to: string;
+}
+
+/**
+ * Give every pattern a unique id. Later duplicates of an id and missing ids
+ * are reassigned; with `all`, ids outside the slsm-NNN scheme are too.
+ * Renamed ids that no longer belong to any pattern are kept as aliases.
+ */
+export function renumberPlaybook(playbook: Playbook, options: { all?: boolean } = {}): IdChange[] {
+  const changes: IdChange[] = [];
+  const seen = new Set<string>();
+
+  playbook.patterns.forEach((pattern, index) => {
+    const id = typeof pattern.id === 'string' ? pattern.id : '';
+    const needsId = id === '' || seen.has(id) || (options.all === true && !ID_PATTERN.test(id));
+    if (needsId) {
+      const to = generatePatternId(playbook);
+      changes.push({ index, from: id, to });
+      pattern.id = to;
+      seen.add(to);
+    } else {
+      seen.add(id);
+    }
+  });
+
+  for (const change of changes) {
+    if (change.from !== '' && !seen.has(change.from) && !playbook.aliases?.[change.from]) {
+      playbook.aliases = { ...playbook.aliases, [change.from]: change.to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Outcome of importPatterns. Remapped indexes refer to the imported list.
  */
-export interface Playbook {
-  patterns: Pattern[];
+export interface ImportResult {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  remapped: IdChange[];
 }
 
 /**
- * Validation errors
+ * Add imported patterns to a playbook. One with the id and fingerprint of a
+ * pattern already here updates it, keeping that pattern's feedback counters.
+ * Other ids that are missing, repeated in the import, or taken here or in
+ * another layer are reassigned, and superseded_by references within the
+ * import follow them. With `replace`, patterns the import doesn't update
+ * are removed.
  */
-export interface ValidationError {
-  path: string;
-  message: string;
+export function importPatterns(
+  playbook: Playbook,
+  incoming: Pattern[],
+  options: { replace?: boolean } = {}
+): ImportResult {
+  const previous = playbook.patterns;
+  const taken = new Set([...(reservedIds.get(playbook) ?? []), ...Object.keys(playbook.aliases ?? {})]);
+  const claimed = new Set<string>();
+
+  const entries = incoming.map(entry => {
+    const pattern = structuredClone(entry);
+    const id = typeof pattern.id === 'string' ? pattern.id : '';
+    const existing = previous.find(p => p.id === id);
+    const keep = id !== '' && !claimed.has(id) && !taken.has(id) && (!existing || existing.fingerprint === pattern.fingerprint);
+    if (keep) {
+      claimed.add(id);
+    }
+    return { pattern, from: id, existing: keep ? existing : undefined, keep };
+  });
+
+  // Pin the counter above removed ids and the ids kept from the import
+  playbook.next_id = Math.max(nextIdNumber(playbook), nextIdNumber({ patterns: entries.filter(e => e.keep).map(e => e.pattern) }));
+  if (options.replace) {
+    playbook.patterns = [];
+  }
+
+  const result: ImportResult = { added: [], updated: [], removed: [], remapped: [] };
+  const finalIds = new Map<string, string>();
+  entries.forEach((entry, index) => {
+    if (!entry.keep) {
+      entry.pattern.id = generatePatternId(playbook);
+      result.remapped.push({ index, from: entry.from, to: entry.pattern.id });
+    }
+    if (entry.from !== '' && !finalIds.has(entry.from)) {
+      finalIds.set(entry.from, entry.pattern.id);
+    }
+  });
+
+  for (const { pattern, existing } of entries) {
+    if (pattern.superseded_by !== undefined && finalIds.has(pattern.superseded_by)) {
+      pattern.superseded_by = finalIds.get(pattern.superseded_by);
+    }
+    const next = existing ? restoreSnapshot(pattern, existing) : pattern;
+    const index = playbook.patterns.indexOf(existing!);
+    if (index === -1) {
+      playbook.patterns.push(next);
+    } else {
+      playbook.patterns[index] = next;
+    }
+    (existing ? result.updated : result.added).push(next.id);
+  }
+
+  if (options.replace) {
+    result.removed = previous.map(p => p.id).filter(id => !claimed.has(id));
+  }
+  markPlaybookChanged(playbook);
+  return result;
 }
 
-export function getPlaybookPath(): string {
-  return path.join(os.homedir(), '.sls-memory', 'playbook.yaml');
+/** Fields a pattern may have */
+const PATTERN_FIELDS = new Set([
+  'id', 'fingerprint', 'pattern', 'severity', 'category', 'title', 'symptoms', 'root_causes', 'fixes', 'feedback',
+  'services', 'workspaces', 'hosts', 'exception_type', 'frame', 'status', 'superseded_by', 'match',
+]);
+
+const MATCH_REGEX_FIELDS = new Set(['regex', 'case_sensitive', 'multiline', 'dotall']);
+
+const FIX_FIELDS = new Set(['step', 'command', 'feedback']);
+
+const ROOT_CAUSE_FIELDS = new Set(['cause', 'feedback']);
+
+const PLAYBOOK_FIELDS = new Set(['version', 'patterns', 'next_id', 'aliases']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-export function loadPlaybook(): Playbook {
-  const playbookPath = getPlaybookPath();
-  
-  if (!fs.existsSync(playbookPath)) {
-    return { patterns: [] };
-  }
-  
-  const content = fs.readFileSync(playbookPath, 'utf-8');
-  const data = YAML.parse(content);
-  return data || { patterns: [] };
+function unknownFields(value: Record<string, unknown>, known: Set<string>, prefix: string): ValidationError[] {
+  return Object.keys(value)
+    .filter(field => !known.has(field))
+    .map(field => ({ path: prefix ? `${prefix}.${field}` : field, message: `Unknown field ${field}`, level: 'warning' as const }));
 }
 
-export function savePlaybook(playbook: Playbook): void {
-  const playbookPath = getPlaybookPath();
-  const dir = path.dirname(playbookPath);
-  
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
+function feedbackErrors(value: unknown, path: string): ValidationError[] {
+  if (!isRecord(value)) {
+    return [{ path, message: 'feedback must be an object' }];
   }
-  
-  const content = YAML.stringify(playbook);
-  fs.writeFileSync(playbookPath, content, 'utf-8');
+  const errors: ValidationError[] = [];
+  for (const field of ['helpful', 'harmful']) {
+    if (typeof value[field] !== 'number') {
+      errors.push({ path: `${path}.${field}`, message: `${field} must be a number` });
+    }
+  }
+  return errors;
 }
 
-export function findPatternById(playbook: Playbook, id: string): Pattern | undefined {
-  return playbook.patterns.find(p => p.id === id);
+function compiles(source: string, flags: string = ''): boolean {
+  try {
+    new RegExp(source, flags);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
-export function generatePatternId(): string {
-  const num = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-  return `slsm-${num}`;
+/**
+ * The well-formed entries of an unvalidated pattern's `match`, as clauses
+ */
+function matchClauses(p: Record<string, unknown>): MatchClause[] {
+  if (!isRecord(p.match)) {
+    return [];
+  }
+  const match = p.match;
+  return MATCH_CLAUSE_KINDS.flatMap(kind => {
+    const entries = match[kind];
+    return Array.isArray(entries)
+      ? entries.flatMap((entry: unknown, i): MatchClause[] => {
+        const path = `match.${kind}[${i}]`;
+        if (typeof entry === 'string') {
+          return [{ kind, path, regex: entry, flags: matchRegexFlags(entry) }];
+        }
+        return isRecord(entry) && typeof entry.regex === 'string'
+          ? [{ kind, path, regex: entry.regex, flags: matchRegexFlags(entry as unknown as MatchRegex) }]
+          : [];
+      })
+      : [];
+  });
 }
 
 /**
- * Validate a pattern object
+ * Check that a pattern has the types lookups rely on: the required strings,
+ * lists of the right entries, feedback counters and compilable regexes.
+ * Entries failing these checks are skipped when the playbook is loaded.
  */
-export function validatePattern(pattern: unknown, index: number): ValidationError[] {
+export function checkPatternShape(pattern: unknown, index: number): ValidationError[] {
   const errors: ValidationError[] = [];
   const prefix = `patterns[${index}]`;
 
-  if (typeof pattern !== 'object' || pattern === null) {
+  if (!isRecord(pattern)) {
     errors.push({ path: prefix, message: 'Pattern must be an object' });
     return errors;
   }
 
-  const p = pattern as Record<string, unknown>;
+  const p = pattern;
 
   // Required string fields
   const requiredStrings = ['id', 'fingerprint', 'pattern', 'category', 'title'];
   for (const field of requiredStrings) {
-    if (typeof p[field] !== 'string' || p[field] === '') {
+    if (typeof p[field] !== 'string') {
       errors.push({ path: `${prefix}.${field}`, message: `${field} is required and must be a non-empty string` });
     }
   }
 
-  // Severity validation
-  const validSeverities = ['low', 'medium', 'high'];
-  if (!validSeverities.includes(p.severity as string)) {
-    errors.push({ path: `${prefix}.severity`, message: `severity must be one of: ${validSeverities.join(', ')}` });
-  }
-
   // Array fields
   const arrayFields = ['symptoms', 'root_causes', 'fixes'];
   for (const field of arrayFields) {
@@ -144,35 +1170,270 @@ export function validatePattern(pattern: unknown, index: number): ValidationErro
     }
   }
 
-  // Feedback validation
-  if (typeof p.feedback !== 'object' || p.feedback === null) {
-    errors.push({ path: `${prefix}.feedback`, message: 'feedback must be an object' });
-  } else {
-    const fb = p.feedback as Record<string, unknown>;
-    if (typeof fb.helpful !== 'number') {
-      errors.push({ path: `${prefix}.feedback.helpful`, message: 'helpful must be a number' });
+  if (Array.isArray(p.symptoms)) {
+    p.symptoms.forEach((symptom, i) => {
+      if (typeof symptom !== 'string') {
+        errors.push({ path: `${prefix}.symptoms[${i}]`, message: 'symptom must be a string' });
+      }
+    });
+  }
+
+  if (Array.isArray(p.root_causes)) {
+    p.root_causes.forEach((entry, i) => {
+      const path = `${prefix}.root_causes[${i}]`;
+      if (typeof entry !== 'string' && !(isRecord(entry) && typeof entry.cause === 'string')) {
+        errors.push({ path, message: 'root cause must be a string or an object with a cause' });
+      } else if (isRecord(entry) && entry.feedback !== undefined) {
+        errors.push(...feedbackErrors(entry.feedback, `${path}.feedback`));
+      }
+    });
+  }
+
+  if (Array.isArray(p.fixes)) {
+    p.fixes.forEach((fix, i) => {
+      const path = `${prefix}.fixes[${i}]`;
+      if (!isRecord(fix) || typeof fix.step !== 'string') {
+        errors.push({ path, message: 'fix must be an object with a step' });
+        return;
+      }
+      if (fix.command !== undefined && typeof fix.command !== 'string') {
+        errors.push({ path: `${path}.command`, message: 'command must be a string' });
+      }
+      if (fix.feedback !== undefined) {
+        errors.push(...feedbackErrors(fix.feedback, `${path}.feedback`));
+      }
+    });
+  }
+
+  // Optional scope fields
+  for (const field of ['services', 'workspaces', 'hosts']) {
+    const value = p[field];
+    if (value !== undefined && !(Array.isArray(value) && value.every(v => typeof v === 'string' && v !== ''))) {
+      errors.push({ path: `${prefix}.${field}`, message: `${field} must be an array of non-empty strings` });
+    }
+  }
+
+  // Optional stack trace matchers
+  for (const field of ['exception_type', 'frame']) {
+    if (p[field] !== undefined && (typeof p[field] !== 'string' || p[field] === '')) {
+      errors.push({ path: `${prefix}.${field}`, message: `${field} must be a non-empty string` });
     }
-    if (typeof fb.harmful !== 'number') {
-      errors.push({ path: `${prefix}.feedback.harmful`, message: 'harmful must be a number' });
+  }
+
+  errors.push(...feedbackErrors(p.feedback, `${prefix}.feedback`));
+
+  // Optional regex clauses
+  if (p.match !== undefined && !isRecord(p.match)) {
+    errors.push({ path: `${prefix}.match`, message: 'match must be an object with any, all or none lists' });
+  }
+  if (isRecord(p.match)) {
+    for (const kind of MATCH_CLAUSE_KINDS) {
+      const entries = p.match[kind];
+      const path = `${prefix}.match.${kind}`;
+      if (entries !== undefined && !Array.isArray(entries)) {
+        errors.push({ path, message: `${kind} must be an array of regexes` });
+        continue;
+      }
+      (entries ?? []).forEach((entry: unknown, i: number) => {
+        if (typeof entry === 'string') {
+          return;
+        }
+        if (!isRecord(entry) || typeof entry.regex !== 'string') {
+          errors.push({ path: `${path}[${i}]`, message: 'match regex must be a string or an object with a regex' });
+          return;
+        }
+        for (const flag of ['case_sensitive', 'multiline', 'dotall']) {
+          if (entry[flag] !== undefined && typeof entry[flag] !== 'boolean') {
+            errors.push({ path: `${path}[${i}].${flag}`, message: `${flag} must be true or false` });
+          }
+        }
+      });
     }
   }
 
   // Validate regex pattern
-  if (typeof p.pattern === 'string') {
-    try {
-      new RegExp(p.pattern);
-    } catch {
-      errors.push({ path: `${prefix}.pattern`, message: 'Invalid regex pattern' });
+  if (typeof p.pattern === 'string' && !compiles(p.pattern)) {
+    errors.push({ path: `${prefix}.pattern`, message: 'Invalid regex pattern' });
+  }
+  for (const clause of matchClauses(p)) {
+    if (!compiles(clause.regex, clause.flags)) {
+      errors.push({ path: `${prefix}.${clause.path}`, message: 'Invalid regex' });
+    }
+  }
+  if (typeof p.frame === 'string' && !compiles(p.frame)) {
+    errors.push({ path: `${prefix}.frame`, message: 'Invalid frame regex' });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a pattern object: its shape, allowed values, regexes that would
+ * match everything or backtrack catastrophically, and (as warnings) fields
+ * the playbook doesn't know
+ */
+export function validatePattern(pattern: unknown, index: number): ValidationError[] {
+  const errors = checkPatternShape(pattern, index);
+  if (!isRecord(pattern)) {
+    return errors;
+  }
+
+  const p = pattern;
+  const prefix = `patterns[${index}]`;
+
+  for (const field of ['id', 'fingerprint', 'category', 'title']) {
+    if (p[field] === '') {
+      errors.push({ path: `${prefix}.${field}`, message: `${field} is required and must be a non-empty string` });
+    }
+  }
+  // `pattern` may be left empty when match clauses say what to match
+  const clauses = matchClauses(p);
+  if (p.pattern === '' && !clauses.some(clause => clause.kind !== 'none')) {
+    errors.push({
+      path: `${prefix}.pattern`,
+      message: 'pattern is required and must be a non-empty string, unless match has any or all regexes',
+    });
+  }
+
+  // Severity validation
+  const validSeverities = ['low', 'medium', 'high'];
+  if (!validSeverities.includes(p.severity as string)) {
+    errors.push({ path: `${prefix}.severity`, message: `severity must be one of: ${validSeverities.join(', ')}` });
+  }
+
+  if (Array.isArray(p.fixes)) {
+    p.fixes.forEach((fix, i) => {
+      if (isRecord(fix) && fix.step === '') {
+        errors.push({ path: `${prefix}.fixes[${i}].step`, message: 'step must be a non-empty string' });
+      }
+    });
+  }
+
+  // Optional lifecycle
+  if (p.status !== undefined && !PATTERN_STATUSES.includes(p.status as PatternStatus)) {
+    errors.push({ path: `${prefix}.status`, message: `status must be one of: ${PATTERN_STATUSES.join(', ')}` });
+  }
+  if (p.superseded_by !== undefined && (typeof p.superseded_by !== 'string' || p.superseded_by === '')) {
+    errors.push({ path: `${prefix}.superseded_by`, message: 'superseded_by must be a non-empty pattern ID' });
+  }
+
+  // A regex matching the empty string matches every error (or frame)
+  if (typeof p.pattern === 'string' && p.pattern !== '' && compiles(p.pattern) && new RegExp(p.pattern, 'i').test('')) {
+    errors.push({ path: `${prefix}.pattern`, message: 'pattern matches the empty string, so it would match every error' });
+  }
+  if (typeof p.frame === 'string' && p.frame !== '' && compiles(p.frame) && new RegExp(p.frame).test('')) {
+    errors.push({ path: `${prefix}.frame`, message: 'frame matches the empty string, so it would match every frame' });
+  }
+  for (const clause of clauses) {
+    if (clause.kind !== 'all' && compiles(clause.regex, clause.flags) && new RegExp(clause.regex, clause.flags).test('')) {
+      const effect = clause.kind === 'any' ? 'match' : 'exclude';
+      errors.push({ path: `${prefix}.${clause.path}`, message: `${clause.path} matches the empty string, so it would ${effect} every error` });
+    }
+  }
+
+  const regexes = [
+    ...(['pattern', 'frame'] as const).map(field => ({ path: field, regex: p[field] })),
+    ...clauses,
+  ];
+  for (const { path: field, regex } of regexes) {
+    if (typeof regex === 'string') {
+      for (const risk of analyzeRegex(regex)) {
+        const message = `${field} has ${risk.message}`;
+        errors.push(risk.level === 'warning' ? { path: `${prefix}.${field}`, message, level: 'warning' } : { path: `${prefix}.${field}`, message });
+      }
+    }
+  }
+
+  errors.push(...unknownFields(p, PATTERN_FIELDS, prefix));
+  if (isRecord(p.match)) {
+    errors.push(...unknownFields(p.match, new Set<string>(MATCH_CLAUSE_KINDS), `${prefix}.match`));
+    for (const kind of MATCH_CLAUSE_KINDS) {
+      const entries = p.match[kind];
+      if (Array.isArray(entries)) {
+        entries.forEach((entry: unknown, i: number) => {
+          if (isRecord(entry)) {
+            errors.push(...unknownFields(entry, MATCH_REGEX_FIELDS, `${prefix}.match.${kind}[${i}]`));
+          }
+        });
+      }
     }
   }
+  if (Array.isArray(p.fixes)) {
+    p.fixes.forEach((fix, i) => {
+      if (isRecord(fix)) {
+        errors.push(...unknownFields(fix, FIX_FIELDS, `${prefix}.fixes[${i}]`));
+      }
+    });
+  }
+  if (Array.isArray(p.root_causes)) {
+    p.root_causes.forEach((entry, i) => {
+      if (isRecord(entry)) {
+        errors.push(...unknownFields(entry, ROOT_CAUSE_FIELDS, `${prefix}.root_causes[${i}]`));
+      }
+    });
+  }
 
   return errors;
 }
 
 /**
- * Validate the entire playbook
+ * Whether validation found anything besides warnings
+ */
+export function hasValidationErrors(errors: ValidationError[]): boolean {
+  return errors.some(e => e.level !== 'warning');
+}
+
+/**
+ * Follow superseded_by pointers from `start`, reporting a missing target or a
+ * cycle back to `start`. `resolve` looks up a pattern by id (or alias).
+ */
+function supersessionProblem(
+  start: Pick<Pattern, 'id' | 'superseded_by'>,
+  resolve: (id: string) => Pick<Pattern, 'id' | 'superseded_by'> | undefined
+): string | null {
+  const chain = [start.id];
+  let current = start;
+  while (current.superseded_by) {
+    const target = resolve(current.superseded_by);
+    if (!target) {
+      return `Superseding pattern not found: ${current.superseded_by}`;
+    }
+    if (target.id === start.id) {
+      return `Supersession cycle: ${[...chain, target.id].join(' -> ')}`;
+    }
+    // A cycle further down the chain is reported on its own members
+    if (chain.includes(target.id)) {
+      return null;
+    }
+    chain.push(target.id);
+    current = target;
+  }
+  return null;
+}
+
+/**
+ * Check that a pattern about to be saved points at an existing replacement
+ * without forming a cycle; targets are looked up in `playbook`
+ */
+export function checkSupersession(playbook: Playbook, pattern: Pattern): string | null {
+  return supersessionProblem(pattern, id => {
+    const found = findPatternById(playbook, id);
+    return found?.id === pattern.id ? pattern : found;
+  });
+}
+
+/**
+ * A pattern's lifecycle state
+ */
+export function patternStatus(pattern: Pattern): PatternStatus {
+  return pattern.status ?? 'active';
+}
+
+/**
+ * Validate the entire playbook. `externalIds` are ids defined in other
+ * layers, which superseded_by may point at.
  */
-export function validatePlaybook(data: unknown): ValidationError[] {
+export function validatePlaybook(data: unknown, externalIds: Iterable<string> = []): ValidationError[] {
   const errors: ValidationError[] = [];
 
   if (typeof data !== 'object' || data === null) {
@@ -187,6 +1448,18 @@ export function validatePlaybook(data: unknown): ValidationError[] {
     return errors;
   }
 
+  if (playbook.version !== undefined) {
+    if (!Number.isInteger(playbook.version) || (playbook.version as number) < 1) {
+      errors.push({ path: 'version', message: 'version must be a positive integer' });
+    } else if ((playbook.version as number) > PLAYBOOK_VERSION) {
+      errors.push({ path: 'version', message: `version ${playbook.version} is newer than this slsm supports (${PLAYBOOK_VERSION})` });
+    }
+  }
+  if (playbook.next_id !== undefined && !(Number.isInteger(playbook.next_id) && (playbook.next_id as number) > 0)) {
+    errors.push({ path: 'next_id', message: 'next_id must be a positive integer' });
+  }
+  errors.push(...unknownFields(playbook, PLAYBOOK_FIELDS, ''));
+
   // Check for duplicate IDs
   const ids = new Set<string>();
   for (let i = 0; i < playbook.patterns.length; i++) {
@@ -201,15 +1474,137 @@ export function validatePlaybook(data: unknown): ValidationError[] {
     errors.push(...validatePattern(pattern, i));
   }
 
+  if (playbook.aliases !== undefined) {
+    if (typeof playbook.aliases !== 'object' || playbook.aliases === null || Array.isArray(playbook.aliases)) {
+      errors.push({ path: 'aliases', message: 'aliases must be a map of old id to new id' });
+    } else {
+      for (const [from, to] of Object.entries(playbook.aliases)) {
+        if (ids.has(from)) {
+          errors.push({ path: `aliases.${from}`, message: `Alias ${from} shadows an existing pattern ID` });
+        } else if (typeof to !== 'string' || (!ids.has(to) && !(to in playbook.aliases))) {
+          errors.push({ path: `aliases.${from}`, message: `Alias target not found: ${String(to)}` });
+        }
+      }
+    }
+  }
+
+  // Supersession targets may be aliases of, or patterns in, other layers
+  const byId = new Map<string, Pattern>();
+  for (const pattern of playbook.patterns as Pattern[]) {
+    if (typeof pattern?.id === 'string' && !byId.has(pattern.id)) {
+      byId.set(pattern.id, pattern);
+    }
+  }
+  const aliases = (typeof playbook.aliases === 'object' && playbook.aliases !== null ? playbook.aliases : {}) as Record<string, string>;
+  const external = new Set(externalIds);
+  const resolve = (id: string): Pick<Pattern, 'id' | 'superseded_by'> | undefined => {
+    const seen = new Set<string>();
+    while (!byId.has(id) && id in aliases && !seen.has(id)) {
+      seen.add(id);
+      id = aliases[id];
+    }
+    return byId.get(id) ?? (external.has(id) ? { id } : undefined);
+  };
+
+  playbook.patterns.forEach((pattern, i) => {
+    const p = pattern as Pattern;
+    if (typeof p?.id !== 'string' || typeof p.superseded_by !== 'string' || p.superseded_by === '') {
+      return;
+    }
+    const problem = supersessionProblem(p, resolve);
+    if (problem) {
+      errors.push({ path: `patterns[${i}].superseded_by`, message: problem });
+    }
+  });
+
   return errors;
 }
 
 /**
- * Create a new pattern with default values
+ * Keys of a validation path such as `patterns[2].fixes[0].step`
+ */
+function pathKeys(errorPath: string): Array<string | number> {
+  const keys: Array<string | number> = [];
+  for (const match of errorPath.matchAll(/\[(\d+)\]|([^.[\]]+)/g)) {
+    keys.push(match[1] !== undefined ? Number(match[1]) : match[2]);
+  }
+  return keys;
+}
+
+/**
+ * Attach YAML line and column to validation errors. Errors about a missing
+ * field point at the closest enclosing node.
+ */
+export function locateErrors(content: string, errors: ValidationError[]): ValidationError[] {
+  const lineCounter = new YAML.LineCounter();
+  const doc = YAML.parseDocument(content, { lineCounter });
+  if (doc.errors.length > 0) {
+    return errors;
+  }
+
+  return errors.map(error => {
+    const keys = pathKeys(error.path);
+    for (let depth = keys.length; depth >= 0; depth--) {
+      const node = depth === 0 ? doc.contents : doc.getIn(keys.slice(0, depth), true);
+      const offset = YAML.isNode(node) ? node.range?.[0] : undefined;
+      if (offset !== undefined) {
+        const { line, col } = lineCounter.linePos(offset);
+        return { ...error, line, column: col };
+      }
+    }
+    return error;
+  });
+}
+
+/**
+ * Validate a playbook file, reporting YAML syntax errors and playbook
+ * errors with their line and column
+ */
+export function validatePlaybookFile(filePath: string, externalIds: Iterable<string> = []): ValidationError[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const doc = YAML.parseDocument(content, { lineCounter: new YAML.LineCounter() });
+  if (doc.errors.length > 0) {
+    return doc.errors.map(err => {
+      const [start] = err.linePos ?? [];
+      return {
+        path: '',
+        message: yamlErrorReason(err),
+        ...(start ? { line: start.line, column: start.col } : {}),
+      };
+    });
+  }
+
+  // An empty file is an empty playbook. Older versions are checked as they
+  // will be read, after migration.
+  const data = doc.toJS() ?? { patterns: [] };
+  const notes: ValidationError[] = [];
+  if (isPlainObject(data)) {
+    try {
+      const { from } = migratePlaybook(data, filePath);
+      if (from < PLAYBOOK_VERSION) {
+        notes.push({
+          path: 'version',
+          message: `Playbook version ${from} is older than ${PLAYBOOK_VERSION}; run "slsm playbook migrate" to upgrade it`,
+          level: 'warning',
+        });
+      }
+    } catch (err) {
+      // Unusable versions are reported by validatePlaybook
+      if (!(err instanceof PlaybookParseError)) {
+        throw err;
+      }
+    }
+  }
+  return locateErrors(content, [...notes, ...validatePlaybook(data, externalIds)]);
+}
+
+/**
+ * Create a new pattern with default values. When a playbook is given and no
+ * id is supplied, a fresh id is allocated from it.
  */
-export function createPattern(overrides: Partial<Pattern> = {}): Pattern {
+export function createPattern(overrides: Partial<Pattern> = {}, playbook?: Playbook): Pattern {
   return {
-    id: generatePatternId(),
+    id: overrides.id ?? (playbook ? generatePatternId(playbook) : ''),
     fingerprint: '',
     pattern: '',
     severity: 'medium',
@@ -223,6 +1618,47 @@ export function createPattern(overrides: Partial<Pattern> = {}): Pattern {
   };
 }
 
+/**
+ * Derive a fingerprint slug from a pattern title
+ */
+export function fingerprintFromTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Remove a pattern from the playbook, returning it if it existed
+ */
+export function removePattern(playbook: Playbook, id: string): Pattern | undefined {
+  const index = playbook.patterns.findIndex(p => p.id === id);
+  if (index === -1) {
+    return undefined;
+  }
+  // Pin the counter so the removed id is never allocated again
+  playbook.next_id = nextIdNumber(playbook);
+  markPlaybookChanged(playbook);
+  return playbook.patterns.splice(index, 1)[0];
+}
+
+/**
+ * Record that a playbook's patterns changed: one was replaced, or had its
+ * regexes, title or symptoms edited. The mutators here call it; code that
+ * edits patterns in place must call it before matching against the
+ * playbook again.
+ */
+export function markPlaybookChanged(playbook: Playbook): void {
+  revisions.set(playbook, playbookRevision(playbook) + 1);
+}
+
+/**
+ * How many times markPlaybookChanged was called for a playbook
+ */
+export function playbookRevision(playbook: Playbook): number {
+  return revisions.get(playbook) ?? 0;
+}
+
 /**
  * Add a fix to a pattern
  */
@@ -231,8 +1667,144 @@ export function addFix(pattern: Pattern, step: string, command?: string): void {
 }
 
 /**
- * Record feedback on a pattern
+ * RegExp flags for a match regex
+ */
+export function matchRegexFlags(entry: MatchRegexEntry): string {
+  if (typeof entry === 'string') {
+    return 'i';
+  }
+  return `${entry.case_sensitive ? '' : 'i'}${entry.multiline ? 'm' : ''}${entry.dotall ? 's' : ''}`;
+}
+
+/**
+ * A pattern's regexes: `pattern` (unless empty) as an `any` clause, then
+ * those in `match`
+ */
+export function patternClauses(pattern: Pattern): MatchClause[] {
+  const clauses: MatchClause[] = pattern.pattern !== ''
+    ? [{ kind: 'any', path: 'pattern', regex: pattern.pattern, flags: 'i' }]
+    : [];
+  for (const kind of MATCH_CLAUSE_KINDS) {
+    (pattern.match?.[kind] ?? []).forEach((entry, i) => {
+      clauses.push({
+        kind,
+        path: `match.${kind}[${i}]`,
+        regex: typeof entry === 'string' ? entry : entry.regex,
+        flags: matchRegexFlags(entry),
+      });
+    });
+  }
+  return clauses;
+}
+
+const INLINE_FLAGS = /^\(\?([ms]*)(-i)?\)/;
+
+/**
+ * A match regex as one line of text. Flags other than the defaults are
+ * written as a leading group, as in PCRE: `(?ms-i)` for multiline, dotall
+ * and case-sensitive. No JavaScript regex starts that way.
+ */
+export function formatMatchRegex(entry: MatchRegexEntry): string {
+  if (typeof entry === 'string') {
+    return entry;
+  }
+  const flags = `${entry.multiline ? 'm' : ''}${entry.dotall ? 's' : ''}${entry.case_sensitive ? '-i' : ''}`;
+  return flags === '' ? entry.regex : `(?${flags})${entry.regex}`;
+}
+
+/**
+ * Read a match regex written by formatMatchRegex
+ */
+export function parseMatchRegex(text: string): MatchRegexEntry {
+  const flags = INLINE_FLAGS.exec(text);
+  if (!flags || (flags[1] === '' && !flags[2])) {
+    return text;
+  }
+  return {
+    regex: text.slice(flags[0].length),
+    ...(flags[2] ? { case_sensitive: true } : {}),
+    ...(flags[1].includes('m') ? { multiline: true } : {}),
+    ...(flags[1].includes('s') ? { dotall: true } : {}),
+  };
+}
+
+/**
+ * Widen `target`'s regexes to also match what `source`'s `pattern` and
+ * `match.any` regexes match. Without `match` on either, the two `pattern`s
+ * become one alternation (an invalid one is replaced outright); otherwise
+ * the source's regexes are added to `target.match.any`. `target`'s `all`
+ * and `none` clauses still apply.
+ */
+export function widenMatch(target: Pattern, source: Pattern): void {
+  if (!target.match && !source.match) {
+    if (source.pattern !== target.pattern) {
+      target.pattern = compiles(target.pattern, 'i') ? `(?:${target.pattern})|(?:${source.pattern})` : source.pattern;
+    }
+    return;
+  }
+  const any = ((target.match ??= {}).any ??= []);
+  const present = new Set([target.pattern, ...any].map(formatMatchRegex));
+  const added = [...(source.pattern !== '' ? [source.pattern] : []), ...(source.match?.any ?? [])];
+  for (const entry of added) {
+    if (!present.has(formatMatchRegex(entry))) {
+      present.add(formatMatchRegex(entry));
+      any.push(structuredClone(entry));
+    }
+  }
+}
+
+/**
+ * Text of a root cause entry
+ */
+export function rootCauseText(entry: RootCauseEntry): string {
+  return typeof entry === 'string' ? entry : entry.cause;
+}
+
+/**
+ * Which fix or root cause a vote is about (1-based, in playbook order)
  */
-export function recordFeedback(pattern: Pattern, type: 'helpful' | 'harmful'): void {
+export interface FeedbackTarget {
+  fix?: number;
+  cause?: number;
+}
+
+/**
+ * Check that a feedback target exists on the pattern, returning an error
+ * message if it doesn't
+ */
+export function checkFeedbackTarget(pattern: Pattern, target: FeedbackTarget = {}): string | null {
+  if (target.fix !== undefined && !(Number.isInteger(target.fix) && target.fix >= 1 && target.fix <= pattern.fixes.length)) {
+    return `Fix ${target.fix} does not exist on ${pattern.id} (it has ${pattern.fixes.length})`;
+  }
+  if (target.cause !== undefined && !(Number.isInteger(target.cause) && target.cause >= 1 && target.cause <= pattern.root_causes.length)) {
+    return `Root cause ${target.cause} does not exist on ${pattern.id} (it has ${pattern.root_causes.length})`;
+  }
+  return null;
+}
+
+/**
+ * Record feedback on a pattern, and optionally on one of its fixes and root
+ * causes. Plain-string root causes are converted to objects to hold counters.
+ */
+export function recordFeedback(pattern: Pattern, type: 'helpful' | 'harmful', target: FeedbackTarget = {}): void {
+  const error = checkFeedbackTarget(pattern, target);
+  if (error) {
+    throw new Error(error);
+  }
+
   pattern.feedback[type]++;
+
+  if (target.fix !== undefined) {
+    const fix = pattern.fixes[target.fix - 1];
+    fix.feedback = fix.feedback ?? { helpful: 0, harmful: 0 };
+    fix.feedback[type]++;
+  }
+
+  if (target.cause !== undefined) {
+    const entry = pattern.root_causes[target.cause - 1];
+    const cause: RootCause = typeof entry === 'string' ? { cause: entry } : entry;
+    cause.feedback = cause.feedback ?? { helpful: 0, harmful: 0 };
+    cause.feedback[type]++;
+    pattern.root_causes[target.cause - 1] = cause;
+  }
 }
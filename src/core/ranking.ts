@@ -0,0 +1,108 @@
+/**
+ * Feedback-aware ranking
+ *
+ * Blends a match score with a confidence-adjusted estimate of how helpful a
+ * pattern has been, so a pattern with 1/1 helpful votes doesn't outrank one
+ * with 40/42, and patterns that are mostly harmful can be hidden.
+ */
+
+import type { Feedback, Pattern } from './playbook.js';
+
+/** z-score for a 95% confidence interval */
+const Z_95 = 1.96;
+
+/** Pseudo-votes added to every pattern so unvoted patterns start neutral */
+const PRIOR_HELPFUL = 1;
+const PRIOR_HARMFUL = 1;
+
+/** Share of the rank score that is always kept regardless of feedback */
+const FEEDBACK_FLOOR = 0.5;
+
+/** Patterns whose harmful share is confidently above this are hidden */
+const HARMFUL_THRESHOLD = 0.5;
+
+export interface RankOptions {
+  /** Keep patterns whose feedback is mostly harmful */
+  includeHarmful?: boolean;
+}
+
+/**
+ * Lower bound of the Wilson score interval for a binomial proportion
+ */
+export function wilsonLowerBound(successes: number, total: number, z: number = Z_95): number {
+  if (total <= 0) {
+    return 0;
+  }
+
+  const p = successes / total;
+  const z2 = z * z;
+  const centre = p + z2 / (2 * total);
+  const margin = z * Math.sqrt((p * (1 - p) + z2 / (4 * total)) / total);
+  return Math.max(0, (centre - margin) / (1 + z2 / total));
+}
+
+/**
+ * Confidence-adjusted helpfulness estimate in [0, 1]
+ */
+export function helpfulness(feedback: Feedback): number {
+  const helpful = feedback.helpful + PRIOR_HELPFUL;
+  const total = feedback.helpful + feedback.harmful + PRIOR_HELPFUL + PRIOR_HARMFUL;
+  return wilsonLowerBound(helpful, total);
+}
+
+/**
+ * Whether feedback shows, with confidence, that the pattern mostly misleads
+ */
+export function isMostlyHarmful(feedback: Feedback): boolean {
+  const total = feedback.helpful + feedback.harmful;
+  return wilsonLowerBound(feedback.harmful, total) >= HARMFUL_THRESHOLD;
+}
+
+/**
+ * Blend a match score (0-100) with the pattern's helpfulness
+ */
+export function rankScore(score: number, feedback: Feedback): number {
+  return score * (FEEDBACK_FLOOR + (1 - FEEDBACK_FLOOR) * helpfulness(feedback));
+}
+
+/**
+ * Drop mostly-harmful patterns (unless asked not to), attach a rank score
+ * and sort best first. Ties keep the order of the match score. A result's
+ * optional `boost` multiplies its rank score.
+ */
+export function rankResults<T extends { pattern: Pattern; score: number; boost?: number }>(
+  results: T[],
+  options: RankOptions = {}
+): Array<T & { rankScore: number }> {
+  return results
+    .filter(r => options.includeHarmful || !isMostlyHarmful(r.pattern.feedback))
+    .map(r => ({ ...r, rankScore: rankScore(r.score, r.pattern.feedback) * (r.boost ?? 1) }))
+    .sort((a, b) => b.rankScore - a.rankScore || b.score - a.score);
+}
+
+/**
+ * Share of votes that were helpful, or null when there are none
+ */
+export function successRate(feedback: Feedback | undefined): number | null {
+  const total = feedback ? feedback.helpful + feedback.harmful : 0;
+  return total > 0 ? feedback!.helpful / total : null;
+}
+
+/**
+ * Order fixes or root causes by how well they have worked. Items keep their
+ * 1-based position in the playbook so votes can still refer to them; items
+ * without votes keep their original relative order.
+ */
+export function rankByFeedback<T>(
+  items: T[],
+  feedbackOf: (item: T) => Feedback | undefined
+): Array<{ item: T; index: number }> {
+  return items
+    .map((item, i) => ({
+      item,
+      index: i + 1,
+      weight: helpfulness(feedbackOf(item) ?? { helpful: 0, harmful: 0 }),
+    }))
+    .sort((a, b) => b.weight - a.weight || a.index - b.index)
+    .map(({ item, index }) => ({ item, index }));
+}
@@ -0,0 +1,287 @@
+/**
+ * Hybrid retrieval
+ *
+ * Runs three retrievers over the playbook - regex, keyword overlap and
+ * embedding similarity - and fuses them into one 0-1 confidence per pattern.
+ * Each retriever's own strength is combined as independent evidence, then
+ * scaled by reciprocal rank fusion so patterns the retrievers agree on rank
+ * first. A regex hit counts for more the more of the message it spans,
+ * which breaks the ties a flat regex score leaves.
+ *
+ * When the message is a stack trace, the retrievers see only its exception
+ * types and messages, and a fourth retriever scores patterns' `exception_type`
+ * and `frame` matchers against the parsed trace.
+ */
+
+import { extractKeywords, isMatchable, toMatchSummary, type MatchOptions, type MatchSummary } from './matching.js';
+import { semanticScores, type EmbeddingProvider } from './embeddings.js';
+import { getPatternLayer, patternStatus, type Pattern, type Playbook } from './playbook.js';
+import { rankResults } from './ranking.js';
+import { getMatcherIndex, type ClauseMatch } from './matcher-index.js';
+import { matchScope, type ScopeDimension } from './scope.js';
+import { matchTrace, parseStackTrace, traceText, type TraceMatcher } from './stacktrace.js';
+
+/** Rank offset for reciprocal rank fusion; 60 is the usual choice */
+const RRF_K = 60;
+
+/** Evidence from a regex hit, before its span is taken into account */
+const REGEX_BASE = 0.6;
+
+/** Evidence from a trace matcher hit, before its strength is taken into account */
+const TRACE_BASE = 0.5;
+
+/** Share of the confidence that depends on the retrievers agreeing */
+const AGREEMENT_WEIGHT = 0.25;
+
+/**
+ * `hybrid` uses every retriever; `semantic` only embedding similarity
+ */
+export type RetrievalMode = 'hybrid' | 'semantic';
+
+export interface RetrievalOptions extends MatchOptions {
+  mode?: RetrievalMode;
+  /** Drop results below this confidence (default 0.2 hybrid, 0 semantic) */
+  minConfidence?: number;
+  /** Provider to use instead of the configured one */
+  embeddings?: EmbeddingProvider;
+}
+
+/**
+ * Per-retriever strengths (0-1), null where the retriever did not match
+ */
+export interface RetrievalSignals {
+  /** Share of the message the regex match spans */
+  regex: number | null;
+  /** Keyword overlap (Jaccard) with the title and symptoms */
+  keyword: number | null;
+  /** Embedding (TF-IDF by default) cosine similarity with the whole pattern */
+  semantic: number | null;
+  /** How well the pattern's exception_type and frame matchers fit the stack trace */
+  trace: number | null;
+}
+
+export interface RetrievalResult {
+  pattern: Pattern;
+  /** Fused confidence that the pattern applies (0-1) */
+  confidence: number;
+  /** Confidence as a percentage (0-100) */
+  score: number;
+  /** Score blended with scope and feedback; results are ordered by this */
+  rankScore: number;
+  signals: RetrievalSignals;
+  matchedKeywords: string[];
+  /** Regex clauses that matched (`pattern`, `match.any[0]`, ...) */
+  matchedClauses: string[];
+  matchedScope: ScopeDimension[];
+  /** Trace matchers of the pattern that matched */
+  matchedTrace: TraceMatcher[];
+}
+
+/**
+ * JSON shape of a retrieval result, shared by the CLI and the MCP server
+ */
+export interface RetrievalSummary extends MatchSummary {
+  confidence: number;
+  signals: RetrievalSignals;
+  matchedClauses: string[];
+  matchedTrace: TraceMatcher[];
+}
+
+/**
+ * Share of the query spanned by the longest match of a pattern's regexes
+ */
+function regexCoverage(match: ClauseMatch | null, query: string): number | null {
+  if (!match || query.length === 0) {
+    return null;
+  }
+  return Math.min(1, match.length / query.length);
+}
+
+/**
+ * 1-based rank of each pattern in a retriever's results, best first
+ */
+function ranksOf(strengths: Map<Pattern, number>): Map<Pattern, number> {
+  const ordered = [...strengths.entries()].sort((a, b) => b[1] - a[1]);
+  return new Map(ordered.map(([pattern], i) => [pattern, i + 1]));
+}
+
+/**
+ * Find the patterns that best explain a message
+ */
+export async function retrievePatterns(
+  playbook: Playbook,
+  query: string,
+  limit: number = 10,
+  options: RetrievalOptions = {}
+): Promise<RetrievalResult[]> {
+  const mode = options.mode ?? 'hybrid';
+  const minConfidence = options.minConfidence ?? (mode === 'hybrid' ? 0.2 : 0);
+
+  // Lifecycle, scope and `none` regexes are applied first so skipped
+  // patterns don't take up ranks
+  const index = getMatcherIndex(playbook);
+  const candidates: Array<{ pattern: Pattern; boost: number; matchedScope: ScopeDimension[] }> = [];
+  for (const pattern of playbook.patterns) {
+    if (!isMatchable(pattern, options) || index.excludes(pattern, query)) {
+      continue;
+    }
+    const scope = matchScope(pattern, options.scope ?? {});
+    if (!scope.excluded) {
+      candidates.push({ pattern, boost: scope.boost, matchedScope: scope.matched });
+    }
+  }
+  const patterns = candidates.map(c => c.pattern);
+
+  // A traceback is matched on its exceptions; paths and frames are noise
+  const trace = parseStackTrace(query);
+  const text = trace ? traceText(trace) : query;
+
+  const regex = new Map<Pattern, number>();
+  const keyword = new Map<Pattern, number>();
+  const traceStrengths = new Map<Pattern, number>();
+  const keywords = extractKeywords(text);
+  const matchedKeywords = new Map<Pattern, string[]>();
+  const matchedTrace = new Map<Pattern, TraceMatcher[]>();
+  const matchedClauses = new Map<Pattern, string[]>();
+
+  if (mode === 'hybrid') {
+    // Only regexes the index can't rule out are run
+    const textCandidates = index.regexCandidates(text);
+    const queryCandidates = trace ? index.regexCandidates(query) : new Set<Pattern>();
+    const keywordScores = index.keywordScores(keywords);
+
+    for (const pattern of patterns) {
+      // Regexes written against a whole trace still get a chance; an
+      // invalid regex never matches, and the other retrievers still apply
+      const textMatch = textCandidates.has(pattern) ? index.match(pattern, text) : null;
+      const queryMatch = !textMatch && queryCandidates.has(pattern) ? index.match(pattern, query) : null;
+      const coverage = regexCoverage(textMatch, text) ?? regexCoverage(queryMatch, query);
+      if (coverage !== null) {
+        regex.set(pattern, coverage);
+        matchedClauses.set(pattern, (textMatch ?? queryMatch)!.clauses);
+      }
+
+      const traceMatch = trace ? matchTrace(pattern, trace) : null;
+      if (traceMatch) {
+        traceStrengths.set(pattern, traceMatch.score);
+        matchedTrace.set(pattern, traceMatch.matched);
+      }
+
+      const overlap = (keywordScores.get(pattern) ?? 0) / 100;
+      if (overlap > 0) {
+        const patternKeywords = index.keywords(pattern);
+        keyword.set(pattern, overlap);
+        matchedKeywords.set(pattern, keywords.filter(k => patternKeywords.has(k)));
+      }
+    }
+  }
+  // The index covers the whole playbook so scoped lookups don't churn it.
+  // If it can't be synced or read (say, another process holds it past the
+  // busy timeout), hybrid retrieval goes on without the semantic signal.
+  let semantic = new Map<Pattern, number>();
+  try {
+    semantic = await semanticScores(playbook.patterns, text, options.embeddings);
+  } catch (err) {
+    if (mode === 'semantic') {
+      throw err;
+    }
+  }
+
+  const retrievers = mode === 'hybrid'
+    ? [
+      { strengths: regex, evidence: (coverage: number) => REGEX_BASE + (1 - REGEX_BASE) * coverage },
+      { strengths: keyword, evidence: (overlap: number) => overlap },
+      { strengths: semantic, evidence: (cosine: number) => cosine },
+      ...(trace ? [{ strengths: traceStrengths, evidence: (score: number) => TRACE_BASE + (1 - TRACE_BASE) * score }] : []),
+    ]
+    : [{ strengths: semantic, evidence: (cosine: number) => cosine }];
+  const ranks = retrievers.map(r => ranksOf(r.strengths));
+  const bestFusion = retrievers.length / (RRF_K + 1);
+
+  const results: Array<Omit<RetrievalResult, 'rankScore'> & { boost: number }> = [];
+  for (const { pattern, boost, matchedScope } of candidates) {
+    // Evidence from independent retrievers combines like probabilities
+    let missing = 1;
+    let fusion = 0;
+    retrievers.forEach((retriever, i) => {
+      const strength = retriever.strengths.get(pattern);
+      if (strength !== undefined) {
+        missing *= 1 - retriever.evidence(strength);
+        fusion += 1 / (RRF_K + ranks[i].get(pattern)!);
+      }
+    });
+    if (fusion === 0) {
+      continue;
+    }
+
+    const confidence = (1 - missing) * (1 - AGREEMENT_WEIGHT + AGREEMENT_WEIGHT * (fusion / bestFusion));
+    if (confidence < minConfidence) {
+      continue;
+    }
+
+    results.push({
+      pattern,
+      confidence,
+      score: confidence * 100,
+      signals: {
+        regex: regex.get(pattern) ?? null,
+        keyword: keyword.get(pattern) ?? null,
+        semantic: semantic.get(pattern) ?? null,
+        trace: traceStrengths.get(pattern) ?? null,
+      },
+      matchedKeywords: matchedKeywords.get(pattern) ?? [],
+      matchedClauses: matchedClauses.get(pattern) ?? [],
+      matchedScope,
+      matchedTrace: matchedTrace.get(pattern) ?? [],
+      boost,
+    });
+  }
+
+  return rankResults(results, options)
+    .slice(0, limit)
+    .map(({ boost: _boost, ...result }) => result);
+}
+
+function round(value: number | null, digits: number): number | null {
+  return value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+/**
+ * Convert a retrieval result to its JSON output shape
+ */
+export function toRetrievalSummary(result: RetrievalResult): RetrievalSummary {
+  return {
+    ...toMatchSummary({ ...result, score: Math.round(result.score) }),
+    confidence: round(result.confidence, 3)!,
+    signals: {
+      regex: round(result.signals.regex, 3),
+      keyword: round(result.signals.keyword, 3),
+      semantic: round(result.signals.semantic, 3),
+      trace: round(result.signals.trace, 3),
+    },
+    matchedClauses: result.matchedClauses,
+    matchedTrace: result.matchedTrace,
+  };
+}
+
+/**
+ * Convert a semantic-mode result to the JSON shape of `slsm similar`
+ */
+export function toSimilarSummary(result: RetrievalResult) {
+  const p = result.pattern;
+  return {
+    id: p.id,
+    score: Math.round(result.score),
+    rankScore: Math.round(result.rankScore * 10) / 10,
+    confidence: round(result.confidence, 3),
+    title: p.title,
+    category: p.category,
+    severity: p.severity,
+    symptoms: p.symptoms,
+    root_causes: p.root_causes,
+    fixes: p.fixes,
+    layer: getPatternLayer(p)?.name ?? null,
+    status: patternStatus(p),
+    superseded_by: p.superseded_by ?? null,
+  };
+}
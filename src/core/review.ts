@@ -0,0 +1,191 @@
+/**
+ * Review queue for candidate patterns
+ *
+ * `slsm reflect` proposes candidates here instead of writing them into the
+ * playbook, so half-filled patterns never reach `context` results. A human
+ * then accepts, merges or rejects each one. Rejected fingerprints are kept so
+ * reflect doesn't propose them again.
+ * Format: YAML, ~/.sls-memory/review.yaml
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import YAML from 'yaml';
+import { matchPattern } from './matcher-index.js';
+import { widenMatch, withPlaybookLock, writeFileAtomic, type Pattern } from './playbook.js';
+
+/**
+ * A proposed pattern waiting for review
+ */
+export interface Candidate {
+  id: string;
+  /** The pattern as it would be added; its id is assigned on accept */
+  pattern: Pattern;
+  /** Log template the candidate was mined from */
+  template: string;
+  occurrences: number;
+  /** Distinct example messages, most frequent first */
+  examples: string[];
+  first_seen: string;
+  last_seen: string;
+  proposed_at: string;
+}
+
+export interface RejectedFingerprint {
+  fingerprint: string;
+  rejected_at: string;
+  reason?: string;
+}
+
+export interface ReviewQueue {
+  candidates: Candidate[];
+  rejected: RejectedFingerprint[];
+}
+
+/** A candidate as proposed by reflect, before it has a queue id */
+export type Proposal = Omit<Candidate, 'id' | 'proposed_at'>;
+
+export interface EnqueueResult {
+  /** Candidates added or refreshed by this call */
+  queued: Candidate[];
+  /** Fingerprints skipped because they were rejected before */
+  rejected: string[];
+}
+
+const CANDIDATE_ID = /^cand-(\d+)$/;
+
+/**
+ * Get the review queue path
+ */
+export function getReviewQueuePath(): string {
+  return path.join(os.homedir(), '.sls-memory', 'review.yaml');
+}
+
+/**
+ * Load the review queue; a missing file is an empty queue
+ */
+export function loadReviewQueue(filePath: string = getReviewQueuePath()): ReviewQueue {
+  if (!fs.existsSync(filePath)) {
+    return { candidates: [], rejected: [] };
+  }
+
+  const data = YAML.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<ReviewQueue> | null;
+  return {
+    candidates: data?.candidates ?? [],
+    rejected: data?.rejected ?? [],
+  };
+}
+
+/**
+ * Load the queue, apply `mutate` and save it under the queue's lock. Nothing
+ * is saved if `mutate` throws.
+ */
+export function updateReviewQueue<T>(mutate: (queue: ReviewQueue) => T, filePath: string = getReviewQueuePath()): T {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  return withPlaybookLock(() => {
+    const queue = loadReviewQueue(filePath);
+    const result = mutate(queue);
+    writeFileAtomic(filePath, YAML.stringify(queue));
+    return result;
+  }, filePath);
+}
+
+export function findCandidate(queue: ReviewQueue, id: string): Candidate | undefined {
+  return queue.candidates.find(c => c.id === id);
+}
+
+export function isRejected(queue: ReviewQueue, fingerprint: string): boolean {
+  return queue.rejected.some(r => r.fingerprint === fingerprint);
+}
+
+function nextCandidateId(queue: ReviewQueue): string {
+  let max = 0;
+  for (const candidate of queue.candidates) {
+    const match = CANDIDATE_ID.exec(candidate.id);
+    if (match) {
+      max = Math.max(max, parseInt(match[1], 10));
+    }
+  }
+  return `cand-${String(max + 1).padStart(3, '0')}`;
+}
+
+/**
+ * Add proposals to the queue. A fingerprint already pending is refreshed
+ * with the latest counts and examples (keeping any edits to its pattern);
+ * rejected fingerprints are skipped.
+ */
+export function enqueueCandidates(queue: ReviewQueue, proposals: Proposal[]): EnqueueResult {
+  const result: EnqueueResult = { queued: [], rejected: [] };
+  const now = new Date().toISOString();
+
+  for (const proposal of proposals) {
+    const fingerprint = proposal.pattern.fingerprint;
+    if (isRejected(queue, fingerprint)) {
+      result.rejected.push(fingerprint);
+      continue;
+    }
+
+    const pending = queue.candidates.find(c => c.pattern.fingerprint === fingerprint);
+    if (pending) {
+      pending.occurrences = proposal.occurrences;
+      pending.examples = proposal.examples;
+      pending.last_seen = proposal.last_seen;
+      result.queued.push(pending);
+      continue;
+    }
+
+    const candidate: Candidate = { id: nextCandidateId(queue), ...proposal, proposed_at: now };
+    queue.candidates.push(candidate);
+    result.queued.push(candidate);
+  }
+
+  return result;
+}
+
+/**
+ * Remove a candidate from the queue
+ */
+export function removeCandidate(queue: ReviewQueue, id: string): Candidate | undefined {
+  const index = queue.candidates.findIndex(c => c.id === id);
+  if (index === -1) {
+    return undefined;
+  }
+  return queue.candidates.splice(index, 1)[0];
+}
+
+/**
+ * Remove a candidate and remember its fingerprint as rejected
+ */
+export function rejectCandidate(queue: ReviewQueue, id: string, reason?: string): Candidate | undefined {
+  const candidate = removeCandidate(queue, id);
+  if (candidate && !isRejected(queue, candidate.pattern.fingerprint)) {
+    queue.rejected.push({
+      fingerprint: candidate.pattern.fingerprint,
+      rejected_at: new Date().toISOString(),
+      ...(reason ? { reason } : {}),
+    });
+  }
+  return candidate;
+}
+
+/**
+ * Fold a candidate into an existing pattern: its examples become symptoms,
+ * and the pattern's regexes are widened when they don't match them, so
+ * reflect recognizes the template as known from then on.
+ */
+export function mergeCandidate(candidate: Candidate, target: Pattern): void {
+  for (const example of candidate.examples) {
+    if (!target.symptoms.includes(example)) {
+      target.symptoms.push(example);
+    }
+  }
+
+  if (!candidate.examples.every(example => matchPattern(target, example) !== null)) {
+    widenMatch(target, candidate.pattern);
+  }
+}
@@ -0,0 +1,628 @@
+/**
+ * Bounded regex evaluation
+ *
+ * Playbook regexes come from people, agents (slsm_add_pattern) and reflect,
+ * and are run against raw messages and stack traces. A regex with ambiguous
+ * repetition, such as `(a+)+` or `(\w|\d)*`, backtracks exponentially on a
+ * near-miss and would hang a lookup, and the MCP server with it. So:
+ *
+ * - analyzeRegex finds such constructs, and validation rejects them before
+ *   a pattern is saved;
+ * - every regex sees at most MAX_REGEX_INPUT characters of input;
+ * - every regex the linear-time NFA can run is run on it, not on the
+ *   backtracking engine, since no heuristic catches every ambiguous regex
+ *   (`(a|aa)+$` slips past analyzeRegex). The NFA has no lookarounds,
+ *   backreferences or `u`/`v` flags; regexes that need them run natively on
+ *   a worker thread and give up after NATIVE_TIMEOUT_MS, and unsafe ones
+ *   never match.
+ */
+
+import { Worker } from 'node:worker_threads';
+
+/** Characters of input a playbook regex is run against */
+export const MAX_REGEX_INPUT = 10_000;
+
+/** A native match slower than this is abandoned, and its regex disabled */
+const NATIVE_TIMEOUT_MS = 100;
+
+/** How long to wait for the native matching worker to start */
+const WORKER_START_MS = 5_000;
+
+/** Regexes whose NFA would be larger than this aren't run on it */
+const MAX_NFA_STATES = 20_000;
+
+/** Compiled regexes kept by compileRegex */
+const CACHE_LIMIT = 5_000;
+
+/**
+ * A construct that can make a regex backtrack for a long time. Errors can
+ * take exponential time; warnings polynomial time.
+ */
+export interface RegexRisk {
+  level: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Where a regex matched
+ */
+export interface RegexMatch {
+  index: number;
+  length: number;
+}
+
+/** Parsed regex; `start` and `end` locate each node in the source */
+export type RegexNode =
+  | { type: 'char'; code: number; start: number; end: number }
+  | { type: 'set'; source: string; start: number; end: number }
+  | { type: 'assert'; kind: '^' | '$' | 'b' | 'B'; start: number; end: number }
+  | { type: 'group'; alternatives: RegexNode[][]; start: number; end: number }
+  | { type: 'lookaround' | 'backref'; start: number; end: number }
+  | { type: 'repeat'; node: RegexNode; min: number; max: number; lazy: boolean; start: number; end: number };
+
+/**
+ * Parse the regex syntax playbooks use. Only sources that compile as a
+ * RegExp are parsed, so malformed input needn't be diagnosed.
+ */
+export function parseRegex(source: string): RegexNode[][] {
+  let pos = 0;
+
+  const alternatives = (): RegexNode[][] => {
+    const result: RegexNode[][] = [[]];
+    while (pos < source.length && source[pos] !== ')') {
+      if (source[pos] === '|') {
+        pos++;
+        result.push([]);
+        continue;
+      }
+      result[result.length - 1].push(quantified(atom()));
+    }
+    return result;
+  };
+
+  const group = (start: number, type: 'group' | 'lookaround'): RegexNode => {
+    const inner = alternatives();
+    pos++; // ')'
+    return type === 'group'
+      ? { type, alternatives: inner, start, end: pos }
+      : { type, start, end: pos };
+  };
+
+  const atom = (): RegexNode => {
+    const start = pos;
+    const c = source[pos++];
+    switch (c) {
+      case '^':
+      case '$':
+        return { type: 'assert', kind: c, start, end: pos };
+      case '.':
+        return { type: 'set', source: '.', start, end: pos };
+      case '[':
+        if (source[pos] === '^') {
+          pos++;
+        }
+        while (pos < source.length && source[pos] !== ']') {
+          pos += source[pos] === '\\' ? 2 : 1;
+        }
+        pos++;
+        return { type: 'set', source: source.slice(start, pos), start, end: pos };
+      case '(':
+        if (/^\?(?:=|!|<=|<!)/.test(source.slice(pos, pos + 3))) {
+          pos += source[pos + 1] === '<' ? 3 : 2;
+          return group(start, 'lookaround');
+        }
+        if (source.startsWith('?:', pos)) {
+          pos += 2;
+        } else if (source.startsWith('?<', pos)) {
+          pos = source.indexOf('>', pos) + 1;
+        }
+        return group(start, 'group');
+      case '\\':
+        return escape(start);
+      default:
+        return { type: 'char', code: c.charCodeAt(0), start, end: pos };
+    }
+  };
+
+  const escape = (start: number): RegexNode => {
+    const c = source[pos++];
+    if (c === 'b' || c === 'B') {
+      return { type: 'assert', kind: c, start, end: pos };
+    }
+    if (/[1-9]/.test(c)) {
+      while (/[0-9]/.test(source[pos] ?? '')) {
+        pos++;
+      }
+      return { type: 'backref', start, end: pos };
+    }
+    if (c === 'k' && source[pos] === '<') {
+      pos = source.indexOf('>', pos) + 1;
+      return { type: 'backref', start, end: pos };
+    }
+    const operand = c === 'x' ? 2 : c === 'u' ? (source[pos] === '{' ? source.indexOf('}', pos) + 1 - pos : 4) : c === 'c' ? 1 : 0;
+    pos += operand;
+    return { type: 'set', source: source.slice(start, pos), start, end: pos };
+  };
+
+  const quantified = (node: RegexNode): RegexNode => {
+    let min: number;
+    let max: number;
+    const c = source[pos];
+    const braces = /^\{(\d+)(?:(,)(\d*))?\}/.exec(source.slice(pos));
+    if (c === '*' || c === '+' || c === '?') {
+      [min, max] = c === '*' ? [0, Infinity] : c === '+' ? [1, Infinity] : [0, 1];
+      pos++;
+    } else if (braces) {
+      min = Number(braces[1]);
+      max = braces[2] === undefined ? min : braces[3] === '' ? Infinity : Number(braces[3]);
+      pos += braces[0].length;
+    } else {
+      return node;
+    }
+    const lazy = source[pos] === '?';
+    if (lazy) {
+      pos++;
+    }
+    return { type: 'repeat', node, min, max, lazy, start: node.start, end: pos };
+  };
+
+  return alternatives();
+}
+
+/** Characters tried against each part of a regex to see what it can match */
+const PROBES = [9, 10, 13, ...Array.from({ length: 95 }, (_, i) => 32 + i)];
+
+/**
+ * Probe characters (and, for literals, the literal itself) a node can match
+ * anywhere in its match
+ */
+function charsOf(node: RegexNode): Set<number> {
+  switch (node.type) {
+    case 'char': {
+      const c = String.fromCharCode(node.code);
+      return new Set([node.code, c.toLowerCase().charCodeAt(0), c.toUpperCase().charCodeAt(0)]);
+    }
+    case 'set': {
+      const regex = new RegExp(`^(?:${node.source})$`, 'i');
+      return new Set(PROBES.filter(code => regex.test(String.fromCharCode(code))));
+    }
+    case 'group':
+      return new Set(node.alternatives.flat().flatMap(n => [...charsOf(n)]));
+    case 'repeat':
+      return charsOf(node.node);
+    default:
+      return new Set();
+  }
+}
+
+function overlaps(a: Set<number>, b: Set<number>): boolean {
+  for (const code of a) {
+    if (b.has(code)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Whether a node must consume at least one character */
+function isMandatory(node: RegexNode): boolean {
+  switch (node.type) {
+    case 'char':
+    case 'set':
+      return true;
+    case 'group':
+      return node.alternatives.every(seq => seq.some(isMandatory));
+    case 'repeat':
+      return node.min > 0 && isMandatory(node.node);
+    default:
+      return false;
+  }
+}
+
+/** Whether a node matches strings of more than one length through repetition */
+function isVariableRepeat(node: RegexNode): node is Extract<RegexNode, { type: 'repeat' }> {
+  return node.type === 'repeat' && node.max > 1 && node.min !== node.max;
+}
+
+/** A sequence with single-alternative groups inlined */
+function flatten(seq: RegexNode[]): RegexNode[] {
+  return seq.flatMap(node =>
+    node.type === 'group' && node.alternatives.length === 1 ? flatten(node.alternatives[0]) : [node]
+  );
+}
+
+/**
+ * Find constructs that can make a regex backtrack catastrophically:
+ *
+ * - a repeated group whose body repeats too, with nothing mandatory in the
+ *   body to tell iterations apart, as in `(a+)+` or `(\w+\s?)*`;
+ * - a repeated alternation between single characters or classes that share
+ *   characters, as in `(\w|\d)+` or `(.|\s)*`;
+ * - two unbounded repeats of overlapping characters side by side, as in
+ *   `\d+\d*` (polynomial, so a warning).
+ *
+ * A regex that doesn't compile has no risks; validation reports it.
+ */
+export function analyzeRegex(source: string): RegexRisk[] {
+  try {
+    new RegExp(source);
+  } catch {
+    return [];
+  }
+
+  const risks: RegexRisk[] = [];
+  const text = (node: RegexNode) => source.slice(node.start, node.end);
+
+  const visit = (seq: RegexNode[]) => {
+    seq.forEach((node, i) => {
+      const next = seq[i + 1];
+      if (node.type === 'repeat' && node.max === Infinity && next?.type === 'repeat' && next.max === Infinity
+        && overlaps(charsOf(node), charsOf(next))) {
+        risks.push({
+          level: 'warning',
+          message: `adjacent quantifiers ${text(node)}${text(next)}, which can backtrack polynomially; merge them into one`,
+        });
+      }
+
+      if (node.type === 'repeat') {
+        const repeats = node.max === Infinity || node.max >= 10;
+        if (repeats && node.node.type === 'group') {
+          checkRepeatedGroup(node, node.node);
+        }
+        visit([node.node]);
+      } else if (node.type === 'group') {
+        node.alternatives.forEach(visit);
+      }
+    });
+  };
+
+  const checkRepeatedGroup = (repeat: RegexNode, group: Extract<RegexNode, { type: 'group' }>) => {
+    for (const alternative of group.alternatives) {
+      const body = flatten(alternative);
+      const inner = body.find(node => isVariableRepeat(node)
+        && body.filter(other => other !== node && isMandatory(other)).every(other => overlaps(charsOf(other), charsOf(node))));
+      if (inner) {
+        risks.push({
+          level: 'error',
+          message: `a nested quantifier in ${text(repeat)}, which can backtrack catastrophically; make ${text(inner)} match once per repetition`,
+        });
+        return;
+      }
+    }
+
+    const single = group.alternatives.map(flatten).filter(seq => seq.length === 1);
+    for (let i = 0; i < single.length; i++) {
+      for (let j = i + 1; j < single.length; j++) {
+        if (overlaps(charsOf(single[i][0]), charsOf(single[j][0]))) {
+          risks.push({
+            level: 'error',
+            message: `overlapping alternatives ${text(single[i][0])} and ${text(single[j][0])} in ${text(repeat)}, which can backtrack catastrophically; use a single character class`,
+          });
+          return;
+        }
+      }
+    }
+  };
+
+  visit(parseRegex(source).flat());
+  return risks;
+}
+
+/** A state of the linear-time engine's NFA */
+interface NfaState {
+  id: number;
+  kind: 'consume' | 'split' | 'assert' | 'match';
+  test?: (code: number) => boolean;
+  check?: (text: string, pos: number) => boolean;
+  /** For splits, the preferred branch */
+  out?: NfaState;
+  alt?: NfaState;
+}
+
+/** A compiled NFA and its number of states */
+interface NfaProgram {
+  start: NfaState;
+  size: number;
+}
+
+/** Raised for regexes the linear-time engine can't run */
+class UnsupportedRegex extends Error {}
+
+function isLineBreak(code: number): boolean {
+  return code === 10 || code === 13 || code === 0x2028 || code === 0x2029;
+}
+
+function isWordChar(code: number): boolean {
+  return (code >= 48 && code <= 57) || (code >= 65 && code <= 90) || (code >= 97 && code <= 122) || code === 95;
+}
+
+/**
+ * Thompson NFA for a parsed regex, built back to front from the state each
+ * node continues to. Splits try `out` before `alt`, in the order the
+ * backtracking engine would.
+ */
+function compileNfa(alternatives: RegexNode[][], flags: string): NfaProgram {
+  const ignoreCase = flags.includes('i');
+  const multiline = flags.includes('m');
+  let states = 0;
+  const state = (s: Omit<NfaState, 'id'>): NfaState => {
+    if (states >= MAX_NFA_STATES) {
+      throw new UnsupportedRegex('regex is too large for the linear-time engine');
+    }
+    return { ...s, id: states++ };
+  };
+
+  const sequence = (seq: RegexNode[], next: NfaState): NfaState =>
+    seq.reduceRight((out, node) => compile(node, out), next);
+
+  const choice = (alts: RegexNode[][], next: NfaState): NfaState =>
+    alts.slice(0, -1).reduceRight(
+      (rest, seq) => state({ kind: 'split', out: sequence(seq, next), alt: rest }),
+      sequence(alts[alts.length - 1], next)
+    );
+
+  /** A split entering `body` or skipping to `skip`, preferred per laziness */
+  const branch = (lazy: boolean, body: NfaState | undefined, skip: NfaState): NfaState =>
+    state(lazy ? { kind: 'split', out: skip, alt: body } : { kind: 'split', out: body, alt: skip });
+
+  const compile = (node: RegexNode, next: NfaState): NfaState => {
+    switch (node.type) {
+      case 'char': {
+        const c = String.fromCharCode(node.code);
+        const lower = c.toLowerCase().charCodeAt(0);
+        const upper = c.toUpperCase().charCodeAt(0);
+        const test = ignoreCase ? (code: number) => code === lower || code === upper : (code: number) => code === node.code;
+        return state({ kind: 'consume', test, out: next });
+      }
+      case 'set': {
+        // `s` lets `.` match line breaks; `m` only concerns `^` and `$`
+        const regex = new RegExp(`^(?:${node.source})$`, flags.replace('m', ''));
+        const seen = new Map<number, boolean>();
+        const test = (code: number) => {
+          let result = seen.get(code);
+          if (result === undefined) {
+            result = regex.test(String.fromCharCode(code));
+            seen.set(code, result);
+          }
+          return result;
+        };
+        return state({ kind: 'consume', test, out: next });
+      }
+      case 'assert': {
+        const checks = {
+          '^': (text: string, pos: number) => pos === 0 || (multiline && isLineBreak(text.charCodeAt(pos - 1))),
+          '$': (text: string, pos: number) => pos === text.length || (multiline && isLineBreak(text.charCodeAt(pos))),
+          b: (text: string, pos: number) =>
+            (pos > 0 && isWordChar(text.charCodeAt(pos - 1))) !== (pos < text.length && isWordChar(text.charCodeAt(pos))),
+          B: (text: string, pos: number) => !checks.b(text, pos),
+        };
+        return state({ kind: 'assert', check: checks[node.kind], out: next });
+      }
+      case 'group':
+        return choice(node.alternatives, next);
+      case 'repeat': {
+        let tail = next;
+        if (node.max === Infinity) {
+          const loop = branch(node.lazy, undefined, next);
+          const body = compile(node.node, loop);
+          if (node.lazy) {
+            loop.alt = body;
+          } else {
+            loop.out = body;
+          }
+          tail = loop;
+        } else {
+          for (let i = node.min; i < node.max; i++) {
+            tail = branch(node.lazy, compile(node.node, tail), next);
+          }
+        }
+        for (let i = 0; i < node.min; i++) {
+          tail = compile(node.node, tail);
+        }
+        return tail;
+      }
+      default:
+        throw new UnsupportedRegex(`${node.type === 'backref' ? 'backreferences' : 'lookarounds'} need backtracking`);
+    }
+  };
+
+  const start = choice(alternatives, state({ kind: 'match' }));
+  return { start, size: states };
+}
+
+/**
+ * The match RegExp#exec would find, by simulating the NFA over the input
+ * once (a Pike VM). Threads are kept in the order the backtracking engine
+ * would try them, earlier starts first; when one reaches the match state,
+ * the threads after it are dropped. Each state is held by at most one
+ * thread per position, so the work is proportional to input length times
+ * NFA size.
+ */
+function runNfa(program: NfaProgram, text: string): RegexMatch | null {
+  const added = new Int32Array(program.size).fill(-1);
+  let best: RegexMatch | null = null;
+  let threads: NfaState[] = [];
+  let starts: number[] = [];
+
+  const add = (list: NfaState[], from: number[], initial: NfaState, pos: number, start: number) => {
+    const stack = [initial];
+    while (stack.length > 0) {
+      const s = stack.pop()!;
+      if (added[s.id] === pos) {
+        continue;
+      }
+      added[s.id] = pos;
+      if (s.kind === 'split') {
+        stack.push(s.alt!, s.out!);
+      } else if (s.kind === 'assert') {
+        if (s.check!(text, pos)) {
+          stack.push(s.out!);
+        }
+      } else {
+        list.push(s);
+        from.push(start);
+      }
+    }
+  };
+
+  for (let pos = 0; pos <= text.length; pos++) {
+    if (best === null) {
+      add(threads, starts, program.start, pos, pos);
+    }
+    const next: NfaState[] = [];
+    const nextStarts: number[] = [];
+    for (let i = 0; i < threads.length; i++) {
+      const s = threads[i];
+      if (s.kind === 'match') {
+        best = { index: starts[i], length: pos - starts[i] };
+        break;
+      }
+      if (pos < text.length && s.test!(text.charCodeAt(pos))) {
+        add(next, nextStarts, s.out!, pos + 1, starts[i]);
+      }
+    }
+    if (next.length === 0 && best !== null) {
+      break;
+    }
+    threads = next;
+    starts = nextStarts;
+  }
+  return best;
+}
+
+/** Source of the worker that runs regexes the NFA can't */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('node:worker_threads');
+const regexes = new Map();
+parentPort.on('message', ({ source, flags, text, buffer }) => {
+  const state = new Int32Array(buffer);
+  const key = flags + '/' + source;
+  let regex = regexes.get(key);
+  if (!regex) {
+    regex = new RegExp(source, flags);
+    regexes.set(key, regex);
+  }
+  regex.lastIndex = 0;
+  const match = regex.exec(text);
+  state[1] = match ? match.index : -1;
+  state[2] = match ? match[0].length : 0;
+  Atomics.store(state, 0, 1);
+  Atomics.notify(state, 0);
+});
+const ready = new Int32Array(workerData);
+Atomics.store(ready, 0, 1);
+Atomics.notify(ready, 0);
+`;
+
+let worker: Worker | null = null;
+
+/**
+ * Run a regex natively on the worker thread, blocking until it answers.
+ * Returns undefined when it doesn't answer in NATIVE_TIMEOUT_MS; the
+ * worker is then terminated, and the next call starts another.
+ */
+function execOnWorker(source: string, flags: string, text: string): RegexMatch | null | undefined {
+  if (worker === null) {
+    const ready = new Int32Array(new SharedArrayBuffer(4));
+    worker = new Worker(WORKER_SOURCE, { eval: true, workerData: ready.buffer });
+    worker.unref();
+    Atomics.wait(ready, 0, 0, WORKER_START_MS);
+  }
+
+  const state = new Int32Array(new SharedArrayBuffer(12));
+  worker.postMessage({ source, flags, text, buffer: state.buffer });
+  if (Atomics.wait(state, 0, 0, NATIVE_TIMEOUT_MS) === 'timed-out') {
+    void worker.terminate();
+    worker = null;
+    return undefined;
+  }
+  return state[1] < 0 ? null : { index: state[1], length: state[2] };
+}
+
+/**
+ * A playbook regex with bounded evaluation: input is capped, and the regex
+ * runs on the linear-time engine, or natively with a timeout when it needs
+ * features the engine lacks
+ */
+export class SafeRegex {
+  readonly risks: RegexRisk[];
+  /** Set once a native match times out; the regex then never matches */
+  private disabled = false;
+  /** Compiled on first use; null when the engine can't run this regex */
+  private nfa: NfaProgram | null | undefined;
+
+  /**
+   * Throws a SyntaxError for invalid regexes, like RegExp
+   */
+  constructor(readonly source: string, readonly flags: string = '') {
+    new RegExp(source, flags);
+    this.risks = analyzeRegex(source);
+  }
+
+  /** Whether matches go through the linear-time engine */
+  get usesLinearEngine(): boolean {
+    return this.program() !== null;
+  }
+
+  test(text: string): boolean {
+    return this.exec(text) !== null;
+  }
+
+  exec(text: string): RegexMatch | null {
+    const input = text.length > MAX_REGEX_INPUT ? text.slice(0, MAX_REGEX_INPUT) : text;
+    const nfa = this.program();
+    if (nfa) {
+      return runNfa(nfa, input);
+    }
+    if (this.disabled || this.risks.some(r => r.level === 'error')) {
+      return null;
+    }
+
+    const match = execOnWorker(this.source, this.flags, input);
+    if (match === undefined) {
+      this.disabled = true;
+      return null;
+    }
+    return match;
+  }
+
+  private program(): NfaProgram | null {
+    if (this.nfa === undefined) {
+      try {
+        if (/[^ims]/.test(this.flags)) {
+          throw new UnsupportedRegex(`flags ${this.flags} are not supported`);
+        }
+        this.nfa = compileNfa(parseRegex(this.source), this.flags);
+      } catch (err) {
+        if (!(err instanceof UnsupportedRegex)) {
+          throw err;
+        }
+        this.nfa = null;
+      }
+    }
+    return this.nfa;
+  }
+}
+
+const compiled = new Map<string, SafeRegex | null>();
+
+/**
+ * The SafeRegex for a source, compiled once per process; null when the
+ * source isn't a valid regex
+ */
+export function compileRegex(source: string, flags: string = ''): SafeRegex | null {
+  const key = `${flags}/${source}`;
+  let regex = compiled.get(key);
+  if (regex === undefined) {
+    try {
+      regex = new SafeRegex(source, flags);
+    } catch {
+      regex = null;
+    }
+    if (compiled.size >= CACHE_LIMIT) {
+      compiled.clear();
+    }
+    compiled.set(key, regex);
+  }
+  return regex;
+}
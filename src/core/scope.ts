@@ -0,0 +1,136 @@
+/**
+ * Service/workspace/host scoping for patterns
+ *
+ * Patterns may declare where they apply. A scoped pattern is only returned
+ * for queries from a matching service, workspace or host, and is boosted
+ * there; patterns without scope fields apply everywhere.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import type { Pattern } from './playbook.js';
+
+/** Rank multiplier for each scope dimension a pattern matches */
+const SCOPE_BOOST = 1.25;
+
+/**
+ * Where a query comes from
+ */
+export interface QueryScope {
+  /** Service name (e.g. "api", "postgres") */
+  service?: string;
+  /** Absolute path of the workspace the error came from */
+  workspace?: string;
+  /** Hostname the error came from */
+  host?: string;
+  /**
+   * Dimensions to treat as unknown rather than unspecified when unset:
+   * patterns scoped to them are excluded instead of let through
+   */
+  excludeUnset?: ScopeDimension[];
+}
+
+export type ScopeDimension = 'service' | 'workspace' | 'host';
+
+export interface ScopeMatch {
+  /** The pattern is scoped elsewhere and must not be returned */
+  excluded: boolean;
+  /** Rank multiplier (1 when no scope matched) */
+  boost: number;
+  /** Dimensions the pattern is scoped to that matched the query */
+  matched: ScopeDimension[];
+}
+
+/**
+ * Convert a glob (`*`, `**`, `?`, leading `~`) to an anchored RegExp
+ */
+export function globToRegExp(glob: string): RegExp {
+  const expanded = glob.startsWith('~') ? path.join(os.homedir(), glob.slice(1)) : glob;
+  let source = '';
+
+  for (let i = 0; i < expanded.length; i++) {
+    const ch = expanded[i];
+    if (ch === '*' && expanded[i + 1] === '*') {
+      i++;
+      // `**/` matches whole directories, or none
+      if (expanded[i + 1] === '/') {
+        source += '(?:.*/)?';
+        i++;
+      } else {
+        source += '.*';
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function matchesName(globs: string[], value: string): boolean {
+  const lower = value.toLowerCase();
+  return globs.some(glob => globToRegExp(glob.toLowerCase()).test(lower));
+}
+
+/**
+ * A workspace matches a glob if the path itself or any of its parent
+ * directories does, so `~/code/api` covers `~/code/api/src`.
+ */
+function matchesWorkspace(globs: string[], workspace: string): boolean {
+  const regexes = globs.map(glob => globToRegExp(glob.replace(/\/+$/, '')));
+  let current = path.resolve(workspace);
+
+  for (;;) {
+    if (regexes.some(re => re.test(current))) {
+      return true;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return false;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Whether a pattern declares any scope
+ */
+export function isScoped(pattern: Pattern): boolean {
+  return Boolean(pattern.services?.length || pattern.workspaces?.length || pattern.hosts?.length);
+}
+
+/**
+ * Compare a pattern's scope with the query's. Dimensions the pattern doesn't
+ * scope, or the query doesn't specify, neither exclude nor boost, unless
+ * the query lists them in `excludeUnset`.
+ */
+export function matchScope(pattern: Pattern, scope: QueryScope): ScopeMatch {
+  const checks: Array<[ScopeDimension, string[] | undefined, string | undefined, (globs: string[], v: string) => boolean]> = [
+    ['service', pattern.services, scope.service, matchesName],
+    ['workspace', pattern.workspaces, scope.workspace, matchesWorkspace],
+    ['host', pattern.hosts, scope.host, matchesName],
+  ];
+
+  const matched: ScopeDimension[] = [];
+  for (const [dimension, globs, value, matches] of checks) {
+    if (!globs || globs.length === 0) {
+      continue;
+    }
+    if (!value) {
+      if (scope.excludeUnset?.includes(dimension)) {
+        return { excluded: true, boost: 0, matched: [] };
+      }
+      continue;
+    }
+    if (!matches(globs, value)) {
+      return { excluded: true, boost: 0, matched: [] };
+    }
+    matched.push(dimension);
+  }
+
+  return { excluded: false, boost: Math.pow(SCOPE_BOOST, matched.length), matched };
+}
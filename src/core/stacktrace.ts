@@ -0,0 +1,530 @@
+/**
+ * Stack trace parsing
+ *
+ * Recognizes tracebacks from Node/V8, Python, the JVM, Go panics and Rust
+ * panics, and pulls out what identifies the error: the exception type and
+ * message, the frames in the user's own code and the chain of causes. The
+ * rest of a trace - library frames, paths, addresses - is noise for
+ * matching.
+ */
+
+import type { Pattern } from './playbook.js';
+import { compileRegex } from './safe-regex.js';
+
+/** In-project frames a pattern's `frame` matcher is tried against */
+const MATCHED_FRAMES = 3;
+
+/** Score of an `exception_type` that only matches a cause, not the error itself */
+const CAUSE_MATCH = 0.7;
+
+export type TraceRuntime = 'node' | 'python' | 'jvm' | 'go' | 'rust';
+
+export interface StackFrame {
+  /** Function or method name, when the trace gives one */
+  function: string | null;
+  file: string | null;
+  line: number | null;
+  /** False for runtime, standard library and dependency frames */
+  inProject: boolean;
+}
+
+export interface TraceError {
+  /** e.g. `TypeError`, `java.lang.IllegalStateException`, `runtime error` */
+  type: string | null;
+  message: string;
+}
+
+export interface ParsedTrace extends TraceError {
+  runtime: TraceRuntime;
+  /** Frames of the error itself, innermost first */
+  frames: StackFrame[];
+  /** Errors that led to this one, the direct cause first */
+  causes: TraceError[];
+}
+
+/**
+ * JSON shape of a parsed trace, shared by the CLI and the MCP server
+ */
+export interface TraceSummary {
+  runtime: TraceRuntime;
+  type: string | null;
+  message: string;
+  /** Top in-project frames as `function (file:line)` */
+  frames: string[];
+  causes: TraceError[];
+}
+
+export type TraceMatcher = 'exception_type' | 'frame';
+
+export interface TraceMatch {
+  /** Average over the pattern's trace matchers (0-1) */
+  score: number;
+  matched: TraceMatcher[];
+}
+
+function lines(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+// --- Node/V8 ---
+
+const NODE_FRAME = /^\s+at (?:async )?(.+)$/;
+const NODE_HEADER = /^(?:Uncaught )?([A-Za-z_$][\w$.]*)(?: \[[\w-]+\])?: (.*)$/;
+const NODE_BARE_HEADER = /^(?:Uncaught )?([A-Za-z_$][\w$.]*(?:Error|Exception))$/;
+const NODE_CAUSE = /^\s*\[cause\]: (.*)$/;
+
+function parseNodeFrame(text: string): StackFrame {
+  let fn: string | null = null;
+  let location = text.trim();
+
+  const call = /^(.*?) \((.*)\)$/.exec(location);
+  if (call) {
+    fn = call[1];
+    location = call[2];
+  }
+
+  const position = /^(.*):(\d+):\d+$/.exec(location);
+  const file = position ? position[1] : location;
+  const internal = !position
+    || /^(?:node:|internal\/)/.test(file)
+    || file.includes('/node_modules/')
+    || file === '<anonymous>';
+
+  return {
+    function: fn,
+    file,
+    line: position ? Number(position[2]) : null,
+    inProject: !internal,
+  };
+}
+
+function parseNodeHeader(text: string): TraceError | null {
+  const header = NODE_HEADER.exec(text.trim());
+  if (header) {
+    return { type: header[1], message: header[2].trim() };
+  }
+  const bare = NODE_BARE_HEADER.exec(text.trim());
+  return bare ? { type: bare[1], message: '' } : null;
+}
+
+function parseNode(text: string): ParsedTrace | null {
+  const all = lines(text);
+  const first = all.findIndex(line => NODE_FRAME.test(line) && !isJvmFrame(line));
+  if (first === -1) {
+    return null;
+  }
+
+  // The header is the nearest "Type: message" line above the frames; lines
+  // between it and the frames continue the message
+  let headerIndex = -1;
+  let error: TraceError | null = null;
+  for (let i = first - 1; i >= 0 && !error; i--) {
+    error = parseNodeHeader(all[i]);
+    headerIndex = i;
+  }
+  if (!error) {
+    return null;
+  }
+  const continuation = all.slice(headerIndex + 1, first).map(line => line.trim()).filter(Boolean);
+  if (continuation.length > 0) {
+    error.message = [error.message, ...continuation].filter(Boolean).join(' ');
+  }
+
+  const frames: StackFrame[] = [];
+  const causes: TraceError[] = [];
+  let inCause = false;
+  for (const line of all.slice(first)) {
+    const cause = NODE_CAUSE.exec(line);
+    if (cause) {
+      const parsed = parseNodeHeader(cause[1]);
+      if (parsed) {
+        causes.push(parsed);
+      }
+      inCause = true;
+      continue;
+    }
+    const frame = NODE_FRAME.exec(line);
+    if (frame && !inCause) {
+      frames.push(parseNodeFrame(frame[1]));
+    }
+  }
+
+  return { runtime: 'node', ...error, frames, causes };
+}
+
+// --- Python ---
+
+const PYTHON_TRACEBACK = /^Traceback \(most recent call last\):\s*$/;
+const PYTHON_FRAME = /^\s+File "(.+)", line (\d+)(?:, in (.+))?$/;
+const PYTHON_EXCEPTION = /^([A-Za-z_][\w.]*)(?:: (.*))?$/;
+
+function isPythonLibrary(file: string): boolean {
+  return /[/\\](?:site|dist)-packages[/\\]/.test(file)
+    || /[/\\]lib[/\\]python\d+(?:\.\d+)?[/\\]/.test(file)
+    || file.startsWith('<frozen');
+}
+
+function parsePython(text: string): ParsedTrace | null {
+  const all = lines(text);
+  if (!all.some(line => PYTHON_TRACEBACK.test(line))) {
+    return null;
+  }
+
+  // Chained exceptions print one traceback each, the last being the one raised
+  const blocks: Array<TraceError & { frames: StackFrame[] }> = [];
+  let current: (TraceError & { frames: StackFrame[] }) | null = null;
+  let collecting = false;
+
+  for (const line of all) {
+    if (PYTHON_TRACEBACK.test(line)) {
+      current = { type: null, message: '', frames: [] };
+      blocks.push(current);
+      collecting = false;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    const frame = PYTHON_FRAME.exec(line);
+    if (frame) {
+      current.frames.unshift({
+        function: frame[3] ?? null,
+        file: frame[1],
+        line: Number(frame[2]),
+        inProject: !isPythonLibrary(frame[1]),
+      });
+      continue;
+    }
+
+    if (current.type === null && current.frames.length > 0 && !/^\s/.test(line)) {
+      const exception = PYTHON_EXCEPTION.exec(line.trim());
+      if (exception) {
+        current.type = exception[1];
+        current.message = (exception[2] ?? '').trim();
+        collecting = true;
+      }
+      continue;
+    }
+
+    // Multi-line messages run until a blank line or the chaining notice
+    if (collecting) {
+      if (line.trim() === '' || /^(?:The above exception|During handling)/.test(line)) {
+        collecting = false;
+      } else {
+        current.message = [current.message, line.trim()].filter(Boolean).join(' ');
+      }
+    }
+  }
+
+  const raised = blocks.filter(block => block.type !== null);
+  const last = raised.pop();
+  if (!last) {
+    return null;
+  }
+
+  return {
+    runtime: 'python',
+    type: last.type,
+    message: last.message,
+    frames: last.frames,
+    causes: raised.reverse().map(({ type, message }) => ({ type, message })),
+  };
+}
+
+// --- JVM ---
+
+const JVM_FRAME = /^\s+at ([\w$.<>/-]+)\(([^()]*)\)\s*$/;
+const JVM_HEADER = /^(?:Exception in thread "[^"]*" )?([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)+)(?:: (.*))?$/;
+const JVM_CAUSED_BY = /^\s*Caused by: (.*)$/;
+const JVM_LIBRARY = /^(?:java|javax|jdk|sun|com\.sun|kotlin|kotlinx|scala|groovy|org\.junit|junit)\./;
+
+function isJvmFrame(line: string): boolean {
+  const frame = JVM_FRAME.exec(line);
+  return !!frame && /^(?:[\w$-]+\.(?:java|kt|scala|groovy|clj):\d+|Native Method|Unknown Source)$/.test(frame[2]);
+}
+
+function parseJvmFrame(line: string): StackFrame {
+  const [, qualified, location] = JVM_FRAME.exec(line)!;
+  // Java 9+ prefixes frames with the module, e.g. java.base/java.lang.Thread.run
+  const fn = qualified.includes('/') ? qualified.slice(qualified.lastIndexOf('/') + 1) : qualified;
+  const position = /^(.+):(\d+)$/.exec(location);
+
+  return {
+    function: fn,
+    file: position ? position[1] : null,
+    line: position ? Number(position[2]) : null,
+    inProject: !JVM_LIBRARY.test(fn) && location !== 'Native Method',
+  };
+}
+
+function parseJvmHeader(text: string): TraceError | null {
+  const header = JVM_HEADER.exec(text.trim());
+  return header ? { type: header[1], message: (header[2] ?? '').trim() } : null;
+}
+
+function parseJvm(text: string): ParsedTrace | null {
+  const all = lines(text);
+  const first = all.findIndex(isJvmFrame);
+  if (first === -1) {
+    return null;
+  }
+
+  let error: TraceError | null = null;
+  for (let i = first - 1; i >= 0 && !error; i--) {
+    error = parseJvmHeader(all[i]);
+  }
+  if (!error) {
+    return null;
+  }
+
+  const frames: StackFrame[] = [];
+  const causes: TraceError[] = [];
+  // Frames after the first "Caused by:" or "Suppressed:" belong to other errors
+  let own = true;
+  for (const line of all.slice(first)) {
+    const cause = JVM_CAUSED_BY.exec(line);
+    if (cause) {
+      const parsed = parseJvmHeader(cause[1]);
+      if (parsed) {
+        causes.push(parsed);
+      }
+      own = false;
+    } else if (/^\s*Suppressed: /.test(line)) {
+      own = false;
+    } else if (own && isJvmFrame(line)) {
+      frames.push(parseJvmFrame(line));
+    }
+  }
+
+  return { runtime: 'jvm', ...error, frames, causes };
+}
+
+// --- Go ---
+
+const GO_PANIC = /^(\s*)(panic|fatal error): (.*?)(?: \[recovered\])?$/;
+const GO_GOROUTINE = /^goroutine \d+ \[.*\]:$/;
+const GO_CALL = /^(\S.*)\(.*\)$/;
+const GO_LOCATION = /^\t(.+):(\d+)(?: \+0x[0-9a-f]+)?$/;
+
+function goError(kind: string, value: string): TraceError {
+  const runtimeError = /^runtime error: (.*)$/.exec(value);
+  if (runtimeError) {
+    return { type: 'runtime error', message: runtimeError[1] };
+  }
+  return { type: kind, message: value };
+}
+
+function parseGo(text: string): ParsedTrace | null {
+  const all = lines(text);
+  const goroutine = all.findIndex(line => GO_GOROUTINE.test(line));
+  if (goroutine === -1) {
+    return null;
+  }
+
+  // A panic raised while recovering from another is printed below it
+  const panics = all.slice(0, goroutine)
+    .map(line => GO_PANIC.exec(line))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => goError(match[2], match[3]));
+  const error = panics.pop();
+  if (!error) {
+    return null;
+  }
+
+  // Only the panicking goroutine's frames; others follow after a blank line
+  const frames: StackFrame[] = [];
+  for (let i = goroutine + 1; i + 1 < all.length && all[i].trim() !== ''; i++) {
+    const call = GO_CALL.exec(all[i]);
+    const location = GO_LOCATION.exec(all[i + 1]);
+    if (!call || !location || all[i].startsWith('created by ')) {
+      continue;
+    }
+    const fn = call[1];
+    const file = location[1];
+    frames.push({
+      function: fn,
+      file,
+      line: Number(location[2]),
+      inProject: !/^(?:runtime|testing|reflect|sync)\./.test(fn)
+        && !/\/(?:pkg\/mod|vendor)\//.test(file)
+        && !/\/go(?:-[\d.]+)?\/src\//.test(file),
+    });
+    i++;
+  }
+
+  return { runtime: 'go', ...error, frames, causes: panics.reverse() };
+}
+
+// --- Rust ---
+
+const RUST_PANIC = /^thread '[^']*' panicked at (.+):(\d+):\d+:$/;
+const RUST_PANIC_OLD = /^thread '[^']*' panicked at '(.*)', (.+):(\d+):\d+$/;
+const RUST_BACKTRACE_FRAME = /^\s*\d+: (?:0x[0-9a-f]+ - )?(.+)$/;
+const RUST_BACKTRACE_LOCATION = /^\s+at (.+):(\d+):\d+$/;
+
+function isRustLibrary(fn: string | null, file: string | null): boolean {
+  return (fn !== null && /^(?:std|core|alloc|rust_begin_unwind|__rust)/.test(fn))
+    || (file !== null && (file.startsWith('/rustc/') || /[/\\]\.cargo[/\\]registry[/\\]/.test(file) || file.includes('/rustlib/')));
+}
+
+function parseRust(text: string): ParsedTrace | null {
+  const all = lines(text);
+  let message = '';
+  let location: { file: string; line: number } | null = null;
+
+  for (let i = 0; i < all.length && !location; i++) {
+    const current = RUST_PANIC.exec(all[i].trim());
+    if (current) {
+      location = { file: current[1], line: Number(current[2]) };
+      // The message runs until the "note:" hint or the backtrace
+      const rest: string[] = [];
+      for (let j = i + 1; j < all.length; j++) {
+        if (/^(?:note:|stack backtrace:)/.test(all[j]) || all[j].trim() === '') {
+          break;
+        }
+        rest.push(all[j].trim());
+      }
+      message = rest.join(' ');
+      continue;
+    }
+    const old = RUST_PANIC_OLD.exec(all[i].trim());
+    if (old) {
+      message = old[1];
+      location = { file: old[2], line: Number(old[3]) };
+    }
+  }
+  if (!location) {
+    return null;
+  }
+
+  const frames: StackFrame[] = [{
+    function: null,
+    ...location,
+    inProject: !isRustLibrary(null, location.file),
+  }];
+
+  const backtrace = all.findIndex(line => /^stack backtrace:/.test(line));
+  if (backtrace !== -1) {
+    for (let i = backtrace + 1; i < all.length; i++) {
+      const frame = RUST_BACKTRACE_FRAME.exec(all[i]);
+      if (!frame) {
+        continue;
+      }
+      const at = i + 1 < all.length ? RUST_BACKTRACE_LOCATION.exec(all[i + 1]) : null;
+      const file = at ? at[1] : null;
+      frames.push({
+        function: frame[1].trim(),
+        file,
+        line: at ? Number(at[2]) : null,
+        inProject: !isRustLibrary(frame[1].trim(), file),
+      });
+      if (at) {
+        i++;
+      }
+    }
+  }
+
+  return { runtime: 'rust', type: 'panic', message, frames, causes: [] };
+}
+
+/**
+ * Parse a stack trace out of an error message, or return null when the
+ * message doesn't contain one
+ */
+export function parseStackTrace(text: string): ParsedTrace | null {
+  // Order matters: Rust backtraces and JVM frames also start with "at"
+  for (const parse of [parseRust, parsePython, parseGo, parseJvm, parseNode]) {
+    const trace = parse(text);
+    if (trace) {
+      return trace;
+    }
+  }
+  return null;
+}
+
+/**
+ * The trace's frames in the user's own code, innermost first
+ */
+export function projectFrames(trace: ParsedTrace, limit: number = MATCHED_FRAMES): StackFrame[] {
+  return trace.frames.filter(frame => frame.inProject).slice(0, limit);
+}
+
+/**
+ * A frame as `function (file:line)`, the text `frame` matchers run against
+ */
+export function formatFrame(frame: StackFrame): string {
+  const location = frame.file ? `${frame.file}${frame.line !== null ? `:${frame.line}` : ''}` : '';
+  if (frame.function && location) {
+    return `${frame.function} (${location})`;
+  }
+  return frame.function ?? location;
+}
+
+/**
+ * The parts of a trace worth matching on: each error's type and message,
+ * without frames
+ */
+export function traceText(trace: ParsedTrace): string {
+  return [trace, ...trace.causes]
+    .map(error => [error.type, error.message].filter(Boolean).join(': '))
+    .join('\n');
+}
+
+/**
+ * Convert a parsed trace to its JSON output shape
+ */
+export function toTraceSummary(trace: ParsedTrace): TraceSummary {
+  return {
+    runtime: trace.runtime,
+    type: trace.type,
+    message: trace.message,
+    frames: projectFrames(trace).map(formatFrame),
+    causes: trace.causes,
+  };
+}
+
+function typeMatches(expected: string, actual: string | null): boolean {
+  // `NullPointerException` matches `java.lang.NullPointerException`
+  return actual !== null && (actual === expected || actual.endsWith(`.${expected}`));
+}
+
+/**
+ * Score a pattern's `exception_type` and `frame` matchers against a trace.
+ * Returns null when the pattern has neither or none of them match.
+ */
+export function matchTrace(pattern: Pattern, trace: ParsedTrace): TraceMatch | null {
+  const scores: number[] = [];
+  const matched: TraceMatcher[] = [];
+
+  if (pattern.exception_type) {
+    const expected = pattern.exception_type;
+    const score = typeMatches(expected, trace.type)
+      ? 1
+      : trace.causes.some(cause => typeMatches(expected, cause.type)) ? CAUSE_MATCH : 0;
+    scores.push(score);
+    if (score > 0) {
+      matched.push('exception_type');
+    }
+  }
+
+  if (pattern.frame) {
+    let score = 0;
+    // An invalid regex never matches
+    const regex = compileRegex(pattern.frame, 'i');
+    if (regex) {
+      // The innermost project frame counts most
+      const index = projectFrames(trace).findIndex(frame => regex.test(formatFrame(frame)));
+      score = index === -1 ? 0 : 1 - index / MATCHED_FRAMES;
+    }
+    scores.push(score);
+    if (score > 0) {
+      matched.push('frame');
+    }
+  }
+
+  if (matched.length === 0) {
+    return null;
+  }
+  return { score: scores.reduce((sum, s) => sum + s, 0) / scores.length, matched };
+}
@@ -0,0 +1,182 @@
+/**
+ * Regex synthesis from example messages
+ *
+ * Examples are masked and tokenized the way log templates are, then aligned:
+ * tokens every example shares stay literal, single tokens that vary become
+ * placeholders, and runs only some examples have become optional gaps. The
+ * regex is anchored at both ends. When it would also match a negative example,
+ * wildcards are narrowed to the values the examples had, and failing that the
+ * positives are listed as an alternation.
+ */
+
+import { WILDCARD, stripPlaceholders, templateToRegex, tokenizeMessage } from './templates.js';
+
+/** Tokens kept before the rest of a long message is left open */
+const MAX_TOKENS = 16;
+
+/** A template token; wildcards keep the (masked) values the examples had */
+type Segment = { token: string; values?: string[] } | { gap: true };
+
+function isGap(segment: Segment): segment is { gap: true } {
+  return 'gap' in segment;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Longest common subsequence of two token lists
+ */
+function lcs(a: string[], b: string[]): string[] {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.push(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
+
+/**
+ * Align examples of one length position by position
+ */
+function alignPositions(sequences: string[][]): Segment[] {
+  return sequences[0].map((token, i) => {
+    const values = [...new Set(sequences.map(sequence => sequence[i]))];
+    return values.length === 1 ? { token } : { token: WILDCARD, values };
+  });
+}
+
+/**
+ * Align examples of different lengths on their common tokens
+ */
+function alignCommon(sequences: string[][]): Segment[] {
+  const common = sequences.slice(1).reduce(lcs, sequences[0]);
+
+  // Where each common token sits in each example
+  const positions = sequences.map(sequence => {
+    const found: number[] = [];
+    let j = 0;
+    for (const token of common) {
+      while (sequence[j] !== token) {
+        j++;
+      }
+      found.push(j++);
+    }
+    return found;
+  });
+
+  const segments: Segment[] = [];
+  for (let k = 0; k <= common.length; k++) {
+    const widths = sequences.map((sequence, n) => {
+      const start = k === 0 ? 0 : positions[n][k - 1] + 1;
+      const end = k === common.length ? sequence.length : positions[n][k];
+      return end - start;
+    });
+    if (widths.every(width => width === 1)) {
+      const values = sequences.map((sequence, n) => sequence[k === 0 ? 0 : positions[n][k - 1] + 1]);
+      segments.push({ token: WILDCARD, values: [...new Set(values)] });
+    } else if (widths.some(width => width > 0)) {
+      segments.push({ gap: true });
+    }
+    if (k < common.length) {
+      segments.push({ token: common[k] });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Regex for aligned segments; `exact` lists the values seen at wildcards
+ * instead of accepting any token
+ */
+function render(segments: Segment[], exact: boolean = false): string {
+  let source = '';
+  let afterToken = false;
+  for (const segment of segments) {
+    if (isGap(segment)) {
+      source += afterToken ? '(?:\\s.*)?' : '(?:.*\\s)?';
+    } else {
+      const token = exact && segment.values
+        ? `(?:${segment.values.map(templateToRegex).join('|')})`
+        : templateToRegex(segment.token);
+      source += (afterToken ? '\\s+' : '') + token;
+      afterToken = true;
+    }
+  }
+  return `^${source}$`;
+}
+
+function alternation(positives: string[]): string {
+  const distinct = [...new Set(positives)];
+  return `^(?:${distinct.map(escapeRegex).join('|')})$`;
+}
+
+/**
+ * Whether a candidate matches every positive and no negative, the way the
+ * matcher compiles it
+ */
+function separates(source: string, positives: string[], negatives: string[]): boolean {
+  const regex = new RegExp(source, 'i');
+  return positives.every(message => regex.test(message)) && !negatives.some(message => regex.test(message));
+}
+
+/**
+ * Build an anchored regex matching every positive example and none of the
+ * negatives. Variable parts (IPs, numbers, ids, words that differ between
+ * examples) are generalized; everything the examples share stays literal.
+ */
+export function synthesizeRegex(positives: string[], negatives: string[] = []): string {
+  const examples = positives.map(p => p.trim()).filter(Boolean);
+  if (examples.length === 0) {
+    throw new Error('At least one example message is needed to synthesize a regex');
+  }
+  const lowered = new Set(examples.map(example => example.toLowerCase()));
+  const conflict = negatives.find(negative => lowered.has(negative.trim().toLowerCase()));
+  if (conflict !== undefined) {
+    throw new Error(`"${conflict}" is both a positive and a negative example`);
+  }
+
+  const sequences = examples.map(tokenizeMessage);
+  const segments = sequences.every(sequence => sequence.length === sequences[0].length)
+    ? alignPositions(sequences)
+    : alignCommon(sequences);
+
+  // Without any shared constant text the examples have nothing to generalize
+  const constant = segments.some(segment => !isGap(segment) && /\w/.test(stripPlaceholders(segment.token)));
+  if (!constant) {
+    return alternation(examples);
+  }
+
+  // Most general first: open-ended, then every wildcard, then the values seen
+  const candidates = [render(segments), render(segments, true)];
+  if (segments.length > MAX_TOKENS) {
+    const head = segments.slice(0, MAX_TOKENS);
+    candidates.unshift(render(isGap(head[head.length - 1]) ? head : [...head, { gap: true }]));
+  }
+
+  for (const candidate of candidates) {
+    if (separates(candidate, examples, negatives)) {
+      return candidate;
+    }
+  }
+  return alternation(examples);
+}
@@ -0,0 +1,210 @@
+/**
+ * Log template mining
+ *
+ * A Drain-style miner: obvious variables (IPs, ports, UUIDs, hex ids,
+ * numbers, paths, quoted values) are masked first, then messages are
+ * clustered through a fixed-depth prefix tree keyed by token count and
+ * leading tokens. Within a cluster, positions where messages disagree become
+ * `<*>`, so the template converges on the constant text, e.g.
+ * `connect ECONNREFUSED <ip>:<port>` or `permission denied for user <*>`.
+ */
+
+/** Marks a token that varies between messages of one template */
+export const WILDCARD = '<*>';
+
+export interface TemplateMinerOptions {
+  /** Tree depth including the length layer and leaves (default 4) */
+  depth?: number;
+  /** Share of matching tokens needed to join a cluster (default 0.6) */
+  similarity?: number;
+  /** Children per tree node before new tokens share a wildcard branch (default 100) */
+  maxChildren?: number;
+}
+
+export interface LogCluster {
+  id: number;
+  /** Template tokens; variable positions are `<*>` or a typed placeholder */
+  tokens: string[];
+  /** Messages (weighted by their counts) that joined the cluster */
+  count: number;
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  clusters: LogCluster[];
+}
+
+/** Variable values replaced before clustering, in order */
+const MASKS: Array<[RegExp, string]> = [
+  // Quoted values, but not apostrophes inside words
+  [/(^|[\s=:(,[])'[^'\n]*'(?=$|[\s,.;:)\]])/g, "$1'<str>'"],
+  [/(^|[\s=:(,[])"[^"\n]*"(?=$|[\s,.;:)\]])/g, '$1"<str>"'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/(^|[\s=:('"[])(?:~|\.{1,2})?(?:\/[\w.@+-]+){2,}\/?/g, '$1<path>'],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}\b/g, '<ip>'],
+  [/(<ip>|localhost|\]|\b[a-z][\w-]*(?:\.[\w-]+)+):\d{1,5}\b/gi, '$1:<port>'],
+  [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+  // Long hex ids (commit hashes, container ids) mixing letters and digits
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, '<hex>'],
+  // Numbers, including durations and sizes such as 30s or 512MB
+  [/\b\d+(?:\.\d+)?(?:[mun]?s|[mhd]|[kmgt]i?b|b)?\b/gi, '<num>'],
+];
+
+/** Regex source for each placeholder, used by templateToRegex */
+const PLACEHOLDER_REGEX: Record<string, string> = {
+  [WILDCARD]: '\\S+',
+  '<str>': '.*?',
+  '<uuid>': '[0-9a-f-]{36}',
+  '<path>': '\\S+',
+  '<ip>': '\\d{1,3}(?:\\.\\d{1,3}){3}',
+  '<port>': '\\d+',
+  '<hex>': '(?:0x)?[0-9a-f]+',
+  '<num>': '\\d+(?:\\.\\d+)?[a-z]*',
+};
+
+const PLACEHOLDER = /<\*>|<str>|<uuid>|<path>|<ip>|<port>|<hex>|<num>/g;
+
+/**
+ * Mask variable values and split a message into tokens
+ */
+export function tokenizeMessage(message: string): string[] {
+  let masked = message;
+  for (const [regex, replacement] of MASKS) {
+    masked = masked.replace(regex, replacement);
+  }
+  return masked.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * A token's constant text, without its placeholders
+ */
+export function stripPlaceholders(token: string): string {
+  return token.replace(PLACEHOLDER, '');
+}
+
+function hasDigits(token: string): boolean {
+  return /\d/.test(stripPlaceholders(token));
+}
+
+/**
+ * Share of positions where the template's constant tokens equal the message's
+ */
+function similarity(template: string[], tokens: string[]): number {
+  if (tokens.length === 0) {
+    return 1;
+  }
+  let same = 0;
+  template.forEach((token, i) => {
+    if (token === tokens[i] && token !== WILDCARD) {
+      same++;
+    }
+  });
+  return same / tokens.length;
+}
+
+/**
+ * Mines templates from a stream of log messages
+ */
+export class TemplateMiner {
+  private readonly depth: number;
+  private readonly threshold: number;
+  private readonly maxChildren: number;
+  private readonly byLength = new Map<number, TreeNode>();
+  private readonly all: LogCluster[] = [];
+
+  constructor(options: TemplateMinerOptions = {}) {
+    this.depth = Math.max(options.depth ?? 4, 3);
+    this.threshold = options.similarity ?? 0.6;
+    this.maxChildren = options.maxChildren ?? 100;
+  }
+
+  /**
+   * Add a message (seen `count` times) and return the cluster it joined.
+   * A cluster's template may still generalize as more messages are added.
+   */
+  add(message: string, count: number = 1): LogCluster {
+    const tokens = tokenizeMessage(message);
+    const leaf = this.leafFor(tokens);
+
+    let best: LogCluster | null = null;
+    let bestScore = -1;
+    for (const cluster of leaf.clusters) {
+      const score = similarity(cluster.tokens, tokens);
+      if (score > bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    if (best && bestScore >= this.threshold) {
+      best.tokens = best.tokens.map((token, i) => (token === tokens[i] ? token : WILDCARD));
+      best.count += count;
+      return best;
+    }
+
+    const cluster: LogCluster = { id: this.all.length + 1, tokens, count };
+    leaf.clusters.push(cluster);
+    this.all.push(cluster);
+    return cluster;
+  }
+
+  /**
+   * All clusters, in the order they were created
+   */
+  get clusters(): LogCluster[] {
+    return [...this.all];
+  }
+
+  private leafFor(tokens: string[]): TreeNode {
+    let node = this.byLength.get(tokens.length);
+    if (!node) {
+      node = { children: new Map(), clusters: [] };
+      this.byLength.set(tokens.length, node);
+    }
+
+    // Route on the leading tokens; ones with digits are likely variables
+    const prefixLength = Math.min(this.depth - 2, tokens.length);
+    for (const token of tokens.slice(0, prefixLength)) {
+      let key = hasDigits(token) ? WILDCARD : token;
+      if (!node.children.has(key) && node.children.size >= this.maxChildren) {
+        key = WILDCARD;
+      }
+      let child = node.children.get(key);
+      if (!child) {
+        child = { children: new Map(), clusters: [] };
+        node.children.set(key, child);
+      }
+      node = child;
+    }
+    return node;
+  }
+}
+
+/**
+ * A cluster's template as text
+ */
+export function templateText(cluster: LogCluster): string {
+  return cluster.tokens.join(' ');
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A regex matching every message of a template
+ */
+export function templateToRegex(template: string): string {
+  return template
+    .split(' ')
+    .map(token => {
+      let source = '';
+      let last = 0;
+      for (const match of token.matchAll(PLACEHOLDER)) {
+        source += escapeRegex(token.slice(last, match.index)) + PLACEHOLDER_REGEX[match[0]];
+        last = match.index! + match[0].length;
+      }
+      return source + escapeRegex(token.slice(last));
+    })
+    .join('\\s+');
+}
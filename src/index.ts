@@ -10,9 +10,12 @@ import { Command } from 'commander';
 import { contextCommand } from './cli/context.js';
 import { similarCommand } from './cli/similar.js';
 import { reflectCommand } from './cli/reflect.js';
+import { reviewCommand } from './cli/review.js';
 import { markCommand } from './cli/mark.js';
+import { feedbackCommand } from './cli/feedback.js';
 import { playbookCommand } from './cli/playbook.js';
 import { statsCommand } from './cli/stats.js';
+import { PlaybookParseError } from './core/playbook.js';
 
 const program = new Command();
 
@@ -30,9 +33,22 @@ program
 program.addCommand(contextCommand);
 program.addCommand(similarCommand);
 program.addCommand(reflectCommand);
+program.addCommand(reviewCommand);
 program.addCommand(markCommand);
+program.addCommand(feedbackCommand);
 program.addCommand(playbookCommand);
 program.addCommand(statsCommand);
 
-// Parse and run
-program.parse();
+// Parse and run; a playbook that isn't valid YAML stops any command
+program.parseAsync().catch(err => {
+  if (!(err instanceof PlaybookParseError)) {
+    throw err;
+  }
+  if (program.opts().json || program.opts().robot) {
+    console.log(JSON.stringify({ success: false, error: err.message }, null, 2));
+  } else {
+    console.error(`Error: ${err.message}`);
+    console.error('Fix the file, then check it with "slsm playbook validate".');
+  }
+  process.exit(1);
+});